@@ -1,23 +1,119 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Layout } from './components/Layout';
 import { Dashboard } from './components/Dashboard';
 import { NewSubmission } from './components/NewSubmission';
 import { ReviewDetail } from './components/ReviewDetail';
 import { AdminSettings } from './components/AdminSettings';
 import { UserGuide } from './components/UserGuide';
-import { MOCK_USERS, MOCK_CONTRACTS } from './constants';
-import { ContractData } from './types';
+import { AuditLogViewer } from './components/AuditLogViewer';
+import { ContractImportWizard } from './components/ContractImportWizard';
+import { ProfileSettings } from './components/ProfileSettings';
+import { MOCK_CONTRACTS, DEFAULT_DOA_MATRIX, DEFAULT_RISK_RULE_SET, DEFAULT_ROLE_PERMISSIONS, DEFAULT_SLA_POLICY } from './constants';
+import { ContractData, ContractStatus, ContractVersion, DoaRule, RiskRuleSet, RiskTriggerRule, AuditLog, InAppNotification, User, Permission, RolePermissionMatrix, ApprovalDelegation, SlaPolicy } from './types';
+import { appendAuditEntry, AuditEntryInput } from './utils/auditChain';
+import { getLatestRuleSet } from './utils/riskRulesEngine';
+import { ImportSaveFailure } from './utils/contractImport';
+import { deriveApprovalRoute } from './utils/approvalWorkflow';
+import { seedRepository, applyContractEdit, ContractAccessDeniedError, ContractAlreadyExistsError, ContractConflictError, ContractNotFoundError } from './services/contractRepository';
+import { createScopedContractRepository } from './services/scopedContractRepository';
+import { createIndexedDbContractRepository } from './services/indexedDbContractRepository';
+import { createIndexedDbSettingsRepository } from './services/settingsRepository';
+import { createIndexedDbContractVersionRepository } from './services/contractVersionRepository';
+import { createIndexedDbAuditLogRepository } from './services/auditLogRepository';
+import { createIndexedDbUserRepository, UserChangeBlockedError, UserNotFoundError } from './services/userRepository';
+import { createIndexedDbAdminAuditLogRepository } from './services/adminAuditLogRepository';
+import { createIndexedDbDelegationRepository } from './services/delegationRepository';
+import { createIndexedDbCommentReadMarkerRepository } from './services/commentReadMarkerRepository';
+import { createIndexedDbSlaNoticeRepository } from './services/slaNoticeRepository';
+import { AuthService } from './services/authService';
+import { createContractVersion } from './utils/contractVersions';
+import { canViewContract } from './utils/accessControl';
+import { hasPermission, normalizeRolePermissions, describePermissionChanges } from './utils/permissions';
+import { DelegationDraft, getActiveDelegators } from './utils/delegation';
+import { CommentReadMarkers } from './utils/commentReadState';
+import { describeSlaPolicy, getDueSlaNotices } from './utils/sla';
+import { createSlaNotice, resolveSlaRecipients, sendSlaNotice, slaNoticeAuditEntry } from './utils/slaNotifications';
+import { UserDraft, getDeletionBlockers, getUserUpdateBlocker, getReassignmentCandidates, describeUserChanges } from './utils/userLifecycle';
+import { OutboxEntry } from './services/notificationOutbox';
+import { formatRecipients } from './services/notificationTransport';
+import { notificationOutbox, inboxRepository } from './utils/notificationUtils';
 import { Mail, X } from 'lucide-react';
 
-const App: React.FC = () => {
-  const [user, setUser] = useState(MOCK_USERS[0]);
+const contractRepository = createIndexedDbContractRepository();
+const settingsRepository = createIndexedDbSettingsRepository();
+const versionRepository = createIndexedDbContractVersionRepository();
+const auditLogRepository = createIndexedDbAuditLogRepository();
+const userDirectory = createIndexedDbUserRepository();
+const adminAuditLogRepository = createIndexedDbAdminAuditLogRepository();
+const delegationRepository = createIndexedDbDelegationRepository();
+const commentReadMarkerRepository = createIndexedDbCommentReadMarkerRepository();
+const slaNoticeRepository = createIndexedDbSlaNoticeRepository();
+
+// Mock data is only loaded into an empty store, and only when explicitly enabled.
+const SEED_MOCK_DATA = import.meta.env.VITE_SEED_MOCK_DATA === 'true';
+
+// Queued emails whose retry is due are picked up on this interval
+const OUTBOX_RETRY_INTERVAL_MS = 15000;
+
+// SLA reminders and escalations that have come due are sent on this interval
+const SLA_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Contracts stored before routes were recorded (or seeded without one) are routed
+// once against the saved DoA matrix, so every screen and job reads the same route
+const persistMissingApprovalRoutes = async () => {
+  const [stored, savedMatrix] = await Promise.all([contractRepository.list(), settingsRepository.get('doaMatrix')]);
+  const matrix = savedMatrix || DEFAULT_DOA_MATRIX;
+  for (const contract of stored) {
+    if (contract.approvalRoute || contract.status === ContractStatus.DRAFT) continue;
+    await contractRepository.modify(contract.id, latest =>
+      latest.approvalRoute ? latest : { ...latest, approvalRoute: deriveApprovalRoute(latest, matrix) });
+  }
+};
+
+const deliveryAuditEntry = (entry: OutboxEntry): AuditEntryInput => ({
+  userId: 'system',
+  userName: 'System',
+  action: entry.status === 'sent' ? 'Email Notification Sent' : 'Email Delivery Failed',
+  details: entry.status === 'sent'
+    ? `Sent to ${formatRecipients(entry.message.to)} via ${entry.transport}: ${entry.message.subject}`
+    : `Could not deliver to ${formatRecipients(entry.message.to)} after ${entry.attempts} attempt(s): ${entry.lastError}`
+});
+
+interface AppProps {
+  user: User; // The signed-in user (components/AuthGate)
+  onLogout: () => void;
+  onSwitchUser?: (userId: string) => void; // Dev mode only
+  accountService: Pick<AuthService, 'setPassword' | 'syncUsername' | 'removeCredential'>;
+}
+
+const AccessDenied: React.FC = () => (
+  <div className="p-12 text-center text-slate-500 dark:text-slate-400">You do not have permission to open this page.</div>
+);
+
+const App: React.FC<AppProps> = ({ user: signedInUser, onLogout, onSwitchUser, accountService }) => {
   const [view, setView] = useState('dashboard');
-  const [contracts, setContracts] = useState<ContractData[]>(MOCK_CONTRACTS);
+  const [contracts, setContracts] = useState<ContractData[]>([]);
   const [selectedContract, setSelectedContract] = useState<ContractData | null>(null);
+  const [selectedTab, setSelectedTab] = useState<string | undefined>(undefined);
+  const [selectedVersions, setSelectedVersions] = useState<ContractVersion[]>([]);
+  const [selectedAuditArchive, setSelectedAuditArchive] = useState<AuditLog[]>([]);
+  const [auditArchiveRevision, setAuditArchiveRevision] = useState(0);
   const [editingContract, setEditingContract] = useState<ContractData | null>(null);
   const [darkMode, setDarkMode] = useState(false);
-  const [notification, setNotification] = useState<{to: string, subject: string} | null>(null);
+  const [doaMatrix, setDoaMatrix] = useState<DoaRule[]>(DEFAULT_DOA_MATRIX);
+  const [riskRuleSets, setRiskRuleSets] = useState<RiskRuleSet[]>([DEFAULT_RISK_RULE_SET]);
+  const [rolePermissions, setRolePermissions] = useState<RolePermissionMatrix>(() => normalizeRolePermissions(DEFAULT_ROLE_PERMISSIONS));
+  const [slaPolicy, setSlaPolicy] = useState<SlaPolicy>(DEFAULT_SLA_POLICY);
+  const [notification, setNotification] = useState<{to: string, subject: string, failed?: boolean} | null>(null);
+  const [inbox, setInbox] = useState<InAppNotification[]>([]);
+  const [commentReadMarkers, setCommentReadMarkers] = useState<CommentReadMarkers>({});
+  const [users, setUsers] = useState<User[]>([]);
+  const [adminAuditLog, setAdminAuditLog] = useState<AuditLog[]>([]);
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+
+  // The directory copy reflects edits made in Admin Settings since sign-in
+  const user = users.find(u => u.id === signedInUser.id) ?? signedInUser;
 
   // Apply dark mode class to html element
   useEffect(() => {
@@ -28,33 +124,443 @@ const App: React.FC = () => {
     }
   }, [darkMode]);
 
-  // Listen for simulated emails
+  // Users whose approval authority this user holds today; their contracts are in scope too
+  const activeDelegators = useMemo(() => getActiveDelegators(user, delegations, users), [user, delegations, users]);
+
+  // Every user-initiated read and write goes through this, so the user only reaches
+  // contracts in their scope (utils/accessControl). System jobs use contractRepository.
+  const userRepository = useMemo(() => createScopedContractRepository(contractRepository, user, activeDelegators), [user, activeDelegators]);
+
+  // Load persisted contracts (optionally seeding demo data first); reloaded when the user changes
+  useEffect(() => {
+    const loadContracts = async () => {
+      try {
+        if (SEED_MOCK_DATA) await seedRepository(contractRepository, MOCK_CONTRACTS);
+        await persistMissingApprovalRoutes();
+        const stored = await userRepository.list();
+        setContracts(stored);
+        setSelectedContract(prev => prev && stored.some(c => c.id === prev.id) ? prev : null);
+        setEditingContract(prev => prev && stored.some(c => c.id === prev.id) ? prev : null);
+        // Archive any chained entries not yet archived (e.g. freshly seeded contracts)
+        for (const contract of stored) await archiveAuditTrail(contract);
+      } catch (error) {
+        console.error("Contract Store Error:", error);
+      }
+    };
+    loadContracts();
+  }, [userRepository]);
+
+  // Load admin configuration (falls back to defaults until saved once)
+  useEffect(() => {
+    settingsRepository.get('doaMatrix')
+      .then(saved => { if (saved) setDoaMatrix(saved); })
+      .catch(error => console.error("Settings Store Error:", error));
+    settingsRepository.get('riskRuleSets')
+      .then(saved => { if (saved && saved.length > 0) setRiskRuleSets(saved); })
+      .catch(error => console.error("Settings Store Error:", error));
+    settingsRepository.get('rolePermissions')
+      .then(saved => { if (saved) setRolePermissions(normalizeRolePermissions(saved)); })
+      .catch(error => console.error("Settings Store Error:", error));
+    settingsRepository.get('slaPolicy')
+      .then(saved => { if (saved) setSlaPolicy(saved); })
+      .catch(error => console.error("Settings Store Error:", error));
+  }, []);
+
+  // Load the user directory (seeded at sign-in), delegations and the admin audit log
+  useEffect(() => {
+    userDirectory.list()
+      .then(setUsers)
+      .catch(error => console.error("User Store Error:", error));
+    delegationRepository.list()
+      .then(setDelegations)
+      .catch(error => console.error("Delegation Store Error:", error));
+    adminAuditLogRepository.list()
+      .then(setAdminAuditLog)
+      .catch(error => console.error("Audit Store Error:", error));
+  }, []);
+
+  const can = (permission: Permission) => hasPermission(user, permission, rolePermissions);
+
+  // Called after each admin change has been stored
+  const recordAdminChange = async (action: string, details: string) => {
+    try {
+      const entry = await adminAuditLogRepository.append({ userId: user.id, userName: user.name, action, details });
+      setAdminAuditLog(prev => [...prev, entry]);
+    } catch (error) {
+      console.error("Audit Store Error:", error);
+    }
+  };
+
+  const handleSaveDoaMatrix = async (matrix: DoaRule[]) => {
+    await settingsRepository.save('doaMatrix', matrix);
+    setDoaMatrix(matrix);
+    await recordAdminChange('DoA Matrix Updated', `${matrix.length} value band(s)`);
+  };
+
+  const handleSaveRolePermissions = async (matrix: RolePermissionMatrix) => {
+    const normalized = normalizeRolePermissions(matrix);
+    await settingsRepository.save('rolePermissions', normalized);
+    setRolePermissions(normalized);
+    await recordAdminChange('Role Permissions Updated', describePermissionChanges(rolePermissions, normalized) || 'No changes');
+  };
+
+  const handleSaveSlaPolicy = async (policy: SlaPolicy) => {
+    await settingsRepository.save('slaPolicy', policy);
+    setSlaPolicy(policy);
+    await recordAdminChange('SLA Targets Updated', describeSlaPolicy(policy));
+  };
+
+  const handleCreateUser = async (draft: UserDraft, password: string) => {
+    const created: User = { id: `u-${Date.now()}`, ...draft };
+    await userDirectory.create(created);
+    if (password) await accountService.setPassword(created.id, password);
+    setUsers(prev => [...prev, created]);
+    await recordAdminChange('User Created', `${created.name} <${created.email}>, ${created.role}, ${created.entity}${password ? ', password set' : ''}`);
+  };
+
+  // Guardrails are re-checked against every stored contract, not just the ones loaded here
+  const handleUpdateUser = async (updated: User, password: string) => {
+    const before = users.find(u => u.id === updated.id);
+    if (!before) throw new UserNotFoundError(updated.id);
+    const blocker = getUserUpdateBlocker(before, updated, user, await contractRepository.list(), users, rolePermissions);
+    if (blocker) throw new UserChangeBlockedError(blocker);
+
+    await userDirectory.update(updated);
+    if (updated.email !== before.email) await accountService.syncUsername(updated);
+    if (password) await accountService.setPassword(updated.id, password);
+    setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+
+    const changes = describeUserChanges(before, updated);
+    if (changes) await recordAdminChange('User Updated', `${updated.name}: ${changes}`);
+    if (password) await recordAdminChange('Password Reset', updated.name);
+  };
+
+  const handleDeleteUser = async (target: User) => {
+    const blockers = getDeletionBlockers(target, user, await contractRepository.list(), users, rolePermissions);
+    if (blockers.length > 0) throw new UserChangeBlockedError(blockers.join(' '));
+
+    await userDirectory.delete(target.id);
+    await accountService.removeCredential(target.id);
+    setUsers(prev => prev.filter(u => u.id !== target.id));
+    await recordAdminChange('User Deleted', `${target.name} <${target.email}>, ${target.role}, ${target.entity}`);
+  };
+
+  // Users manage their own delegations from their profile; user admins manage anyone's
+  const assertCanManageDelegation = (delegatorId: string) => {
+    if (delegatorId !== user.id && !can(Permission.ADMIN_USERS)) {
+      throw new UserChangeBlockedError('You can only manage your own delegations.');
+    }
+  };
+
+  const describeDelegation = (d: DelegationDraft) =>
+    `${users.find(u => u.id === d.delegatorId)?.name} -> ${users.find(u => u.id === d.delegateId)?.name}, ${d.startDate} to ${d.endDate}${d.reason ? ` (${d.reason})` : ''}`;
+
+  const handleCreateDelegation = async (draft: DelegationDraft) => {
+    assertCanManageDelegation(draft.delegatorId);
+    const delegation: ApprovalDelegation = { id: `dlg-${Date.now()}`, ...draft, createdBy: user.id, createdAt: Date.now() };
+    await delegationRepository.save(delegation);
+    setDelegations(prev => [...prev, delegation]);
+    await recordAdminChange('Delegation Created', describeDelegation(delegation));
+  };
+
+  const handleRevokeDelegation = async (delegation: ApprovalDelegation) => {
+    assertCanManageDelegation(delegation.delegatorId);
+    const revoked: ApprovalDelegation = { ...delegation, revokedAt: Date.now(), revokedBy: user.id };
+    await delegationRepository.save(revoked);
+    setDelegations(prev => prev.map(d => d.id === revoked.id ? revoked : d));
+    await recordAdminChange('Delegation Revoked', describeDelegation(revoked));
+  };
+
+  // Hands an open contract to another submitter, e.g. before its owner is deleted
+  const handleReassignContract = async (contract: ContractData, submitter: User) => {
+    let details = '';
+    const updated = await userRepository.modify(contract.id, latest => {
+      if (!getReassignmentCandidates(latest, users, rolePermissions).some(u => u.id === submitter.id)) {
+        throw new UserChangeBlockedError(`${submitter.name} cannot take over contracts for ${latest.entity}.`);
+      }
+      const previousName = users.find(u => u.id === latest.submitterId)?.name || latest.submitterId;
+      details = `${latest.title}: ${previousName} -> ${submitter.name}`;
+      return {
+        ...latest,
+        submitterId: submitter.id,
+        auditTrail: appendAuditEntry(latest.auditTrail, { userId: user.id, userName: user.name, action: 'Contract Reassigned', details: `Submitter changed from ${previousName} to ${submitter.name}` })
+      };
+    });
+    await archiveAuditTrail(updated);
+    setContracts(prev => prev.map(c => c.id === updated.id ? updated : c));
+    await recordAdminChange('Contract Reassigned', details);
+  };
+
+  // Publishing never edits an existing version, so assessed contracts stay reproducible
+  const handlePublishRiskRules = async (rules: RiskTriggerRule[]) => {
+    const next: RiskRuleSet = {
+      version: getLatestRuleSet(riskRuleSets).version + 1,
+      rules,
+      publishedAt: Date.now(),
+      publishedBy: user.name
+    };
+    const updatedSets = [...riskRuleSets, next];
+    await settingsRepository.save('riskRuleSets', updatedSets);
+    setRiskRuleSets(updatedSets);
+    await recordAdminChange('Risk Rules Published', `Version ${next.version}: ${rules.length} rule(s)`);
+  };
+
+  // Copies new chained audit entries to the append-only archive the Audit Trail tab verifies against
+  const archiveAuditTrail = async (contract: ContractData) => {
+    try {
+      const added = await auditLogRepository.append(contract.id, contract.auditTrail || []);
+      if (added > 0) setAuditArchiveRevision(r => r + 1);
+    } catch (error) {
+      console.error("Audit Store Error:", error);
+    }
+  };
+
+  // Write email delivery results back into the contract's audit trail
   useEffect(() => {
-    const handleEmailEvent = (e: Event) => {
-      const detail = (e as CustomEvent).detail;
-      setNotification({ to: detail.to, subject: detail.subject });
+    const recordDelivery = async (entry: OutboxEntry) => {
+      if (entry.status === 'queued') {
+        console.warn(`Email to ${formatRecipients(entry.message.to)} failed (attempt ${entry.attempts}), retrying: ${entry.lastError}`);
+        return;
+      }
+
+      setNotification({ to: formatRecipients(entry.message.to), subject: entry.message.subject, failed: entry.status === 'failed' });
       // Auto dismiss
       setTimeout(() => setNotification(null), 5000);
+
+      if (!entry.contractId) return;
+      try {
+        // Appended to the stored copy in the same step that writes it, so a concurrent
+        // user edit or another delivery cannot overwrite the entry
+        const updated = await contractRepository.modify(entry.contractId, stored =>
+          ({ ...stored, auditTrail: appendAuditEntry(stored.auditTrail, deliveryAuditEntry(entry)) }));
+        await archiveAuditTrail(updated);
+        setContracts(prev => prev.map(c => c.id === updated.id ? updated : c));
+        setSelectedContract(prev => prev && prev.id === updated.id ? updated : prev);
+      } catch (error) {
+        // The contract may have been deleted since the email was queued
+        if (!(error instanceof ContractNotFoundError)) console.error("Contract Store Error:", error);
+      }
     };
 
-    window.addEventListener('email-sent', handleEmailEvent);
-    return () => window.removeEventListener('email-sent', handleEmailEvent);
+    const unsubscribe = notificationOutbox.subscribe(recordDelivery);
+    notificationOutbox.flush();
+    const retryTimer = setInterval(() => notificationOutbox.flush(), OUTBOX_RETRY_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(retryTimer);
+    };
   }, []);
 
-  const handleContractSubmit = (contract: ContractData) => {
-    if (editingContract) {
-      // Update existing
-      setContracts(prev => prev.map(c => c.id === contract.id ? contract : c));
-      setEditingContract(null);
-    } else {
-      // Create new
-      setContracts(prev => [contract, ...prev]);
+  // Send SLA reminders and escalations as deadlines approach and pass. The saved
+  // policy, directory and delegations are read on every run so edits take effect.
+  // Each notice is claimed in its own store and its audit entry appended to the
+  // stored contract before anything is sent (utils/slaNotifications).
+  useEffect(() => {
+    const checkSlas = async () => {
+      try {
+        const [stored, sent, directory, allDelegations, savedPolicy] = await Promise.all([
+          contractRepository.list(), slaNoticeRepository.list(), userDirectory.list(), delegationRepository.list(), settingsRepository.get('slaPolicy'),
+        ]);
+        const policy = savedPolicy || DEFAULT_SLA_POLICY;
+        const now = Date.now();
+        for (const contract of stored) {
+          for (const due of getDueSlaNotices(contract, policy, sent, now)) {
+            const notice = createSlaNotice(contract, due, now);
+            if (!await slaNoticeRepository.claim(notice)) continue;
+
+            const recipients = resolveSlaRecipients(due, contract, policy, directory, allDelegations);
+            let updated: ContractData;
+            try {
+              updated = await contractRepository.modify(contract.id, latest =>
+                ({ ...latest, auditTrail: appendAuditEntry(latest.auditTrail, slaNoticeAuditEntry(due, recipients, now)) }));
+            } catch (error) {
+              // Not recorded, so leave it for the next check
+              console.error("Contract Store Error:", error);
+              await slaNoticeRepository.release(notice.id);
+              continue;
+            }
+            await archiveAuditTrail(updated);
+            setContracts(prev => prev.map(c => c.id === updated.id ? updated : c));
+            setSelectedContract(prev => prev && prev.id === updated.id ? updated : prev);
+            sendSlaNotice(due, updated, recipients);
+          }
+        }
+        notificationOutbox.flush();
+      } catch (error) {
+        console.error("Contract Store Error:", error);
+      }
+    };
+
+    checkSlas();
+    const slaTimer = setInterval(checkSlas, SLA_CHECK_INTERVAL_MS);
+    return () => clearInterval(slaTimer);
+  }, []);
+
+  // Load the current user's inbox, and reload whenever new notifications are added
+  useEffect(() => {
+    const loadInbox = () => {
+      inboxRepository.listForUser(user.id)
+        .then(setInbox)
+        .catch(error => console.error("Inbox Store Error:", error));
+    };
+    loadInbox();
+    window.addEventListener('inbox-updated', loadInbox);
+    return () => window.removeEventListener('inbox-updated', loadInbox);
+  }, [user.id]);
+
+  // Load how far the current user has read each contract's comments
+  useEffect(() => {
+    setCommentReadMarkers({});
+    commentReadMarkerRepository.listForUser(user.id)
+      .then(markers => setCommentReadMarkers(Object.fromEntries(markers.map(m => [m.contractId, m.lastReadAt]))))
+      .catch(error => console.error("Comment Store Error:", error));
+  }, [user.id]);
+
+  const handleMarkCommentsRead = (contractId: string, lastReadAt: number) => {
+    setCommentReadMarkers(prev => ({ ...prev, [contractId]: Math.max(prev[contractId] ?? 0, lastReadAt) }));
+    commentReadMarkerRepository.markRead(user.id, contractId, lastReadAt)
+      .catch(error => console.error("Comment Store Error:", error));
+  };
+
+  const handleOpenNotification = async (item: InAppNotification) => {
+    if (!item.readAt) {
+      await inboxRepository.markRead(user.id, [item.id]).catch(error => console.error("Inbox Store Error:", error));
+      setInbox(prev => prev.map(n => n.id === item.id ? { ...n, readAt: Date.now() } : n));
+    }
+    const contract = contracts.find(c => c.id === item.contractId);
+    if (!contract) {
+      alert("This contract is no longer available.");
+      return;
+    }
+    setEditingContract(null);
+    handleViewContract(contract, item.tab);
+  };
+
+  const handleMarkAllNotificationsRead = async () => {
+    try {
+      await inboxRepository.markRead(user.id);
+      setInbox(prev => prev.map(n => n.readAt ? n : { ...n, readAt: Date.now() }));
+    } catch (error) {
+      console.error("Inbox Store Error:", error);
     }
-    setView('dashboard');
+  };
+
+  // Load the submission history of the open contract
+  const selectedContractId = selectedContract?.id;
+  useEffect(() => {
+    setSelectedVersions([]);
+    if (!selectedContractId) return;
+    versionRepository.listForContract(selectedContractId)
+      .then(setSelectedVersions)
+      .catch(error => console.error("Version Store Error:", error));
+  }, [selectedContractId]);
+
+  useEffect(() => {
+    setSelectedAuditArchive([]);
+    if (!selectedContractId) return;
+    auditLogRepository.listForContract(selectedContractId)
+      .then(setSelectedAuditArchive)
+      .catch(error => console.error("Audit Store Error:", error));
+  }, [selectedContractId, auditArchiveRevision]);
+
+  // Every submission (first, resubmission after edits, or a draft submitted from the review
+  // screen) is kept as a version. Changes within SUBMITTED, e.g. comments, are not.
+  const recordSubmittedVersion = async (contract: ContractData, previous?: ContractData) => {
+    if (contract.status !== ContractStatus.SUBMITTED || previous?.status === ContractStatus.SUBMITTED) return;
+    try {
+      const existing = await versionRepository.listForContract(contract.id);
+      const version = createContractVersion(contract, existing.length + 1, user);
+      await versionRepository.add(version);
+      if (selectedContractId === contract.id) setSelectedVersions([...existing, version]);
+    } catch (error) {
+      console.error("Version Store Error:", error);
+    }
+  };
+
+  // Writes a user's edit of `base` as a change to the stored contract, so what other
+  // tabs and jobs saved in the meantime is kept (services/contractRepository applyContractEdit)
+  const saveEditedContract = (base: ContractData | undefined, edited: ContractData) =>
+    userRepository.modify(edited.id, stored => applyContractEdit(stored, base ?? stored, edited));
+
+  // Shows the stored copy again after a change was refused, e.g. on a conflict
+  const reloadContract = async (id: string) => {
+    const latest = await userRepository.get(id);
+    if (!latest) return;
+    setContracts(prev => prev.map(c => c.id === id ? latest : c));
+    setSelectedContract(prev => prev && prev.id === id ? latest : prev);
+  };
+
+  const handleContractSubmit = async (contract: ContractData) => {
+    try {
+      if (editingContract) {
+        // Update existing
+        const saved = await saveEditedContract(editingContract, contract);
+        setContracts(prev => prev.map(c => c.id === saved.id ? saved : c));
+        await archiveAuditTrail(saved);
+        await recordSubmittedVersion(saved);
+        setEditingContract(null);
+      } else {
+        // Create new
+        await userRepository.create(contract);
+        setContracts(prev => [contract, ...prev]);
+        await archiveAuditTrail(contract);
+        await recordSubmittedVersion(contract);
+      }
+      // Emails queued during submission refer to the contract, so send them once it is stored
+      notificationOutbox.flush();
+      setView('dashboard');
+    } catch (error) {
+      console.error("Contract Store Error:", error);
+      alert(error instanceof ContractConflictError ? `${error.message}. Please reopen it and try again.`
+        : error instanceof ContractAccessDeniedError ? error.message
+        : "The contract could not be saved. Please try again.");
+    }
+  };
+
+  // Saves contracts created by the spreadsheet import; returns the ones that could not be stored
+  const handleImportContracts = async (imported: ContractData[]): Promise<ImportSaveFailure[]> => {
+    const created: ContractData[] = [];
+    const failures: ImportSaveFailure[] = [];
+    for (const contract of imported) {
+      try {
+        await userRepository.create(contract);
+        await archiveAuditTrail(contract);
+        created.push(contract);
+      } catch (error) {
+        console.error("Contract Store Error:", error);
+        failures.push({
+          contractId: contract.id,
+          error: error instanceof ContractAlreadyExistsError || error instanceof ContractAccessDeniedError
+            ? error.message
+            : 'The contract could not be saved. Please try again.'
+        });
+      }
+    }
+    setContracts(prev => [...created, ...prev]);
+    return failures;
   };
 
   const handleContractUpdate = (updated: ContractData) => {
-    // 1. Update the main list
+    // 1. Persist (then send any emails queued by the change), then update the main list
+    const previous = contracts.find(c => c.id === updated.id);
+    // The review screen edits the open contract
+    const base = selectedContract?.id === updated.id ? selectedContract : previous;
+    saveEditedContract(base, updated)
+      .then(async saved => {
+        await archiveAuditTrail(saved);
+        await recordSubmittedVersion(saved, previous);
+        // Show the stored copy, which may carry entries added by other writers
+        setContracts(prev => prev.map(c => c.id === saved.id ? saved : c));
+        setSelectedContract(prev => prev && prev.id === saved.id ? saved : prev);
+        notificationOutbox.flush();
+      })
+      .catch(error => {
+        console.error("Contract Store Error:", error);
+        alert(error instanceof ContractAccessDeniedError || error instanceof ContractNotFoundError || error instanceof ContractConflictError
+          ? `Your last change was not saved: ${error.message}`
+          : "Your last change could not be saved. Please reload and try again.");
+        reloadContract(updated.id).catch(reloadError => console.error("Contract Store Error:", reloadError));
+      });
     setContracts(prev => prev.map(c => c.id === updated.id ? updated : c));
     
     // 2. CRITICAL FIX: Update the selected contract if it's currently open
@@ -64,19 +570,17 @@ const App: React.FC = () => {
     }
   };
 
-  const handleViewContract = (contract: ContractData) => {
-    // Mark as read when viewing
-    if (contract.hasUnreadComments) {
-      const updated = { ...contract, hasUnreadComments: false };
-      handleContractUpdate(updated);
-      setSelectedContract(updated);
-    } else {
-      setSelectedContract(contract);
+  const handleViewContract = (contract: ContractData, tab?: string) => {
+    if (!canViewContract(user, contract, activeDelegators)) {
+      alert("You do not have access to this contract.");
+      return;
     }
+    setSelectedTab(tab);
+    setSelectedContract(contract);
   };
 
   const handleEditContract = () => {
-    if (selectedContract) {
+    if (selectedContract && can(Permission.CONTRACT_EDIT)) {
       setEditingContract(selectedContract);
       setSelectedContract(null); // Close modal
       setView('new');
@@ -95,7 +599,17 @@ const App: React.FC = () => {
         <ReviewDetail 
           contract={selectedContract} 
           currentUser={user} 
+          users={users}
+          doaMatrix={doaMatrix}
+          rolePermissions={rolePermissions}
+          delegations={delegations}
+          slaPolicy={slaPolicy}
+          commentReadMarkers={commentReadMarkers}
+          initialTab={selectedTab}
+          versions={selectedVersions}
+          archivedAuditLog={selectedAuditArchive}
           onUpdate={handleContractUpdate}
+          onMarkCommentsRead={handleMarkCommentsRead}
           onClose={() => setSelectedContract(null)}
           onEdit={handleEditContract}
         />
@@ -109,14 +623,41 @@ const App: React.FC = () => {
             contracts={contracts} 
             onViewContract={handleViewContract} 
             currentUser={user}
+            users={users}
+            slaPolicy={slaPolicy}
+            commentReadMarkers={commentReadMarkers}
+            onOpenAuditLog={can(Permission.AUDIT_VIEW) ? () => handleViewChange('audit') : undefined}
           />
         );
+
+      case 'import':
+        if (!can(Permission.CONTRACT_IMPORT)) return <AccessDenied />;
+        return (
+          <ContractImportWizard
+            user={user}
+            contracts={contracts}
+            doaMatrix={doaMatrix}
+            riskRuleSets={riskRuleSets}
+            rolePermissions={rolePermissions}
+            onImport={handleImportContracts}
+            onClose={() => setView('dashboard')}
+          />
+        );
+
+      case 'audit':
+        if (!can(Permission.AUDIT_VIEW)) return <AccessDenied />;
+        return <AuditLogViewer contracts={contracts} onViewContract={handleViewContract} />;
       
       case 'new':
+        if (!can(editingContract ? Permission.CONTRACT_EDIT : Permission.CONTRACT_CREATE)) return <AccessDenied />;
         return (
           <NewSubmission 
             user={user} 
+            users={users}
+            delegations={delegations}
             initialData={editingContract}
+            doaMatrix={doaMatrix}
+            riskRuleSets={riskRuleSets}
             onSubmit={handleContractSubmit} 
             onCancel={() => {
               setView('dashboard');
@@ -126,8 +667,42 @@ const App: React.FC = () => {
         );
 
       case 'admin':
-        return <AdminSettings currentUser={user} />;
+        if (!can(Permission.ADMIN_USERS) && !can(Permission.ADMIN_SETTINGS)) return <AccessDenied />;
+        return (
+          <AdminSettings 
+            currentUser={user} 
+            users={users}
+            contracts={contracts}
+            adminAuditLog={adminAuditLog}
+            onCreateUser={handleCreateUser}
+            onUpdateUser={handleUpdateUser}
+            onDeleteUser={handleDeleteUser}
+            onReassignContract={handleReassignContract}
+            delegations={delegations}
+            onCreateDelegation={handleCreateDelegation}
+            onRevokeDelegation={handleRevokeDelegation}
+            doaMatrix={doaMatrix} 
+            onSaveDoaMatrix={handleSaveDoaMatrix}
+            riskRuleSets={riskRuleSets}
+            onPublishRiskRules={handlePublishRiskRules}
+            rolePermissions={rolePermissions}
+            onSaveRolePermissions={handleSaveRolePermissions}
+            slaPolicy={slaPolicy}
+            onSaveSlaPolicy={handleSaveSlaPolicy}
+          />
+        );
         
+      case 'profile':
+        return (
+          <ProfileSettings
+            currentUser={user}
+            users={users}
+            delegations={delegations}
+            onCreateDelegation={handleCreateDelegation}
+            onRevokeDelegation={handleRevokeDelegation}
+          />
+        );
+
       case 'guide':
         return <UserGuide />;
 
@@ -139,24 +714,29 @@ const App: React.FC = () => {
   return (
     <Layout 
       user={user} 
+      rolePermissions={rolePermissions}
       currentView={view} 
       onChangeView={handleViewChange} 
-      onChangeUser={(id) => setUser(MOCK_USERS.find(u => u.id === id) || MOCK_USERS[0])}
-      allUsers={MOCK_USERS}
+      onChangeUser={onSwitchUser}
+      onLogout={onLogout}
+      allUsers={users.filter(u => u.isActive)}
       darkMode={darkMode}
       toggleDarkMode={() => setDarkMode(!darkMode)}
+      notifications={inbox}
+      onOpenNotification={handleOpenNotification}
+      onMarkAllNotificationsRead={handleMarkAllNotificationsRead}
     >
       {renderContent()}
 
-      {/* Email Simulation Toast */}
+      {/* Email Delivery Toast */}
       {notification && (
         <div className="fixed top-20 right-6 z-50 animate-slide-in-right">
-          <div className="bg-white dark:bg-slate-800 border-l-4 border-blue-500 rounded shadow-2xl p-4 max-w-sm flex items-start gap-3">
-            <div className="bg-blue-100 dark:bg-blue-900/30 p-2 rounded-full text-blue-600 dark:text-blue-400">
+          <div className={`bg-white dark:bg-slate-800 border-l-4 rounded shadow-2xl p-4 max-w-sm flex items-start gap-3 ${notification.failed ? 'border-red-500' : 'border-blue-500'}`}>
+            <div className={`p-2 rounded-full ${notification.failed ? 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400' : 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'}`}>
               <Mail size={20} />
             </div>
             <div className="flex-1">
-              <h4 className="font-bold text-sm text-slate-900 dark:text-white mb-1">Email Notification Sent</h4>
+              <h4 className="font-bold text-sm text-slate-900 dark:text-white mb-1">{notification.failed ? 'Email Delivery Failed' : 'Email Notification Sent'}</h4>
               <p className="text-xs text-slate-600 dark:text-slate-400"><span className="font-semibold">To:</span> {notification.to}</p>
               <p className="text-xs text-slate-500 dark:text-slate-500 truncate mt-1">{notification.subject}</p>
             </div>
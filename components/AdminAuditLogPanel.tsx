@@ -0,0 +1,70 @@
+import React, { useMemo, useState } from 'react';
+import { AuditLog } from '../types';
+import { verifyAuditTrail } from '../utils/auditChain';
+import { History, ShieldCheck, ShieldAlert } from 'lucide-react';
+
+interface AdminAuditLogPanelProps {
+  entries: AuditLog[]; // Oldest first, as stored
+}
+
+const PAGE_SIZE = 20;
+
+export const AdminAuditLogPanel: React.FC<AdminAuditLogPanelProps> = ({ entries }) => {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const verification = useMemo(() => verifyAuditTrail(entries), [entries]);
+  const newestFirst = useMemo(() => [...entries].reverse(), [entries]);
+  const isIntact = verification.status !== 'tampered';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800/50">
+        <div className="flex items-center gap-2">
+          <History className="text-slate-400 dark:text-slate-500" size={20} />
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Admin Audit Log</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Every change to users, delegations, permissions, risk rules and the DoA matrix.</p>
+          </div>
+        </div>
+        {entries.length > 0 && (
+          <span className={`flex items-center gap-1 text-xs font-bold px-2 py-1 rounded ${isIntact ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400' : 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400'}`}>
+            {isIntact ? <ShieldCheck size={14} /> : <ShieldAlert size={14} />}
+            {isIntact ? `${verification.verifiedCount} entries verified` : `${verification.issues.length} integrity issue(s)`}
+          </span>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="p-6 text-sm text-slate-500 dark:text-slate-400 text-center">No admin changes recorded yet.</div>
+      ) : (
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-3">Time</th>
+              <th className="px-6 py-3">Admin</th>
+              <th className="px-6 py-3">Action</th>
+              <th className="px-6 py-3">Details</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {newestFirst.slice(0, visibleCount).map(entry => (
+              <tr key={entry.id} className="text-sm">
+                <td className="px-6 py-3 whitespace-nowrap text-slate-500 dark:text-slate-400">{new Date(entry.timestamp).toLocaleString()}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-slate-800 dark:text-slate-200">{entry.userName}</td>
+                <td className="px-6 py-3 whitespace-nowrap font-medium text-slate-800 dark:text-slate-200">{entry.action}</td>
+                <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{entry.details}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {newestFirst.length > visibleCount && (
+        <div className="p-3 text-center border-t border-slate-100 dark:border-slate-700">
+          <button onClick={() => setVisibleCount(c => c + PAGE_SIZE)} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Show more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { ContractData, Entity } from '../types';
+import { flattenAuditTrails, filterAuditActivities, auditActivitiesToCsv, auditActivitiesToJson, AuditLogFilters, EMPTY_AUDIT_FILTERS } from '../utils/auditLog';
+import { downloadFile, datedFilename } from '../utils/fileExport';
+import { Activity, Search, Download, FileJson, X } from 'lucide-react';
+
+interface AuditLogViewerProps {
+  contracts: ContractData[];
+  onViewContract: (contract: ContractData) => void;
+}
+
+const PAGE_SIZE = 50;
+
+export const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ contracts, onViewContract }) => {
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_AUDIT_FILTERS);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const activities = useMemo(() => flattenAuditTrails(contracts), [contracts]);
+  const filtered = useMemo(() => filterAuditActivities(activities, filters), [activities, filters]);
+
+  // Filter options come from the log itself, so former users and system actions are included
+  const users = useMemo(() =>
+    Array.from(new Map(activities.map(a => [a.userId, a.userName])).entries()).sort((a, b) => a[1].localeCompare(b[1])),
+  [activities]);
+  const actions = useMemo(() => Array.from(new Set(activities.map(a => a.action))).sort(), [activities]);
+
+  const updateFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_AUDIT_FILTERS);
+
+  const handleExportCsv = () =>
+    downloadFile(datedFilename('audit-log', 'csv'), '\ufeff' + auditActivitiesToCsv(filtered), 'text/csv;charset=utf-8');
+
+  const handleExportJson = () =>
+    downloadFile(datedFilename('audit-log', 'json'), auditActivitiesToJson(filtered), 'application/json');
+
+  const inputClass = "w-full border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Activity className="text-blue-500" /> Audit Log
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">Every recorded action across all contracts.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportCsv}
+            disabled={filtered.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm font-medium shadow-sm"
+          >
+            <Download size={16} /> Export CSV
+          </button>
+          <button
+            onClick={handleExportJson}
+            disabled={filtered.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 text-sm font-medium shadow-sm"
+          >
+            <FileJson size={16} /> Export JSON
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4 items-end">
+        <div className="md:col-span-3 xl:col-span-2">
+          <label className={labelClass}>Search details</label>
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              className={`${inputClass} pl-9`}
+              placeholder="e.g. liability, budget approved..."
+              value={filters.search}
+              onChange={e => updateFilter('search', e.target.value)}
+            />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>User</label>
+          <select className={inputClass} value={filters.userId} onChange={e => updateFilter('userId', e.target.value)}>
+            <option value="ALL">All users</option>
+            {users.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Action</label>
+          <select className={inputClass} value={filters.action} onChange={e => updateFilter('action', e.target.value)}>
+            <option value="ALL">All actions</option>
+            {actions.map(action => <option key={action} value={action}>{action}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Entity</label>
+          <select className={inputClass} value={filters.entity} onChange={e => updateFilter('entity', e.target.value as Entity | 'ALL')}>
+            <option value="ALL">All entities</option>
+            {Object.values(Entity).map(entity => <option key={entity} value={entity}>{entity}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>From</label>
+            <input type="date" className={inputClass} value={filters.from} max={filters.to || undefined} onChange={e => updateFilter('from', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>To</label>
+            <input type="date" className={inputClass} value={filters.to} min={filters.from || undefined} onChange={e => updateFilter('to', e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-slate-500 dark:text-slate-400">
+        <span>{filtered.length} of {activities.length} entries</span>
+        {isFiltered && (
+          <button onClick={() => { setFilters(EMPTY_AUDIT_FILTERS); setVisibleCount(PAGE_SIZE); }} className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline">
+            <X size={14} /> Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <table className="w-full text-left border-collapse text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-3">Time</th>
+              <th className="px-6 py-3">User</th>
+              <th className="px-6 py-3">Action</th>
+              <th className="px-6 py-3">Contract</th>
+              <th className="px-6 py-3">Entity</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {filtered.slice(0, visibleCount).map(log => (
+              <tr key={`${log.contractId}-${log.id}`} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 align-top">
+                <td className="px-6 py-3 text-slate-500 dark:text-slate-400 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                <td className="px-6 py-3 font-medium text-slate-900 dark:text-white whitespace-nowrap">{log.userName}</td>
+                <td className="px-6 py-3 text-slate-600 dark:text-slate-300">
+                  {log.action}
+                  {log.details && <div className="text-xs text-slate-400 mt-0.5 whitespace-pre-wrap">{log.details}</div>}
+                </td>
+                <td className="px-6 py-3">
+                  <button
+                    onClick={() => {
+                      const contract = contracts.find(c => c.id === log.contractId);
+                      if (contract) onViewContract(contract);
+                    }}
+                    className="text-blue-600 dark:text-blue-400 font-medium hover:underline text-left"
+                  >
+                    {log.contractTitle}
+                  </button>
+                  <div className="text-[10px] text-slate-400 font-mono">{log.contractId}</div>
+                </td>
+                <td className="px-6 py-3 text-slate-600 dark:text-slate-300 whitespace-nowrap">{log.entity}</td>
+              </tr>
+            ))}
+            {filtered.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-10 text-center text-slate-500 italic">No audit entries match these filters.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {filtered.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+            className="w-full py-3 text-sm font-medium text-blue-600 dark:text-blue-400 border-t border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50"
+          >
+            Show {Math.min(PAGE_SIZE, filtered.length - visibleCount)} more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
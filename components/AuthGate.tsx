@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import App from '../App';
+import { LoginScreen } from './LoginScreen';
+import { MOCK_USERS } from '../constants';
+import { Entity, User, UserRole } from '../types';
+import { createAuthService, AuthenticationError } from '../services/authService';
+import { createIndexedDbUserRepository, seedUserDirectory } from '../services/userRepository';
+import { createIndexedDbCredentialRepository } from '../services/credentialRepository';
+import { createIndexedDbSessionRepository } from '../services/sessionRepository';
+import { createOidcClient, OidcError } from '../services/oidcClient';
+import { DatabaseBlockedError } from '../services/indexedDb';
+import { relaySession } from '../utils/notificationUtils';
+import { Loader2 } from 'lucide-react';
+
+const env = import.meta.env;
+
+// Dev mode lets anyone switch between directory users without signing in again
+const DEV_MODE = env.VITE_DEV_MODE === 'true';
+// Demo users get this password, but only when mock data is seeded too
+const DEMO_PASSWORD = env.VITE_SEED_MOCK_DATA === 'true' ? env.VITE_DEMO_PASSWORD : undefined;
+
+// An empty directory starts from the demo users only when mock data is enabled.
+// Real deployments name their first administrator explicitly; everyone else is added in Admin Settings.
+const INITIAL_USERS: User[] = env.VITE_SEED_MOCK_DATA === 'true'
+  ? MOCK_USERS
+  : env.VITE_BOOTSTRAP_ADMIN_EMAIL
+    ? [{
+        id: 'bootstrap-admin',
+        name: env.VITE_BOOTSTRAP_ADMIN_NAME || 'Administrator',
+        email: env.VITE_BOOTSTRAP_ADMIN_EMAIL.trim(),
+        role: UserRole.ADMIN,
+        entity: Entity.LONDON,
+        isActive: true,
+      }]
+    : [];
+
+const userDirectory = createIndexedDbUserRepository();
+
+const authService = createAuthService({
+  getUsers: () => userDirectory.list(),
+  credentials: createIndexedDbCredentialRepository(),
+  sessions: createIndexedDbSessionRepository(),
+  oidc: env.VITE_OIDC_ISSUER && env.VITE_OIDC_CLIENT_ID
+    ? createOidcClient({
+        issuer: env.VITE_OIDC_ISSUER,
+        clientId: env.VITE_OIDC_CLIENT_ID,
+        redirectUri: `${window.location.origin}${window.location.pathname}`,
+      })
+    : undefined,
+});
+
+// Messages from our own checks are safe to show; anything else is logged
+const loginErrorMessage = (error: unknown) => {
+  if (error instanceof AuthenticationError || error instanceof OidcError || error instanceof DatabaseBlockedError) return error.message;
+  console.error("Auth Error:", error);
+  return 'Sign-in failed. Please try again.';
+};
+
+export const AuthGate: React.FC = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  // Seed the user directory and demo credentials, then finish an SSO redirect or restore the stored session
+  useEffect(() => {
+    if (started.current) return; // StrictMode runs effects twice; an SSO code is single use
+    started.current = true;
+
+    const start = async () => {
+      try {
+        await seedUserDirectory(userDirectory, INITIAL_USERS);
+        if (DEMO_PASSWORD) await authService.seedCredentials(await userDirectory.list(), DEMO_PASSWORD);
+        if (authService.isOidcCallback(window.location.href)) {
+          const callbackUrl = window.location.href;
+          window.history.replaceState(null, '', window.location.pathname);
+          setUser(await authService.completeOidcLogin(callbackUrl));
+        } else {
+          setUser(await authService.restoreSession() ?? null);
+        }
+      } catch (e) {
+        setError(loginErrorMessage(e));
+      } finally {
+        setLoading(false);
+      }
+    };
+    start();
+  }, []);
+
+  const handlePasswordLogin = async (username: string, password: string) => {
+    try {
+      setError(null);
+      setUser(await authService.loginWithPassword(username, password));
+      // Emails are relayed by the server, which needs its own session; without one they wait in the outbox
+      relaySession?.signIn(username, password).catch(e => console.error("Relay Sign-in Error:", e));
+    } catch (e) {
+      setError(loginErrorMessage(e));
+    }
+  };
+
+  const handleSsoLogin = async () => {
+    try {
+      setError(null);
+      window.location.assign(await authService.beginOidcLogin());
+    } catch (e) {
+      setError(loginErrorMessage(e));
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+      await relaySession?.signOut();
+    } catch (e) {
+      console.error("Auth Error:", e);
+    }
+    setUser(null);
+  };
+
+  const handleSwitchUser = async (id: string) => {
+    try {
+      const next = await userDirectory.get(id);
+      if (next?.isActive) setUser(next);
+    } catch (e) {
+      console.error("Auth Error:", e);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 text-slate-400">
+        <Loader2 size={32} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <LoginScreen
+        onPasswordLogin={handlePasswordLogin}
+        onSsoLogin={authService.oidcEnabled ? handleSsoLogin : undefined}
+        error={error}
+      />
+    );
+  }
+
+  return (
+    <App
+      user={user}
+      onLogout={handleLogout}
+      accountService={authService}
+      onSwitchUser={DEV_MODE ? handleSwitchUser : undefined}
+    />
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Comment } from '../types';
+import { MessageSquarePlus, MessageSquare, CheckCircle, CornerDownRight } from 'lucide-react';
+
+interface CommentAnchorMarkerProps {
+  label: string;
+  comments: Comment[]; // Root comments anchored here
+  onAddComment: () => void;
+  onReply: (comment: Comment) => void;
+}
+
+// Inline marker next to a field: shows the anchored comments and lets reviewers start a new one
+export const CommentAnchorMarker: React.FC<CommentAnchorMarkerProps> = ({ label, comments, onAddComment, onReply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const openCount = comments.filter(c => !c.resolvedAt).length;
+
+  if (comments.length === 0) {
+    return (
+      <button
+        onClick={onAddComment}
+        className="inline-flex items-center text-slate-300 hover:text-blue-600 dark:text-slate-600 dark:hover:text-blue-400 transition-colors align-middle"
+        title={`Comment on ${label}`}
+      >
+        <MessageSquarePlus size={14} />
+      </button>
+    );
+  }
+
+  return (
+    <span className="relative inline-block align-middle">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold border ${
+          openCount > 0
+            ? 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800'
+            : 'bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800'
+        }`}
+        title={openCount > 0 ? `${openCount} open comment(s) on ${label}` : `All comments on ${label} resolved`}
+      >
+        {openCount > 0 ? <MessageSquare size={10} /> : <CheckCircle size={10} />}
+        {openCount > 0 ? openCount : comments.length}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-72 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg shadow-xl z-20 text-left normal-case tracking-normal">
+          <div className="px-3 py-2 border-b border-slate-100 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300">
+            Comments on {label}
+          </div>
+          <ul className="max-h-60 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+            {comments.map(c => (
+              <li key={c.id} className="px-3 py-2 text-xs">
+                <div className="flex items-center justify-between mb-0.5">
+                  <span className="font-bold text-slate-700 dark:text-slate-200">{c.userName}</span>
+                  {c.resolvedAt
+                    ? <span className="text-green-600 dark:text-green-400 font-semibold">Resolved</span>
+                    : <span className="text-amber-600 dark:text-amber-400 font-semibold">Open</span>}
+                </div>
+                <p className="text-slate-600 dark:text-slate-400 whitespace-pre-wrap line-clamp-3 font-normal">{c.text}</p>
+                <button
+                  onClick={() => { setIsOpen(false); onReply(c); }}
+                  className="mt-1 flex items-center gap-0.5 text-blue-600 dark:text-blue-400 hover:underline font-semibold"
+                >
+                  <CornerDownRight size={10} /> Reply
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => { setIsOpen(false); onAddComment(); }}
+            className="w-full px-3 py-2 border-t border-slate-100 dark:border-slate-700 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:bg-slate-50 dark:hover:bg-slate-700/50 flex items-center gap-1"
+          >
+            <MessageSquarePlus size={12} /> New comment
+          </button>
+        </div>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { ContractData, ContractStatus, DoaRule, RiskRuleSet, User, Permission, RolePermissionMatrix } from '../types';
+import { readSpreadsheetFile, SpreadsheetData } from '../utils/spreadsheetImport';
+import { IMPORT_FIELDS, ImportColumnMapping, ImportSaveFailure, suggestColumnMapping, buildImportedContracts } from '../utils/contractImport';
+import { getLatestRuleSet } from '../utils/riskRulesEngine';
+import { hasPermission } from '../utils/permissions';
+import { RiskBadge } from './RiskBadge';
+import { Upload, FileSpreadsheet, ArrowLeft, ArrowRight, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+
+interface ContractImportWizardProps {
+  user: User;
+  contracts: ContractData[];
+  doaMatrix: DoaRule[];
+  riskRuleSets: RiskRuleSet[];
+  rolePermissions: RolePermissionMatrix;
+  onImport: (contracts: ContractData[]) => Promise<ImportSaveFailure[]>; // Resolves to the contracts that could not be saved
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done';
+type ImportStatus = ContractStatus.DRAFT | ContractStatus.APPROVED;
+
+const STEPS: { id: ImportStep; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'map', label: 'Map Columns' },
+  { id: 'review', label: 'Review' },
+];
+
+export const ContractImportWizard: React.FC<ContractImportWizardProps> = ({ user, contracts, doaMatrix, riskRuleSets, rolePermissions, onImport, onClose }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [status, setStatus] = useState<ImportStatus>(ContractStatus.DRAFT);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [saveFailures, setSaveFailures] = useState<ImportSaveFailure[]>([]);
+
+  // Approved records bypass the workflow, so they need their own permission
+  const canImportApproved = hasPermission(user, Permission.CONTRACT_IMPORT_APPROVED, rolePermissions);
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheetFile(file);
+      if (data.rows.length === 0) {
+        alert('The file has a header row but no data rows.');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(suggestColumnMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      console.error("Import Error:", error);
+      alert(error instanceof Error ? error.message : 'The file could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+
+  const results = useMemo(() => {
+    if (!sheet || step === 'upload' || step === 'map') return [];
+    return buildImportedContracts(sheet.headers, sheet.rows, mapping, {
+      status,
+      fileName,
+      user,
+      doaMatrix,
+      ruleSet: getLatestRuleSet(riskRuleSets),
+      existingIds: contracts.map(c => c.id),
+    });
+  }, [sheet, step, mapping, status, fileName, user, doaMatrix, riskRuleSets, contracts]);
+
+  const validContracts = results.flatMap(r => r.contract ? [r.contract] : []);
+  const invalidCount = results.length - validContracts.length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const failures = await onImport(validContracts);
+    setIsImporting(false);
+    setSaveFailures(failures);
+    setStep('done');
+  };
+
+  const createdCount = validContracts.length - saveFailures.length;
+  const getRowNumber = (contractId: string) => results.find(r => r.contract?.id === contractId)?.rowNumber;
+
+  const selectClass = "w-full border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="max-w-5xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in">
+      <div className="p-6 text-white" style={{ backgroundColor: 'rgb(50, 90, 120)' }}>
+        <h2 className="text-2xl font-bold flex items-center gap-2"><FileSpreadsheet /> Import Contracts</h2>
+        <p className="text-sm text-blue-100 mt-1">Bring legacy contract registers in from a CSV or Excel spreadsheet.</p>
+        {step !== 'done' && (
+          <div className="flex gap-2 mt-4">
+            {STEPS.map((s, i) => (
+              <div key={s.id} className="flex-1">
+                <div className={`h-2 rounded-full ${STEPS.findIndex(x => x.id === step) >= i ? 'bg-blue-500' : 'bg-slate-700'}`} />
+                <span className="text-xs text-blue-100">{s.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="p-6">
+        {step === 'upload' && (
+          <div className="space-y-6">
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-xl py-12 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+              {isReading ? <Loader2 size={40} className="text-blue-500 animate-spin" /> : <Upload size={40} className="text-slate-400" />}
+              <span className="mt-3 font-medium text-slate-700 dark:text-slate-200">Choose a .csv or .xlsx file</span>
+              <span className="text-sm text-slate-500 dark:text-slate-400">The first row must contain the column headers. Only the first worksheet is read.</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx"
+                className="hidden"
+                disabled={isReading}
+                onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleFile(file); }}
+              />
+            </label>
+            <div>
+              <span className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Create contracts as</span>
+              <div className="flex flex-col gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={status === ContractStatus.DRAFT} onChange={() => setStatus(ContractStatus.DRAFT)} />
+                  <span><strong>Drafts</strong> — to be completed and submitted through the normal approval workflow</span>
+                </label>
+                <label className={`flex items-center gap-2 ${canImportApproved ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                  <input type="radio" disabled={!canImportApproved} checked={status === ContractStatus.APPROVED} onChange={() => setStatus(ContractStatus.APPROVED)} />
+                  <span><strong>Historical approved records</strong> — contracts already approved outside this system{!canImportApproved && ' (not permitted for your role)'}</span>
+                </label>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && sheet && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              <strong>{fileName}</strong> has {sheet.rows.length} data row{sheet.rows.length === 1 ? '' : 's'}. Choose the column that holds each field. Amounts are converted to USD with the standard exchange rates.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.field} className="flex items-center gap-3">
+                  <label className="w-48 shrink-0 text-sm font-medium text-slate-700 dark:text-slate-300">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select
+                    className={selectClass}
+                    value={mapping[field.field] || ''}
+                    onChange={e => setMapping(prev => ({ ...prev, [field.field]: e.target.value || undefined }))}
+                  >
+                    <option value="">— Not imported —</option>
+                    {sheet.headers.map((h, i) => <option key={i} value={h}>{h || `(column ${i + 1})`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-2">
+                <AlertCircle size={16} /> Map the required fields: {missingRequired.map(f => f.label).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-3 text-sm">
+              <span className="px-3 py-1 rounded-full bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300 font-medium">{validContracts.length} ready to import</span>
+              {invalidCount > 0 && (
+                <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300 font-medium">{invalidCount} with errors (skipped)</span>
+              )}
+              <span className="px-3 py-1 rounded-full bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300">as {status === ContractStatus.APPROVED ? 'historical approved records' : 'drafts'}</span>
+            </div>
+            <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden max-h-[55vh] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase sticky top-0">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Row</th>
+                    <th className="px-4 py-2 text-left">Contract</th>
+                    <th className="px-4 py-2 text-left">Amount (USD)</th>
+                    <th className="px-4 py-2 text-left">Risk</th>
+                    <th className="px-4 py-2 text-left">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {results.map(r => (
+                    <tr key={r.rowNumber} className={`align-top ${r.contract ? '' : 'bg-red-50/60 dark:bg-red-900/10'}`}>
+                      <td className="px-4 py-2 text-slate-500 font-mono">{r.rowNumber}</td>
+                      <td className="px-4 py-2 text-slate-800 dark:text-slate-200">
+                        {r.contract ? <>{r.contract.title}<div className="text-xs text-slate-500">{r.contract.contractorName} • {r.contract.entity}</div></> : '—'}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-slate-600 dark:text-slate-300">
+                        {r.contract && (
+                          <>
+                            ${r.contract.amount.toLocaleString()}
+                            {r.contract.originalCurrency !== 'USD' && <div className="text-xs text-slate-400">{r.contract.originalAmount.toLocaleString()} {r.contract.originalCurrency}</div>}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">{r.contract && <RiskBadge band={r.contract.riskBand!} score={r.contract.riskScore} />}</td>
+                      <td className="px-4 py-2">
+                        {r.contract ? (
+                          <span className="flex items-center gap-1 text-green-700 dark:text-green-400"><CheckCircle size={14} /> OK</span>
+                        ) : (
+                          <ul className="text-red-700 dark:text-red-400 text-xs space-y-0.5">
+                            {r.errors.map((e, i) => <li key={i}>{e}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <CheckCircle size={48} className="text-green-500 mb-3" />
+            <p className="text-lg font-bold text-slate-800 dark:text-white">{createdCount} contract{createdCount === 1 ? '' : 's'} imported</p>
+            {saveFailures.length > 0 && (
+              <div className="mt-4 w-full max-w-2xl text-left">
+                <p className="text-sm font-bold text-red-600 dark:text-red-400 flex items-center gap-1 mb-2">
+                  <AlertCircle size={14} /> {saveFailures.length} could not be saved
+                </p>
+                <ul className="border border-red-200 dark:border-red-900/50 rounded-lg divide-y divide-red-100 dark:divide-red-900/30 text-xs max-h-60 overflow-y-auto">
+                  {saveFailures.map(f => (
+                    <li key={f.contractId} className="px-3 py-2 text-red-700 dark:text-red-400">
+                      <span className="font-mono text-slate-500">Row {getRowNumber(f.contractId)}</span> • {f.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <button onClick={onClose} className="mt-6 px-6 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 font-medium">Go to Dashboard</button>
+          </div>
+        )}
+      </div>
+
+      {step !== 'done' && (
+        <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex justify-between">
+          <button
+            onClick={() => step === 'upload' ? onClose() : setStep(step === 'review' ? 'map' : 'upload')}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+          >
+            <ArrowLeft size={16} /> {step === 'upload' ? 'Cancel' : 'Back'}
+          </button>
+          {step === 'map' && (
+            <button
+              onClick={() => setStep('review')}
+              disabled={missingRequired.length > 0}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              Validate Rows <ArrowRight size={16} />
+            </button>
+          )}
+          {step === 'review' && (
+            <button
+              onClick={handleImport}
+              disabled={validContracts.length === 0 || isImporting}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import {validContracts.length} Contract{validContracts.length === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
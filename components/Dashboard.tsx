@@ -1,14 +1,23 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { ContractData, ContractStatus, Entity, User } from '../types';
-import { MOCK_USERS } from '../constants';
+import { ContractData, ContractStatus, Entity, User, RiskBand, SlaPolicy } from '../types';
+import { getContractRiskBand, getContractRiskScore, compareRiskBands, RISK_BAND_ORDER } from '../utils/riskScore';
+import { CommentReadMarkers, countUnreadComments } from '../utils/commentReadState';
+import { flattenAuditTrails } from '../utils/auditLog';
+import { DAY_MS, SLA_STAGE_LABELS, formatSlaDuration, getAverageCycleDays, getCurrentStageClock } from '../utils/sla';
+import { RiskBadge } from './RiskBadge';
+import { RegisterExportDialog } from './RegisterExportDialog';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
-import { AlertCircle, CheckCircle, Clock, DollarSign, Search, Filter, ArrowRight, MessageSquare, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, Paperclip, UserCheck, Briefcase, Layers, XCircle, User as UserIcon, Activity, Timer, X } from 'lucide-react';
+import { AlertCircle, CheckCircle, Clock, DollarSign, Search, Filter, ArrowRight, MessageSquare, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, Paperclip, UserCheck, Briefcase, Layers, XCircle, User as UserIcon, Activity, Timer, X, ShieldAlert, Download } from 'lucide-react';
 
 interface DashboardProps {
   contracts: ContractData[];
   onViewContract: (contract: ContractData) => void;
   currentUser: User;
+  users: User[]; // The user directory
+  slaPolicy: SlaPolicy;
+  commentReadMarkers: CommentReadMarkers; // The current user's, by contract ID
+  onOpenAuditLog?: () => void;
 }
 
 const STATUS_COLORS: Record<string, string> = {
@@ -27,7 +36,7 @@ const FLAG_URLS: Record<string, string> = {
   'Equatorial Guinea': 'https://flagcdn.com/w80/gq.png'
 };
 
-export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract, currentUser }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract, currentUser, users, slaPolicy, commentReadMarkers, onOpenAuditLog }) => {
   const [selectedEntity, setSelectedEntity] = useState<string | 'ALL'>('ALL');
   
   // Filters
@@ -35,9 +44,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
   const [selectedType, setSelectedType] = useState<string>('ALL');
   const [selectedDepartment, setSelectedDepartment] = useState<string>('ALL');
   const [selectedSubmitter, setSelectedSubmitter] = useState<string>('ALL');
-  const [isHighRiskFilter, setIsHighRiskFilter] = useState(false);
+  const [minRiskBand, setMinRiskBand] = useState<RiskBand | 'ALL'>('ALL');
   const [searchTerm, setSearchTerm] = useState('');
   
+  const [sortField, setSortField] = useState<'date' | 'risk'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   
   // Pagination State
@@ -46,6 +56,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
 
   // Modal State
   const [showAuditModal, setShowAuditModal] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
 
   // Compute available departments based on selected Entity (to avoid showing empty filters)
   const availableDepartments = useMemo(() => {
@@ -66,10 +77,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
   const availableSubmitters = useMemo(() => {
     const ids = new Set(contracts.map(c => c.submitterId).filter(Boolean));
     return Array.from(ids).map(id => {
-        const u = MOCK_USERS.find(user => user.id === id);
+        const u = users.find(user => user.id === id);
         return { id, name: u ? u.name : 'Unknown' };
     }).sort((a, b) => a.name.localeCompare(b.name));
-  }, [contracts]);
+  }, [contracts, users]);
 
   // Filter & Sort Logic
   const filteredContracts = useMemo(() => {
@@ -107,9 +118,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
       data = data.filter(c => c.submitterId === selectedSubmitter);
     }
 
-    // Filter by High Risk
-    if (isHighRiskFilter) {
-      data = data.filter(c => c.isHighRisk);
+    // Filter by Risk Band (selected band and above)
+    if (minRiskBand !== 'ALL') {
+      data = data.filter(c => compareRiskBands(getContractRiskBand(c), minRiskBand) >= 0);
     }
 
     // Filter by Search
@@ -124,20 +135,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
       );
     }
 
-    // Sort by Date
+    // Sort by Date or Risk Score
     data.sort((a, b) => {
-      const dateA = a.submissionDate || 0;
-      const dateB = b.submissionDate || 0;
-      return sortOrder === 'asc' ? dateA - dateB : dateB - dateA;
+      const valueA = sortField === 'risk' ? getContractRiskScore(a) : (a.submissionDate || 0);
+      const valueB = sortField === 'risk' ? getContractRiskScore(b) : (b.submissionDate || 0);
+      return sortOrder === 'asc' ? valueA - valueB : valueB - valueA;
     });
     
     return data;
-  }, [contracts, selectedEntity, selectedStatus, selectedType, selectedDepartment, selectedSubmitter, searchTerm, sortOrder, isHighRiskFilter]);
+  }, [contracts, selectedEntity, selectedStatus, selectedType, selectedDepartment, selectedSubmitter, searchTerm, sortField, sortOrder, minRiskBand]);
 
   // Reset pagination when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [selectedEntity, selectedStatus, selectedType, selectedDepartment, selectedSubmitter, searchTerm, itemsPerPage, isHighRiskFilter]);
+  }, [selectedEntity, selectedStatus, selectedType, selectedDepartment, selectedSubmitter, searchTerm, itemsPerPage, minRiskBand]);
 
   // Pagination Logic
   const totalPages = Math.ceil(filteredContracts.length / itemsPerPage);
@@ -160,8 +171,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
   const metrics = useMemo(() => {
     const pending = kpiBaseContracts.filter(c => c.status === ContractStatus.SUBMITTED || c.status === ContractStatus.PENDING_CEO).length;
     const totalValue = kpiBaseContracts.reduce((acc, c) => acc + c.amount, 0);
-    const highRisk = kpiBaseContracts.filter(c => c.isHighRisk).length;
-    const avgDays = kpiBaseContracts.length > 0 ? 2.5 : 0;
+    // By risk band, matching the drill-down filter; routing uses the rule triggers (isHighRisk)
+    const highRisk = kpiBaseContracts.filter(c => compareRiskBands(getContractRiskBand(c), RiskBand.HIGH) >= 0).length;
+    // First submission to final decision, from the audit trail (utils/sla)
+    const avgDays = getAverageCycleDays(kpiBaseContracts);
     
     const statusData = [
       { name: ContractStatus.SUBMITTED, value: kpiBaseContracts.filter(c => c.status === ContractStatus.SUBMITTED).length },
@@ -181,17 +194,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
   }, [kpiBaseContracts]);
 
   // Aggregate Recent Activity (All and Slice)
-  const allActivities = useMemo(() => {
-    const activities = contracts.flatMap(c => 
-      c.auditTrail.map(log => ({
-        ...log,
-        contractId: c.id,
-        contractTitle: c.contractorName,
-        contractStatus: c.status
-      }))
-    );
-    return activities.sort((a, b) => b.timestamp - a.timestamp);
-  }, [contracts]);
+  const allActivities = useMemo(() => flattenAuditTrails(contracts), [contracts]);
 
   const recentActivity = useMemo(() => {
     return allActivities.slice(0, 5);
@@ -243,27 +246,40 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
     }
   };
 
-  const getAgeBadge = (date: number) => {
-    const days = Math.floor((Date.now() - date) / (1000 * 60 * 60 * 24));
-    if (days < 3) return { text: `${days}d`, class: 'text-green-600 bg-green-50 border-green-200' };
-    if (days < 7) return { text: `${days}d`, class: 'text-yellow-600 bg-yellow-50 border-yellow-200' };
-    return { text: `${days}d`, class: 'text-red-600 bg-red-50 border-red-200 font-bold' };
+  // Time in the current stage against its SLA target; plain age outside review
+  const getAgeBadge = (c: ContractData) => {
+    const now = Date.now();
+    const clock = getCurrentStageClock(c, slaPolicy, now);
+    if (!clock) {
+      const days = Math.floor((now - (c.submissionDate || now)) / DAY_MS);
+      return { text: `${days}d`, title: 'Days since submission', class: 'text-slate-600 bg-slate-50 border-slate-200' };
+    }
+    const text = `${Math.floor((now - clock.startedAt) / DAY_MS)}d / ${slaPolicy.stageTargetDays[clock.stage]}d`;
+    const stage = SLA_STAGE_LABELS[clock.stage];
+    if (clock.status === 'breached') return { text, title: `${stage} overdue by ${formatSlaDuration(now - clock.dueAt)}`, class: 'text-red-600 bg-red-50 border-red-200 font-bold' };
+    if (clock.status === 'due-soon') return { text, title: `${stage} due in ${formatSlaDuration(clock.dueAt - now)}`, class: 'text-yellow-600 bg-yellow-50 border-yellow-200' };
+    return { text, title: `${stage} due in ${formatSlaDuration(clock.dueAt - now)}`, class: 'text-green-600 bg-green-50 border-green-200' };
   };
 
-  const toggleSortOrder = () => {
-    setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc');
+  const toggleSort = (field: 'date' | 'risk') => {
+    if (sortField === field) {
+      setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortOrder('desc');
+    }
   };
 
   const handleKPIClick = (type: 'PENDING' | 'VALUE' | 'RISK' | 'AVG') => {
      if (type === 'PENDING') {
        setSelectedStatus('REVIEW');
-       setIsHighRiskFilter(false);
+       setMinRiskBand('ALL');
      } else if (type === 'RISK') {
        setSelectedStatus('ALL');
-       setIsHighRiskFilter(true);
+       setMinRiskBand(RiskBand.HIGH);
      } else {
        setSelectedStatus('ALL');
-       setIsHighRiskFilter(false);
+       setMinRiskBand('ALL');
      }
   };
 
@@ -273,10 +289,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
     setSelectedDepartment('ALL');
     setSelectedSubmitter('ALL');
     setSearchTerm('');
-    setIsHighRiskFilter(false);
+    setMinRiskBand('ALL');
   };
 
-  const hasActiveFilters = selectedStatus !== 'ALL' || selectedType !== 'ALL' || selectedDepartment !== 'ALL' || selectedSubmitter !== 'ALL' || searchTerm !== '' || isHighRiskFilter;
+  const hasActiveFilters = selectedStatus !== 'ALL' || selectedType !== 'ALL' || selectedDepartment !== 'ALL' || selectedSubmitter !== 'ALL' || searchTerm !== '' || minRiskBand !== 'ALL';
 
   return (
     <div className="space-y-8 animate-fade-in pb-10">
@@ -314,16 +330,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
           onClick={() => handleKPIClick('VALUE')}
         />
         <KPICard 
-          title="High Risk Identified" 
+          title="High/Critical Risk Band" 
           value={metrics.highRisk} 
           icon={<AlertCircle size={24} />} 
           color="orange" 
           onClick={() => handleKPIClick('RISK')}
-          active={isHighRiskFilter}
+          active={minRiskBand === RiskBand.HIGH}
         />
         <KPICard 
-          title="Avg Review Time" 
-          value={`${metrics.avgDays} Days`} 
+          title="Avg Cycle Time" 
+          value={metrics.avgDays === null ? 'n/a' : `${metrics.avgDays.toFixed(1)} Days`} 
           icon={<CheckCircle size={24} />} 
           color="purple" 
           onClick={() => handleKPIClick('AVG')}
@@ -349,7 +365,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                     stroke="none"
                     onClick={(data) => {
                       setSelectedStatus(data.name);
-                      setIsHighRiskFilter(false);
+                      setMinRiskBand('ALL');
                     }}
                     cursor="pointer"
                   >
@@ -447,8 +463,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
            <div className="flex flex-col gap-1">
              <h2 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
                Contract Register
-               {isHighRiskFilter && (
-                  <span className="px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-700 border border-orange-200">High Risk Only</span>
+               {minRiskBand !== 'ALL' && (
+                  <span className="px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-700 border border-orange-200">
+                    {minRiskBand === RiskBand.CRITICAL ? 'Critical Risk Only' : `${minRiskBand} Risk & Above`}
+                  </span>
                )}
                <span className="text-xs font-normal text-slate-500 bg-slate-200 dark:bg-slate-700 px-2 py-0.5 rounded-full">
                  {filteredContracts.length}
@@ -504,6 +522,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                </select>
              </div>
 
+             {/* Risk Band Filter */}
+             <div className="flex items-center gap-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1.5 focus-within:ring-2 ring-blue-500">
+               <ShieldAlert size={16} className="text-slate-400" />
+               <select 
+                value={minRiskBand}
+                onChange={(e) => setMinRiskBand(e.target.value as RiskBand | 'ALL')}
+                className="bg-transparent text-sm text-slate-700 dark:text-slate-300 outline-none cursor-pointer max-w-[120px]"
+                title="Filter by Risk Band (selected and above)"
+               >
+                 <option value="ALL">All Risk Levels</option>
+                 {RISK_BAND_ORDER.slice(1).map(band => (
+                   <option key={band} value={band}>{band === RiskBand.CRITICAL ? band : `${band}+`}</option>
+                 ))}
+               </select>
+             </div>
+
              {/* Department Filter */}
              <div className="flex items-center gap-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1.5 focus-within:ring-2 ring-blue-500">
                <Briefcase size={16} className="text-slate-400" />
@@ -546,6 +580,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                  <XCircle size={16} /> Clear
                </button>
              )}
+
+             {/* Export the filtered register */}
+             <button
+              onClick={() => setShowExportDialog(true)}
+              disabled={filteredContracts.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+              title="Export the filtered register to CSV or Excel"
+             >
+               <Download size={16} /> Export
+             </button>
            </div>
          </div>
          
@@ -563,11 +607,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                  <th className="px-6 py-4">Amount (USD)</th>
                  <th 
                   className="px-6 py-4 cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors select-none"
-                  onClick={toggleSortOrder}
+                  onClick={() => toggleSort('risk')}
+                 >
+                   <div className="flex items-center gap-1">
+                     Risk
+                     {sortField === 'risk' && (sortOrder === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />)}
+                   </div>
+                 </th>
+                 <th 
+                  className="px-6 py-4 cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors select-none"
+                  onClick={() => toggleSort('date')}
                  >
                    <div className="flex items-center gap-1">
                      Aging
-                     {sortOrder === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />}
+                     {sortField === 'date' && (sortOrder === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />)}
                    </div>
                  </th>
                  <th className="px-6 py-4 text-center" title="Attachments">
@@ -580,7 +633,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
                {paginatedContracts.map(c => {
                  const isAdHoc = c.adHocReviewers?.some(r => r.userId === currentUser.id);
-                 const age = getAgeBadge(c.submissionDate || Date.now());
+                 const age = getAgeBadge(c);
+                 const unreadComments = countUnreadComments(c, currentUser.id, commentReadMarkers);
                  return (
                  <tr 
                     key={c.id} 
@@ -616,9 +670,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-300">
                      <div className="flex items-center gap-2">
                         <div className="w-6 h-6 rounded-full bg-slate-200 dark:bg-slate-700 flex items-center justify-center text-[10px] font-bold text-slate-600 dark:text-slate-300">
-                           {MOCK_USERS.find(u => u.id === c.submitterId)?.name.charAt(0) || '?'}
+                           {users.find(u => u.id === c.submitterId)?.name.charAt(0) || '?'}
                         </div>
-                        <span className="truncate max-w-[100px]" title={MOCK_USERS.find(u => u.id === c.submitterId)?.name}>{MOCK_USERS.find(u => u.id === c.submitterId)?.name || 'Unknown'}</span>
+                        <span className="truncate max-w-[100px]" title={users.find(u => u.id === c.submitterId)?.name}>{users.find(u => u.id === c.submitterId)?.name || 'Unknown'}</span>
                      </div>
                    </td>
                    <td className="px-6 py-4">
@@ -631,8 +685,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                      </div>
                    </td>
                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-300 font-mono">${c.amount.toLocaleString()}</td>
+                   <td className="px-6 py-4">
+                     <RiskBadge band={getContractRiskBand(c)} score={getContractRiskScore(c)} />
+                   </td>
                    <td className="px-6 py-4 text-sm">
-                      <span className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded border ${age.class}`}>
+                      <span className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded border ${age.class}`} title={age.title}>
                         <Timer size={10} /> {age.text}
                       </span>
                    </td>
@@ -645,13 +702,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                    </td>
                    <td className="px-6 py-4 text-center">
                      {c.comments && c.comments.length > 0 && (
-                       <div className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold ${
-                         c.hasUnreadComments 
-                         ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300' 
-                         : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'
-                       }`}>
-                         <MessageSquare size={12} className={c.hasUnreadComments ? "animate-pulse" : ""} />
-                         <span>{c.comments.length}</span>
+                       <div 
+                         className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold ${
+                           unreadComments > 0 
+                           ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300' 
+                           : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'
+                         }`}
+                         title={unreadComments > 0 ? `${unreadComments} unread of ${c.comments.length}` : `${c.comments.length} comment(s)`}
+                       >
+                         <MessageSquare size={12} className={unreadComments > 0 ? "animate-pulse" : ""} />
+                         <span>{unreadComments > 0 ? `${unreadComments} new` : c.comments.length}</span>
                        </div>
                      )}
                    </td>
@@ -664,7 +724,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
                )})}
                {paginatedContracts.length === 0 && (
                  <tr>
-                   <td colSpan={12} className="px-6 py-12 text-center text-slate-400 dark:text-slate-500">
+                   <td colSpan={13} className="px-6 py-12 text-center text-slate-400 dark:text-slate-500">
                      No contracts found matching your filters.
                    </td>
                  </tr>
@@ -715,6 +775,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
          </div>
       </div>
 
+      {showExportDialog && (
+        <RegisterExportDialog
+          contracts={filteredContracts}
+          users={users}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
       {/* Full Audit Log Modal */}
       {showAuditModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
@@ -723,12 +791,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ contracts, onViewContract,
               <h3 className="font-bold text-lg text-slate-900 dark:text-white flex items-center gap-2">
                 <Activity size={20} className="text-blue-500" /> Full Audit Log
               </h3>
-              <button 
-                onClick={() => setShowAuditModal(false)}
-                className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400"
-              >
-                <X size={20} />
-              </button>
+              <div className="flex items-center gap-2">
+                {onOpenAuditLog && (
+                  <button
+                    onClick={onOpenAuditLog}
+                    className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Filter &amp; export
+                  </button>
+                )}
+                <button 
+                  onClick={() => setShowAuditModal(false)}
+                  className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400"
+                >
+                  <X size={20} />
+                </button>
+              </div>
             </div>
             <div className="overflow-y-auto p-0">
               <table className="w-full text-left border-collapse text-sm">
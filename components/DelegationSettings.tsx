@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { ApprovalDelegation, User } from '../types';
+import { DelegationDraft, isDelegationActive, isDelegationCurrent, toDateKey, validateDelegation } from '../utils/delegation';
+import { CalendarClock, Plus, Ban } from 'lucide-react';
+
+interface DelegationSettingsProps {
+  currentUser: User;
+  users: User[];
+  delegations: ApprovalDelegation[];
+  // Fixed delegator (the user's own profile); admins choose the delegator when omitted
+  delegatorId?: string;
+  onCreate: (draft: DelegationDraft) => Promise<void>;
+  onRevoke: (delegation: ApprovalDelegation) => Promise<void>;
+}
+
+export const DelegationSettings: React.FC<DelegationSettingsProps> = ({ currentUser, users, delegations, delegatorId, onCreate, onRevoke }) => {
+  const emptyDraft = (): DelegationDraft => ({ delegatorId: delegatorId || '', delegateId: '', startDate: toDateKey(), endDate: toDateKey(), reason: '' });
+  const [draft, setDraft] = useState<DelegationDraft>(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nameOf = (id: string) => users.find(u => u.id === id)?.name || 'Former user';
+
+  // A profile lists what the user gave and received; admins see every delegation
+  const visible = delegations
+    .filter(d => isDelegationCurrent(d))
+    .filter(d => !delegatorId || d.delegatorId === delegatorId || d.delegateId === delegatorId)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const update = <K extends keyof DelegationDraft>(key: K, value: DelegationDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const handleCreate = async () => {
+    const problem = validateDelegation(draft, delegations, users);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onCreate({ ...draft, reason: draft.reason?.trim() || undefined });
+      setDraft(emptyDraft());
+    } catch (e) {
+      console.error("Delegation Store Error:", e);
+      alert("The delegation could not be saved. Please try again.");
+    }
+    setIsSaving(false);
+  };
+
+  const handleRevoke = async (delegation: ApprovalDelegation) => {
+    if (!window.confirm(`Revoke the delegation from ${nameOf(delegation.delegatorId)} to ${nameOf(delegation.delegateId)}?`)) return;
+    try {
+      await onRevoke(delegation);
+    } catch (e) {
+      console.error("Delegation Store Error:", e);
+      alert("The delegation could not be revoked. Please try again.");
+    }
+  };
+
+  const candidates = users.filter(u => u.isActive && u.id !== draft.delegatorId);
+  const inputClass = "w-full border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center gap-2 bg-slate-50 dark:bg-slate-800/50">
+        <CalendarClock className="text-slate-400 dark:text-slate-500" size={20} />
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-white">Approval Delegation</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">While a delegation is active the delegate can approve on the delegator's behalf; each decision records both names.</p>
+        </div>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end border-b border-slate-100 dark:border-slate-700">
+        {!delegatorId && (
+          <div className="md:col-span-2">
+            <label className={labelClass}>Delegator</label>
+            <select className={inputClass} value={draft.delegatorId} onChange={e => update('delegatorId', e.target.value)}>
+              <option value="">Select user...</option>
+              {users.filter(u => u.isActive).map(u => <option key={u.id} value={u.id}>{u.name} ({u.role})</option>)}
+            </select>
+          </div>
+        )}
+        <div className="md:col-span-2">
+          <label className={labelClass}>Delegate</label>
+          <select className={inputClass} value={draft.delegateId} onChange={e => update('delegateId', e.target.value)}>
+            <option value="">Select user...</option>
+            {candidates.map(u => <option key={u.id} value={u.id}>{u.name} ({u.role}, {u.entity})</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>From</label>
+          <input type="date" className={inputClass} value={draft.startDate} onChange={e => update('startDate', e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>To</label>
+          <input type="date" className={inputClass} value={draft.endDate} onChange={e => update('endDate', e.target.value)} />
+        </div>
+        <div className={delegatorId ? 'md:col-span-2' : 'md:col-span-4'}>
+          <label className={labelClass}>Reason</label>
+          <input className={inputClass} placeholder="e.g. Annual leave" value={draft.reason || ''} onChange={e => update('reason', e.target.value)} />
+        </div>
+        <div className="md:col-span-2">
+          <button
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="w-full flex items-center justify-center gap-1 text-sm bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 shadow-sm"
+          >
+            <Plus size={16} /> {isSaving ? 'Saving...' : 'Add Delegation'}
+          </button>
+        </div>
+        {error && <p className="md:col-span-6 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="p-6 text-sm text-slate-500 dark:text-slate-400 text-center">No current or upcoming delegations.</div>
+      ) : (
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-3">Status</th>
+              <th className="px-6 py-3">Delegator</th>
+              <th className="px-6 py-3">Delegate</th>
+              <th className="px-6 py-3">Period</th>
+              <th className="px-6 py-3">Reason</th>
+              <th className="px-6 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {visible.map(d => {
+              const active = isDelegationActive(d);
+              // The delegator and admins (who see the unfiltered list) can revoke
+              const canRevoke = !delegatorId || d.delegatorId === currentUser.id;
+              return (
+                <tr key={d.id} className="text-sm">
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${active ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'}`}>
+                      {active ? 'Active' : 'Scheduled'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-slate-800 dark:text-slate-200">{nameOf(d.delegatorId)}</td>
+                  <td className="px-6 py-3 text-slate-800 dark:text-slate-200">{nameOf(d.delegateId)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-slate-600 dark:text-slate-300">{d.startDate} – {d.endDate}</td>
+                  <td className="px-6 py-3 text-slate-500 dark:text-slate-400">{d.reason}</td>
+                  <td className="px-6 py-3 text-right">
+                    {canRevoke && (
+                      <button onClick={() => handleRevoke(d)} className="inline-flex items-center gap-1 text-xs text-red-600 dark:text-red-400 hover:underline">
+                        <Ban size={14} /> Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
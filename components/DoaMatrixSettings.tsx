@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { DoaRule, Entity, UserRole, ContractType, RiskTriggerRule } from '../types';
+import { DEFAULT_DOA_MATRIX } from '../constants';
+import { describeDoaRule } from '../utils/doaMatrix';
+import { Scale, Plus, Trash2, Save, RotateCcw, AlertCircle } from 'lucide-react';
+
+interface DoaMatrixSettingsProps {
+  doaMatrix: DoaRule[];
+  riskRules: RiskTriggerRule[];
+  onSave: (matrix: DoaRule[]) => Promise<void>;
+}
+
+const CONTRACT_TYPES: ContractType[] = ['OPEX', 'CAPEX', 'MIXED'];
+const APPROVER_ROLES = [UserRole.CORPORATE_CFO, UserRole.CORPORATE_LEGAL, UserRole.CORPORATE_FUNCTION, UserRole.CEO];
+
+const validateRule = (rule: DoaRule): string | null => {
+  if (rule.contractTypes.length === 0) return 'Select at least one contract type';
+  if (rule.approverRoles.length === 0) return 'Select at least one approver';
+  if (rule.minAmountUsd < 0) return 'Lower bound cannot be negative';
+  if (rule.maxAmountUsd !== undefined && rule.maxAmountUsd <= rule.minAmountUsd) return 'Upper bound must exceed lower bound';
+  return null;
+};
+
+export const DoaMatrixSettings: React.FC<DoaMatrixSettingsProps> = ({ doaMatrix, riskRules, onSave }) => {
+  const [draft, setDraft] = useState<DoaRule[]>(doaMatrix);
+  const [isSaving, setIsSaving] = useState(false);
+  // Only rules in 'doa' mode can be raised by a value band
+  const financialTriggers = riskRules.filter(r => r.mode === 'doa');
+
+  // Reset the draft when the saved matrix changes
+  useEffect(() => {
+    setDraft(doaMatrix);
+  }, [doaMatrix]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(doaMatrix);
+  const errors = draft.map(validateRule);
+  const hasErrors = errors.some(Boolean);
+
+  const updateRule = (id: string, changes: Partial<DoaRule>) => {
+    setDraft(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const toggleInList = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleAddRule = () => {
+    setDraft(prev => [...prev, {
+      id: `doa-${Date.now()}`,
+      entity: 'ALL',
+      contractTypes: ['OPEX'],
+      minAmountUsd: 0,
+      approverRoles: [UserRole.CORPORATE_CFO, UserRole.CORPORATE_LEGAL, UserRole.CORPORATE_FUNCTION]
+    }]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      console.error("Settings Store Error:", error);
+      alert("The DoA matrix could not be saved. Please try again.");
+    }
+    setIsSaving(false);
+  };
+
+  const cellInput = "border rounded p-1.5 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800/50">
+        <div className="flex items-center gap-2">
+          <Scale className="text-slate-400 dark:text-slate-500" size={20} />
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Delegation of Authority Matrix</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Value bands per entity and contract type. Entity rows override "All Entities" rows. Used for financial risk triggers and the approval route.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setDraft(DEFAULT_DOA_MATRIX)}
+            className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded hover:bg-white dark:hover:bg-slate-700 transition-colors"
+            title="Restore default bands"
+          >
+            <RotateCcw size={14} /> Defaults
+          </button>
+          <button
+            onClick={handleAddRule}
+            className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded hover:bg-white dark:hover:bg-slate-700 transition-colors"
+          >
+            <Plus size={14} /> Add Band
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || hasErrors || isSaving}
+            className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+          >
+            <Save size={14} /> {isSaving ? 'Saving...' : 'Save Matrix'}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-4 py-3">Entity</th>
+              <th className="px-4 py-3">Contract Types</th>
+              <th className="px-4 py-3">Above (USD)</th>
+              <th className="px-4 py-3">Up To (USD)</th>
+              <th className="px-4 py-3">Required Approvers</th>
+              <th className="px-4 py-3">Risk Trigger</th>
+              <th className="px-4 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {draft.map((rule, i) => (
+              <tr key={rule.id} className="align-top hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                <td className="px-4 py-3">
+                  <select
+                    className={cellInput}
+                    value={rule.entity}
+                    onChange={(e) => updateRule(rule.id, { entity: e.target.value as Entity | 'ALL' })}
+                  >
+                    <option value="ALL">All Entities</option>
+                    {Object.values(Entity).map(e => <option key={e} value={e}>{e}</option>)}
+                  </select>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-col gap-1">
+                    {CONTRACT_TYPES.map(type => (
+                      <label key={type} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={rule.contractTypes.includes(type)}
+                          onChange={() => updateRule(rule.id, { contractTypes: toggleInList(rule.contractTypes, type) })}
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <input
+                    type="number"
+                    min={0}
+                    className={`${cellInput} w-32`}
+                    value={rule.minAmountUsd}
+                    onChange={(e) => updateRule(rule.id, { minAmountUsd: Number(e.target.value) || 0 })}
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  <input
+                    type="number"
+                    min={0}
+                    className={`${cellInput} w-32`}
+                    placeholder="No limit"
+                    value={rule.maxAmountUsd ?? ''}
+                    onChange={(e) => updateRule(rule.id, { maxAmountUsd: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-col gap-1">
+                    {APPROVER_ROLES.map(role => (
+                      <label key={role} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={rule.approverRoles.includes(role)}
+                          onChange={() => updateRule(rule.id, { approverRoles: toggleInList(rule.approverRoles, role) })}
+                        />
+                        {role}
+                      </label>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    className={cellInput}
+                    value={rule.riskTriggerId || ''}
+                    onChange={(e) => updateRule(rule.id, { riskTriggerId: e.target.value || undefined })}
+                  >
+                    <option value="">None</option>
+                    {financialTriggers.map(t => <option key={t.id} value={t.id}>{t.description}</option>)}
+                  </select>
+                  <p className="text-[10px] text-slate-400 mt-1">{describeDoaRule(rule)}</p>
+                  {errors[i] && (
+                    <p className="text-[10px] text-red-600 dark:text-red-400 mt-1 flex items-center gap-1">
+                      <AlertCircle size={10} /> {errors[i]}
+                    </p>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+                    className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                    title="Remove Band"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {draft.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-slate-500 italic">
+                  No bands defined. All contracts will require the default corporate sign-offs.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,29 +1,43 @@
 
 import React from 'react';
-import { User, UserRole } from '../types';
-import { LayoutDashboard, FilePlus, Settings, Moon, Sun, BookOpen } from 'lucide-react';
+import { User, InAppNotification, Permission, RolePermissionMatrix } from '../types';
+import { hasPermission } from '../utils/permissions';
+import { NotificationCenter } from './NotificationCenter';
+import { LayoutDashboard, FilePlus, Settings, Moon, Sun, BookOpen, ScrollText, Upload, LogOut } from 'lucide-react';
 
 interface LayoutProps {
   user: User;
+  rolePermissions: RolePermissionMatrix;
   currentView: string;
   onChangeView: (view: string) => void;
-  onChangeUser: (userId: string) => void;
+  onChangeUser?: (userId: string) => void; // Demo user switcher, dev mode only
+  onLogout: () => void;
   children: React.ReactNode;
   allUsers: User[];
   darkMode: boolean;
   toggleDarkMode: () => void;
+  notifications: InAppNotification[];
+  onOpenNotification: (notification: InAppNotification) => void;
+  onMarkAllNotificationsRead: () => void;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ 
   user, 
+  rolePermissions,
   currentView, 
   onChangeView, 
   onChangeUser, 
+  onLogout,
   children, 
   allUsers,
   darkMode,
-  toggleDarkMode
+  toggleDarkMode,
+  notifications,
+  onOpenNotification,
+  onMarkAllNotificationsRead
 }) => {
+  const can = (permission: Permission) => hasPermission(user, permission, rolePermissions);
+
   return (
     <div className={`min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200 flex flex-col`}>
       {/* 1. Primary Header - Custom Brand Color #283C50 */}
@@ -42,6 +56,13 @@ export const Layout: React.FC<LayoutProps> = ({
 
         {/* Right Actions */}
         <div className="flex items-center gap-5">
+           {/* Notification Inbox */}
+           <NotificationCenter 
+             notifications={notifications} 
+             onOpen={onOpenNotification} 
+             onMarkAllRead={onMarkAllNotificationsRead} 
+           />
+
            {/* Dark Mode Toggle */}
            <button 
             onClick={toggleDarkMode}
@@ -59,23 +80,38 @@ export const Layout: React.FC<LayoutProps> = ({
                <p className="text-sm font-bold text-white tracking-wide">{user.name}</p>
                 <div className="flex items-center justify-end gap-1.5 mt-0.5">
                   <span className={`w-2 h-2 rounded-full ${user.isActive ? 'bg-[#4ade80]' : 'bg-red-500'}`}></span>
-                  <select 
-                    className="bg-transparent text-[11px] text-slate-300 border-none p-0 cursor-pointer focus:ring-0 text-right appearance-none hover:text-white uppercase font-medium"
-                    value={user.id}
-                    onChange={(e) => onChangeUser(e.target.value)}
-                    title="Switch User Role (Demo)"
-                  >
-                    {allUsers.map(u => (
-                      <option key={u.id} value={u.id} className="bg-slate-800 text-slate-200">
-                        {u.role} - {u.entity}
-                      </option>
-                    ))}
-                  </select>
+                  {onChangeUser ? (
+                    <select 
+                      className="bg-transparent text-[11px] text-slate-300 border-none p-0 cursor-pointer focus:ring-0 text-right appearance-none hover:text-white uppercase font-medium"
+                      value={user.id}
+                      onChange={(e) => onChangeUser(e.target.value)}
+                      title="Switch User Role (Demo)"
+                    >
+                      {allUsers.map(u => (
+                        <option key={u.id} value={u.id} className="bg-slate-800 text-slate-200">
+                          {u.role} - {u.entity}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-[11px] text-slate-300 uppercase font-medium">{user.role} - {user.entity}</span>
+                  )}
                 </div>
              </div>
-             <div className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white text-base font-bold shadow-inner border border-white/10">
+             <button
+               onClick={() => onChangeView('profile')}
+               className={`w-10 h-10 rounded-full flex items-center justify-center text-white text-base font-bold shadow-inner border transition-colors ${currentView === 'profile' ? 'bg-white/25 border-white/40' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}
+               title="My profile and approval delegation"
+             >
                 {user.name.charAt(0)}
-             </div>
+             </button>
+             <button
+               onClick={onLogout}
+               className="p-2 rounded-full hover:bg-white/10 text-slate-300 hover:text-white transition-colors"
+               title="Sign out"
+             >
+               <LogOut size={18} />
+             </button>
           </div>
         </div>
       </header>
@@ -89,7 +125,7 @@ export const Layout: React.FC<LayoutProps> = ({
             active={currentView === 'dashboard'} 
             onClick={() => onChangeView('dashboard')} 
           />
-          {user.role === UserRole.SCM && (
+          {can(Permission.CONTRACT_CREATE) && (
              <NavItem 
                icon={<FilePlus size={18} />} 
                label="New Submission" 
@@ -97,7 +133,23 @@ export const Layout: React.FC<LayoutProps> = ({
                onClick={() => onChangeView('new')} 
              />
           )}
-          {user.role === UserRole.ADMIN && (
+          {can(Permission.CONTRACT_IMPORT) && (
+             <NavItem 
+               icon={<Upload size={18} />} 
+               label="Import" 
+               active={currentView === 'import'} 
+               onClick={() => onChangeView('import')} 
+             />
+          )}
+          {can(Permission.AUDIT_VIEW) && (
+            <NavItem 
+              icon={<ScrollText size={18} />} 
+              label="Audit Log" 
+              active={currentView === 'audit'} 
+              onClick={() => onChangeView('audit')} 
+            />
+          )}
+          {(can(Permission.ADMIN_USERS) || can(Permission.ADMIN_SETTINGS)) && (
              <NavItem 
                icon={<Settings size={18} />} 
                label="Admin Settings" 
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { LogIn, KeyRound, Loader2, AlertCircle } from 'lucide-react';
+
+interface LoginScreenProps {
+  onPasswordLogin: (username: string, password: string) => Promise<void>;
+  onSsoLogin?: () => Promise<void>; // Shown only when an identity provider is configured
+  error?: string | null;
+}
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onPasswordLogin, onSsoLogin, error }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password) return;
+    run(() => onPasswordLogin(username, password));
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex flex-col">
+      <header className="bg-[#283C50] text-white px-6 py-3 flex items-center gap-4 border-b border-[#1f3041] shadow-sm">
+        <img
+          src="https://www.trident-energy.com/app/themes/trident-energy/dist/images/favicon.png?id=2e0b14e50770eab630923c46b052a708"
+          alt="Trident Energy Contract Guard"
+          className="h-12 w-auto object-contain"
+        />
+        <div className="h-8 w-px bg-white/20"></div>
+        <h1 className="text-xl font-semibold tracking-tight text-white/90">High Risk Contracts Review</h1>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-6">
+        <div className="w-full max-w-sm bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 p-8">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Sign in</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">Use your Trident Energy account to continue.</p>
+
+          {error && (
+            <div className="mb-4 flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {onSsoLogin && (
+            <>
+              <button
+                type="button"
+                onClick={() => run(onSsoLogin)}
+                disabled={busy}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-[#283C50] text-white hover:bg-[#1f3041] disabled:opacity-50 text-sm font-medium shadow-sm"
+              >
+                <KeyRound size={16} /> Sign in with SSO
+              </button>
+              <div className="flex items-center gap-3 my-5 text-xs text-slate-400 uppercase">
+                <div className="flex-1 h-px bg-slate-200 dark:bg-slate-700"></div>
+                or
+                <div className="flex-1 h-px bg-slate-200 dark:bg-slate-700"></div>
+              </div>
+            </>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="login-username" className="block text-xs font-semibold text-slate-600 dark:text-slate-300 mb-1">Email</label>
+              <input
+                id="login-username"
+                type="email"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClass}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label htmlFor="login-password" className="block text-xs font-semibold text-slate-600 dark:text-slate-300 mb-1">Password</label>
+              <input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={busy || !username || !password}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm font-medium shadow-sm"
+            >
+              {busy ? <Loader2 size={16} className="animate-spin" /> : <LogIn size={16} />} Sign in
+            </button>
+          </form>
+        </div>
+      </main>
+    </div>
+  );
+};
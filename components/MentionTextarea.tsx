@@ -0,0 +1,110 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { User } from '../types';
+import { getMentionQuery, findMentionCandidates, insertMention, MentionQuery } from '../utils/commentThreads';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  users: User[];
+  placeholder?: string;
+  className?: string;
+  rows?: number;
+}
+
+// Textarea with "@name" autocomplete. Enter submits unless the suggestion list is open.
+export const MentionTextarea: React.FC<MentionTextareaProps> = ({ value, onChange, onSubmit, users, placeholder, className, rows = 2 }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const pendingCaret = useRef<number | null>(null);
+
+  const candidates = mention ? findMentionCandidates(users, mention.query) : [];
+  const isOpen = candidates.length > 0;
+
+  // Restore the caret after a mention is inserted
+  useEffect(() => {
+    if (pendingCaret.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const selectCandidate = (user: User) => {
+    if (!mention || !textareaRef.current) return;
+    const result = insertMention(value, mention, textareaRef.current.selectionStart, user);
+    pendingCaret.current = result.caret;
+    setMention(null);
+    onChange(result.text);
+    textareaRef.current.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((highlighted + step + candidates.length) % candidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectCandidate(candidates[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      {isOpen && (
+        <ul className="absolute bottom-full left-0 mb-2 w-64 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg shadow-xl overflow-hidden z-20">
+          {candidates.map((u, i) => (
+            <li key={u.id}>
+              <button
+                type="button"
+                onMouseDown={e => { e.preventDefault(); selectCandidate(u); }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`w-full text-left px-3 py-2 text-sm flex items-center gap-2 ${i === highlighted ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}
+              >
+                {u.avatar && <img src={u.avatar} alt="" className="w-6 h-6 rounded-full" />}
+                <span className="flex-1 min-w-0">
+                  <span className="block font-medium text-slate-800 dark:text-white truncate">{u.name}</span>
+                  <span className="block text-[10px] text-slate-500 dark:text-slate-400 truncate">{u.role}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        ref={textareaRef}
+        className={className}
+        rows={rows}
+        placeholder={placeholder}
+        value={value}
+        onChange={e => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={e => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+      />
+    </div>
+  );
+};
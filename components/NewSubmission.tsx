@@ -1,15 +1,26 @@
 
 import React, { useState, useEffect } from 'react';
-import { User, ContractData, ContractStatus, ContractDocument } from '../types';
+import { User, ContractData, ContractStatus, ContractDocument, DoaRule, Entity, RiskRuleSet, NotificationEvent, ApprovalDelegation } from '../types';
 import { evaluateRisk } from '../utils/riskLogic';
-import { formatEmailBody, triggerEmailNotification } from '../utils/notificationUtils';
+import { getRuleSet, getLatestRuleSet } from '../utils/riskRulesEngine';
+import { calculateRiskScore, getRiskBand } from '../utils/riskScore';
+import { deriveApprovalRoute } from '../utils/approvalWorkflow';
+import { notifyUsers } from '../utils/notificationUtils';
+import { resolveRecipients } from '../utils/notificationRecipients';
+import { getOpenAnchoredComments } from '../utils/commentAnchors';
+import { appendAuditEntry } from '../utils/auditChain';
 import { refineContractText } from '../services/geminiService';
 import { EXCHANGE_RATES } from '../constants';
+import { RiskBadge } from './RiskBadge';
 import { Save, ArrowRight, ArrowLeft, AlertTriangle, CheckCircle, Upload, File as FileIcon, X, Lock, FileEdit, Sparkles, Loader2 } from 'lucide-react';
 
 interface NewSubmissionProps {
   user: User;
+  users: User[]; // The user directory
+  delegations: ApprovalDelegation[];
   initialData?: ContractData | null;
+  doaMatrix: DoaRule[];
+  riskRuleSets: RiskRuleSet[];
   onSubmit: (contract: ContractData) => void;
   onCancel: () => void;
 }
@@ -23,7 +34,7 @@ const TABS = [
   'Review'
 ];
 
-export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData, onSubmit, onCancel }) => {
+export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, users, delegations, initialData, doaMatrix, riskRuleSets, onSubmit, onCancel }) => {
   const [step, setStep] = useState(0);
   const [formData, setFormData] = useState<Partial<ContractData>>({
     entity: user.entity,
@@ -54,6 +65,9 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
     project: ''
   });
 
+  // Existing contracts are re-assessed under the rule set they were first assessed with
+  const ruleSet = initialData ? getRuleSet(riskRuleSets, initialData.riskRuleSetVersion) : getLatestRuleSet(riskRuleSets);
+
   const [manualTriggerIds, setManualTriggerIds] = useState<Set<string>>(new Set());
   const [amountDisplay, setAmountDisplay] = useState('');
   
@@ -72,11 +86,12 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
         exchangeRate: initialData.exchangeRate || 1.0
       }); 
       
-      // Re-hydrate manual triggers
+      // Re-hydrate manual triggers (automatic ones are re-evaluated below)
       const triggers = initialData.detectedTriggers || [];
+      const manualRuleIds = ruleSet.rules.filter(r => r.mode === 'manual').map(r => r.id);
       const manualIds = new Set<string>();
       triggers.forEach(t => {
-        if (t.triggered) manualIds.add(t.id);
+        if (t.triggered && manualRuleIds.includes(t.id)) manualIds.add(t.id);
       });
       setManualTriggerIds(manualIds);
 
@@ -86,11 +101,11 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
     }
   }, [initialData]);
 
-  const [riskAssessment, setRiskAssessment] = useState(evaluateRisk(formData));
+  const [riskAssessment, setRiskAssessment] = useState(evaluateRisk(formData, doaMatrix, ruleSet));
 
   // Update risk assessment whenever form data or manual triggers change
   useEffect(() => {
-    const autoAssessment = evaluateRisk(formData);
+    const autoAssessment = evaluateRisk(formData, doaMatrix, ruleSet);
     
     // Merge auto triggers with manual selections
     const finalTriggers = autoAssessment.triggers.map(t => {
@@ -103,8 +118,18 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
     });
 
     const isHighRisk = finalTriggers.some(t => t.triggered);
-    setRiskAssessment({ isHighRisk, triggers: finalTriggers });
-  }, [formData, manualTriggerIds]);
+    const score = calculateRiskScore(finalTriggers);
+    setRiskAssessment({ isHighRisk, triggers: finalTriggers, score, band: getRiskBand(score) });
+  }, [formData, manualTriggerIds, doaMatrix, ruleSet]);
+
+  // Approval chain implied by the DoA matrix and current risk profile
+  const approvalRoute = deriveApprovalRoute({
+    entity: formData.entity as Entity,
+    contractType: formData.contractType || 'OPEX',
+    amount: formData.amount || 0,
+    isHighRisk: riskAssessment.isHighRisk,
+    detectedTriggers: riskAssessment.triggers
+  }, doaMatrix);
 
   const handleChange = (field: keyof ContractData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -217,15 +242,20 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
 
   const handleSubmit = (status: ContractStatus) => {
     const isEdit = !!initialData;
+
+    // Reviewers' comments on specific fields or pages must be cleared before resubmitting
+    const openAnchored = getOpenAnchoredComments(formData);
+    if (status === ContractStatus.SUBMITTED && openAnchored.length > 0) {
+      alert(`Resolve the ${openAnchored.length} open comment(s) on specific fields or pages in the contract's Comments tab before resubmitting.`);
+      return;
+    }
     
     // If editing, preserve ID and Audit Trail. If new, generate.
-    let newAuditEntry = {
-      id: Math.random().toString(),
-      timestamp: Date.now(),
+    const auditTrail = appendAuditEntry(isEdit ? formData.auditTrail : [], {
       userId: user.id,
       userName: user.name,
       action: status === ContractStatus.DRAFT ? 'Saved as Draft' : (isEdit ? 'Resubmitted Contract' : 'Submitted Contract')
-    };
+    });
 
     const finalData = {
       ...formData,
@@ -234,28 +264,21 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
       status: status,
       detectedTriggers: riskAssessment.triggers,
       isHighRisk: riskAssessment.isHighRisk,
-      auditTrail: isEdit ? [...(formData.auditTrail || []), newAuditEntry] : [newAuditEntry],
+      riskScore: riskAssessment.score,
+      riskBand: riskAssessment.band,
+      riskRuleSetVersion: ruleSet.version,
+      approvalRoute,
+      auditTrail,
       comments: formData.comments || [],
       reviews: formData.reviews || [],
-      corporateApprovals: formData.corporateApprovals || {}
+      // A (re)submission restarts the parallel corporate sign-off
+      corporateApprovals: status === ContractStatus.SUBMITTED ? {} : (formData.corporateApprovals || {})
     } as ContractData;
     
     // NOTIFY: If submitted (not draft), trigger email
     if (status === ContractStatus.SUBMITTED) {
-      const emailBody = formatEmailBody(finalData);
-      const recipient = "Corporate Review Team";
-      const subject = `NEW SUBMISSION: Review Required - ${finalData.contractorName}`;
-      
-      triggerEmailNotification(recipient, subject, emailBody);
-      
-      finalData.auditTrail.push({
-        id: Math.random().toString(),
-        timestamp: Date.now() + 1,
-        userId: 'system',
-        userName: 'System',
-        action: 'Email Notification Sent',
-        details: `Sent to ${recipient}: ${subject}`
-      });
+      const recipients = resolveRecipients(NotificationEvent.SUBMITTED, finalData, users, { delegations });
+      notifyUsers(NotificationEvent.SUBMITTED, recipients, { contract: finalData, actor: user });
     }
 
     onSubmit(finalData);
@@ -271,9 +294,6 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
     return acc;
   }, {} as Record<string, typeof riskAssessment.triggers>);
 
-  // Define IDs that are system controlled (auto-detected) so we can disable them or style them differently
-  const SYSTEM_TRIGGER_IDS = ['t1', 't2', 't3', 't4', 't5'];
-
   return (
     <div className="max-w-[96%] mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-lg overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col h-[calc(100vh-140px)]">
       
@@ -610,7 +630,8 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
                     <h5 className="font-bold text-xs uppercase text-slate-500 dark:text-slate-400 mb-3 border-b border-slate-200 dark:border-slate-600 pb-2">{category}</h5>
                     <div className="space-y-3">
                       {groupedTriggers[category].map(t => {
-                         const isSystem = SYSTEM_TRIGGER_IDS.includes(t.id);
+                         // System controlled (auto-detected) triggers are locked in the checklist
+                         const isSystem = !!t.isAuto;
                          return (
                            <label key={t.id} className={`flex items-start gap-3 p-2 rounded transition-colors ${t.triggered ? 'bg-orange-50 dark:bg-orange-900/10' : ''} ${isSystem ? 'cursor-not-allowed opacity-80' : 'cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800'}`}>
                               <div className="relative flex items-center h-5 mt-0.5">
@@ -692,14 +713,17 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
 
         {step === 5 && (
           <div className="space-y-8 animate-fade-in">
-            <h3 className="text-xl font-semibold text-slate-800 dark:text-white border-b border-slate-200 dark:border-slate-700 pb-4">Pre-Submission Check</h3>
+            <h3 className="text-xl font-semibold text-slate-800 dark:text-white border-b border-slate-200 dark:border-slate-700 pb-4 flex items-center justify-between">
+              Pre-Submission Check
+              <RiskBadge band={riskAssessment.band} score={riskAssessment.score} size="md" />
+            </h3>
             
             {riskAssessment.isHighRisk ? (
               <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 p-6 rounded-lg flex items-start gap-4">
                 <AlertTriangle className="text-orange-600 dark:text-orange-500 shrink-0 mt-1" size={28} />
                 <div>
                   <h4 className="font-bold text-orange-800 dark:text-orange-400 text-lg">High Risk Triggers Detected</h4>
-                  <p className="text-sm text-orange-700 dark:text-orange-300 mb-3">This contract will require CEO approval.</p>
+                  <p className="text-sm text-orange-700 dark:text-orange-300 mb-3">This contract will require CEO approval after corporate review.</p>
                   <ul className="list-disc pl-5 space-y-1 text-sm text-orange-700 dark:text-orange-300">
                     {riskAssessment.triggers.filter(t => t.triggered).map(t => (
                       <li key={t.id}>{t.description}</li>
@@ -713,6 +737,11 @@ export const NewSubmission: React.FC<NewSubmissionProps> = ({ user, initialData,
                 <div>
                   <h4 className="font-bold text-green-800 dark:text-green-400 text-lg">Standard Risk Profile</h4>
                   <p className="text-sm text-green-700 dark:text-green-300">No mandatory high-risk triggers detected.</p>
+                  <p className="text-sm text-green-700 dark:text-green-300 mt-1">
+                    {approvalRoute.stages.length > 1
+                      ? 'CEO approval is still required under the Delegation of Authority matrix.'
+                      : `Approval completes at corporate review (${approvalRoute.corporateRoles.join(', ')}).`}
+                  </p>
                 </div>
               </div>
             )}
@@ -0,0 +1,103 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { InAppNotification, NotificationEvent } from '../types';
+import { Bell, CheckCheck, MessageSquare, UserPlus, CheckCircle, XCircle, AlertCircle, FileText, AtSign, Timer, Siren } from 'lucide-react';
+
+interface NotificationCenterProps {
+  notifications: InAppNotification[];
+  onOpen: (notification: InAppNotification) => void;
+  onMarkAllRead: () => void;
+}
+
+const EVENT_ICONS: Record<InAppNotification['event'], React.ReactNode> = {
+  [NotificationEvent.SUBMITTED]: <FileText size={14} />,
+  [NotificationEvent.CHANGES_REQUESTED]: <AlertCircle size={14} />,
+  [NotificationEvent.REJECTED]: <XCircle size={14} />,
+  [NotificationEvent.APPROVED]: <CheckCircle size={14} />,
+  [NotificationEvent.ESCALATED_TO_CEO]: <AlertCircle size={14} />,
+  [NotificationEvent.REVIEWER_ADDED]: <UserPlus size={14} />,
+  [NotificationEvent.COMMENT_MENTION]: <AtSign size={14} />,
+  [NotificationEvent.SLA_REMINDER]: <Timer size={14} />,
+  [NotificationEvent.SLA_ESCALATION]: <Siren size={14} />,
+  'Comment Added': <MessageSquare size={14} />,
+};
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications, onOpen, onMarkAllRead }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+
+  // Close when clicking outside the panel
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-full hover:bg-white/10 text-slate-300 hover:text-white transition-colors"
+        title="Notifications"
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden text-slate-900 dark:text-white z-50">
+          <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800/50">
+            <h3 className="font-bold text-sm">Notifications</h3>
+            <button
+              onClick={onMarkAllRead}
+              disabled={unreadCount === 0}
+              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-40 disabled:no-underline"
+            >
+              <CheckCheck size={14} /> Mark all as read
+            </button>
+          </div>
+
+          <div className="max-h-[420px] overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+            {notifications.map(n => (
+              <button
+                key={n.id}
+                onClick={() => { onOpen(n); setIsOpen(false); }}
+                className={`w-full text-left px-4 py-3 flex items-start gap-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors ${n.readAt ? '' : 'bg-blue-50/60 dark:bg-blue-900/10'}`}
+              >
+                <span className={`mt-0.5 p-1.5 rounded-full shrink-0 ${n.readAt ? 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400' : 'bg-blue-100 text-blue-600 dark:bg-blue-900/40 dark:text-blue-300'}`}>
+                  {EVENT_ICONS[n.event]}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className={`block text-sm leading-snug ${n.readAt ? 'text-slate-600 dark:text-slate-300' : 'font-semibold text-slate-900 dark:text-white'}`}>
+                    {n.message}
+                  </span>
+                  <span className="block text-[10px] text-slate-400 mt-1">{n.event} · {formatAge(n.createdAt)}</span>
+                </span>
+                {!n.readAt && <span className="w-2 h-2 rounded-full bg-blue-500 mt-2 shrink-0"></span>}
+              </button>
+            ))}
+            {notifications.length === 0 && (
+              <p className="px-4 py-8 text-center text-sm text-slate-500 italic">You're all caught up.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
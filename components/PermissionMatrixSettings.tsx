@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { Permission, RolePermissionMatrix, UserRole } from '../types';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSION_DEFINITIONS } from '../constants';
+import { isLockedPermission, normalizeRolePermissions } from '../utils/permissions';
+import { KeyRound, Save, RotateCcw } from 'lucide-react';
+
+interface PermissionMatrixSettingsProps {
+  rolePermissions: RolePermissionMatrix;
+  onSave: (matrix: RolePermissionMatrix) => Promise<void>;
+}
+
+const ROLES = Object.values(UserRole);
+
+export const PermissionMatrixSettings: React.FC<PermissionMatrixSettingsProps> = ({ rolePermissions, onSave }) => {
+  const [draft, setDraft] = useState<RolePermissionMatrix>(rolePermissions);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the draft when the saved matrix changes
+  useEffect(() => {
+    setDraft(rolePermissions);
+  }, [rolePermissions]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rolePermissions);
+
+  const togglePermission = (role: UserRole, permission: Permission) => {
+    setDraft(prev => {
+      const granted = prev[role].includes(permission)
+        ? prev[role].filter(p => p !== permission)
+        : [...prev[role], permission];
+      return normalizeRolePermissions({ ...prev, [role]: granted });
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      console.error("Settings Store Error:", error);
+      alert("The permission matrix could not be saved. Please try again.");
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800/50">
+        <div className="flex items-center gap-2">
+          <KeyRound className="text-slate-400 dark:text-slate-500" size={20} />
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Role Permissions</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">What each role may do. Which contracts a user can see still depends on their entity and assignments.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setDraft(normalizeRolePermissions(DEFAULT_ROLE_PERMISSIONS))}
+            className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded hover:bg-white dark:hover:bg-slate-700 transition-colors"
+            title="Restore default permissions"
+          >
+            <RotateCcw size={14} /> Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+          >
+            <Save size={14} /> {isSaving ? 'Saving...' : 'Save Permissions'}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-4 py-3">Permission</th>
+              {ROLES.map(role => <th key={role} className="px-3 py-3 text-center whitespace-nowrap">{role}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {PERMISSION_DEFINITIONS.map(({ permission, label, description }) => (
+              <tr key={permission} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                <td className="px-4 py-3">
+                  <div className="text-sm font-medium text-slate-800 dark:text-slate-200">{label}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{description} <code className="text-[10px] text-slate-400">{permission}</code></div>
+                </td>
+                {ROLES.map(role => {
+                  const locked = isLockedPermission(role, permission);
+                  return (
+                    <td key={role} className="px-3 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={draft[role].includes(permission)}
+                        disabled={locked}
+                        onChange={() => togglePermission(role, permission)}
+                        title={locked ? 'Admins always keep access to settings' : `${role}: ${label}`}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ApprovalDelegation, User } from '../types';
+import { DelegationDraft } from '../utils/delegation';
+import { DelegationSettings } from './DelegationSettings';
+
+interface ProfileSettingsProps {
+  currentUser: User;
+  users: User[];
+  delegations: ApprovalDelegation[];
+  onCreateDelegation: (draft: DelegationDraft) => Promise<void>;
+  onRevokeDelegation: (delegation: ApprovalDelegation) => Promise<void>;
+}
+
+export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ currentUser, users, delegations, onCreateDelegation, onRevokeDelegation }) => (
+  <div className="animate-fade-in space-y-6">
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-white">My Profile</h2>
+      <p className="text-slate-500 dark:text-slate-400">Your account and out-of-office approval cover.</p>
+    </div>
+
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 flex items-center gap-4">
+      <div className="w-12 h-12 rounded-full bg-slate-200 dark:bg-slate-600 flex items-center justify-center text-slate-600 dark:text-slate-200 font-bold text-lg">
+        {currentUser.name.charAt(0)}
+      </div>
+      <div>
+        <p className="font-bold text-slate-900 dark:text-white">{currentUser.name}</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">{currentUser.email}</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{currentUser.role} · {currentUser.entity}</p>
+      </div>
+    </div>
+
+    <DelegationSettings
+      currentUser={currentUser}
+      users={users}
+      delegations={delegations}
+      delegatorId={currentUser.id}
+      onCreate={onCreateDelegation}
+      onRevoke={onRevokeDelegation}
+    />
+  </div>
+);
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ContractData, User } from '../types';
+import { REGISTER_EXPORT_COLUMNS, DEFAULT_REGISTER_EXPORT_COLUMN_IDS, buildRegisterExportRows, RegisterExportFormat } from '../utils/contractRegisterExport';
+import { createXlsx, XLSX_MIME_TYPE } from '../utils/xlsxWriter';
+import { toCsv, downloadFile, datedFilename } from '../utils/fileExport';
+import { Download, FileSpreadsheet, X } from 'lucide-react';
+
+interface RegisterExportDialogProps {
+  contracts: ContractData[]; // Already filtered and sorted as shown in the register
+  users: User[];
+  onClose: () => void;
+}
+
+export const RegisterExportDialog: React.FC<RegisterExportDialogProps> = ({ contracts, users, onClose }) => {
+  const [columnIds, setColumnIds] = useState<string[]>(DEFAULT_REGISTER_EXPORT_COLUMN_IDS);
+  const [format, setFormat] = useState<RegisterExportFormat>('xlsx');
+
+  const toggleColumn = (id: string) =>
+    setColumnIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+
+  const handleExport = () => {
+    const rows = buildRegisterExportRows(contracts, columnIds, users);
+    if (format === 'csv') {
+      // BOM so Excel opens the CSV as UTF-8
+      downloadFile(datedFilename('contract-register', 'csv'), '\ufeff' + toCsv(rows), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(datedFilename('contract-register', 'xlsx'), createXlsx('Contract Register', rows), XLSX_MIME_TYPE);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="font-bold text-lg text-slate-900 dark:text-white flex items-center gap-2">
+            <FileSpreadsheet size={20} className="text-green-600" /> Export Contract Register
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            Exports the <strong>{contracts.length}</strong> contract{contracts.length === 1 ? '' : 's'} matching the current filters, in the current sort order.
+          </p>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Columns</span>
+              <div className="flex gap-3 text-xs">
+                <button onClick={() => setColumnIds(REGISTER_EXPORT_COLUMNS.map(c => c.id))} className="text-blue-600 dark:text-blue-400 hover:underline">Select all</button>
+                <button onClick={() => setColumnIds(DEFAULT_REGISTER_EXPORT_COLUMN_IDS)} className="text-blue-600 dark:text-blue-400 hover:underline">Defaults</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {REGISTER_EXPORT_COLUMNS.map(column => (
+                <label key={column.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={columnIds.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                    className="rounded text-blue-600"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Format</span>
+            <div className="flex gap-4">
+              {(['xlsx', 'csv'] as RegisterExportFormat[]).map(f => (
+                <label key={f} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                  <input type="radio" name="register-export-format" checked={format === f} onChange={() => setFormat(f)} />
+                  {f === 'xlsx' ? 'Excel (.xlsx)' : 'CSV (.csv)'}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2 bg-slate-50 dark:bg-slate-900/50">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={columnIds.length === 0 || contracts.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm font-medium shadow-sm"
+          >
+            <Download size={16} /> Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,53 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ContractData, User, UserRole, ContractStatus, ContractDocument, Comment } from '../types';
+import { AuditLog, ContractData, ContractVersion, User, ContractStatus, ContractDocument, Comment, CommentAnchor, ApprovalStage, DoaRule, NotificationEvent, Permission, RolePermissionMatrix, ApprovalDelegation, SlaPolicy } from '../types';
 import { analyzeContractRisks, sendContractQuery, ChatMessage } from '../services/geminiService';
-import { MOCK_USERS } from '../constants';
-import { formatEmailBody, triggerEmailNotification } from '../utils/notificationUtils';
-import { CheckCircle, XCircle, FileText, Download, MessageSquare, Bot, AlertTriangle, Upload, Send, Clock, AlertCircle, Save, RotateCcw, X, ShieldCheck, Edit3, ArrowUpCircle, UserPlus, Users, Briefcase, Calendar, DollarSign, Building, ThumbsUp, Sparkles } from 'lucide-react';
+import { RiskBadge } from './RiskBadge';
+import { notifyUsers, pushInAppNotification } from '../utils/notificationUtils';
+import { resolveRecipients, resolveContractParticipants, filterContractViewers } from '../utils/notificationRecipients';
+import { getContractRiskBand, getContractRiskScore } from '../utils/riskScore';
+import { CommentReadMarkers, getUnreadComments, getReadUpTo } from '../utils/commentReadState';
+import { getCommentThreads, extractMentions, splitMentions } from '../utils/commentThreads';
+import { appendAuditEntry, verifyAuditTrail } from '../utils/auditChain';
+import { ANCHORABLE_FIELDS, describeAnchor, getFieldComments, getDocumentComments, getOpenAnchoredComments, canResolveComment } from '../utils/commentAnchors';
+import { MentionTextarea } from './MentionTextarea';
+import { CommentAnchorMarker } from './CommentAnchorMarker';
+import { VersionHistory } from './VersionHistory';
+import { SlaTimeline } from './SlaTimeline';
+import { createApprovalMemoPdf, approvalMemoFilename } from '../utils/approvalMemo';
+import { downloadFile } from '../utils/fileExport';
+import { hasPermission } from '../utils/permissions';
+import { hasCorporateApproval, recordCorporateApproval, getOutstandingCorporateApprovals, getCorporateQuorum, isCorporateQuorumMet, deriveApprovalRoute, getApprovalRoute, requiresCeoApproval, getApprovalAuthority, ESCALATED_TO_CEO_NOTE } from '../utils/approvalWorkflow';
+import { getActiveDelegators, getReviewAuthorityId, formatReviewerName } from '../utils/delegation';
+import { CheckCircle, XCircle, FileText, Download, MessageSquare, Bot, AlertTriangle, Upload, Send, Clock, AlertCircle, Save, RotateCcw, X, ShieldCheck, Edit3, ArrowUpCircle, UserPlus, Users, Briefcase, Calendar, DollarSign, Building, ThumbsUp, Sparkles, ArrowDown, CornerDownRight, Link2, MessageSquarePlus, ShieldAlert, Hash } from 'lucide-react';
 
 interface ReviewDetailProps {
   contract: ContractData;
   currentUser: User;
+  users: User[]; // The user directory
+  doaMatrix: DoaRule[];
+  rolePermissions: RolePermissionMatrix;
+  delegations: ApprovalDelegation[];
+  slaPolicy: SlaPolicy;
+  commentReadMarkers: CommentReadMarkers; // The current user's, by contract ID
   onUpdate: (updatedContract: ContractData) => void;
+  onMarkCommentsRead: (contractId: string, lastReadAt: number) => void;
   onClose: () => void;
   onEdit: () => void;
+  initialTab?: string; // e.g. opened from a notification
+  versions: ContractVersion[]; // Submitted versions, oldest first
+  archivedAuditLog: AuditLog[]; // Independently stored copy of the chained audit entries
 }
 
-const TABS = ['Overview', 'Scope & Eval', 'Legal & Risk', 'AI Chat', 'Documents', 'Comments', 'Approvals', 'Audit Trail'];
+const TABS = ['Overview', 'Scope & Eval', 'Legal & Risk', 'AI Chat', 'Documents', 'Comments', 'Approvals', 'Versions', 'Audit Trail'];
 
-export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUser, onUpdate, onClose, onEdit }) => {
-  const [activeTab, setActiveTab] = useState('Overview');
+export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUser, users, doaMatrix, rolePermissions, delegations, slaPolicy, commentReadMarkers, onUpdate, onMarkCommentsRead, onClose, onEdit, initialTab, versions, archivedAuditLog }) => {
+  const [activeTab, setActiveTab] = useState(initialTab || 'Overview');
   const [reviewComment, setReviewComment] = useState(''); // Justification for approval/rejection
+  const [actingForId, setActingForId] = useState<string | null>(null); // Delegator to decide on behalf of
   const [newComment, setNewComment] = useState(''); // Chat comment
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [composerAnchor, setComposerAnchor] = useState<CommentAnchor | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedAdHocUserId, setSelectedAdHocUserId] = useState('');
   
@@ -33,24 +61,30 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
   const chatBottomRef = useRef<HTMLDivElement>(null);
   
   const commentsEndRef = useRef<HTMLDivElement>(null);
+  const firstUnreadRef = useRef<HTMLDivElement>(null);
+  // Comments that were unread when the tab was opened; kept so the marker stays visible after marking read
+  const [unreadOnOpen, setUnreadOnOpen] = useState<{ firstId: string; count: number } | null>(null);
 
   // Define permissions
-  const isReviewer = [UserRole.CORPORATE_CFO, UserRole.CORPORATE_LEGAL, UserRole.CORPORATE_FUNCTION].includes(currentUser.role);
-  const isCEO = currentUser.role === UserRole.CEO;
+  const can = (permission: Permission) => hasPermission(currentUser, permission, rolePermissions);
+  const canRunAi = can(Permission.AI_RUN);
   const isSubmitter = contract.submitterId === currentUser.id;
-  const isAdHocReviewer = contract.adHocReviewers?.some(r => r.userId === currentUser.id);
-  const hasReviewedAlready = contract.reviews?.some(r => r.reviewerId === currentUser.id);
+  const outstandingCorporateApprovals = getOutstandingCorporateApprovals(contract);
+  const approvalRoute = getApprovalRoute(contract, doaMatrix);
 
-  // Can Add Reviewers: Submitter or Leads (CFO, Legal, Function, CEO)
-  const canAddReviewers = isSubmitter || isReviewer || isCEO;
+  // Only people who can open the contract may be @mentioned in its comments
+  const mentionableUsers = filterContractViewers(users.filter(u => u.isActive), contract, users, delegations);
 
-  // Can Approve:
-  // 1. Normal workflow (Submitted status + Reviewer role) OR (Pending CEO + CEO)
-  // 2. Ad Hoc reviewer who hasn't reviewed yet, regardless of status (as long as not Draft/Rejected/Approved final)
-  const isContractActive = contract.status === ContractStatus.SUBMITTED || contract.status === ContractStatus.PENDING_CEO || contract.status === ContractStatus.CHANGES_REQUESTED;
-  
-  const canApprove = (isContractActive && ((isReviewer && contract.status === ContractStatus.SUBMITTED) || (isCEO && contract.status === ContractStatus.PENDING_CEO))) ||
-                     (isContractActive && isAdHocReviewer && !hasReviewedAlready);
+  // Can Add Reviewers: the submitter, or anyone granted reviewer.add
+  const canAddReviewers = isSubmitter || can(Permission.REVIEWER_ADD);
+
+  // Can Approve: the user's own authority, or that of anyone currently delegating to them
+  // (utils/approvalWorkflow getApprovalAuthority). When several apply, the user picks one.
+  const approverOptions = [currentUser, ...getActiveDelegators(currentUser, delegations, users)]
+    .filter(u => getApprovalAuthority(u, contract, rolePermissions, currentUser).canApprove);
+  const actingFor = approverOptions.find(u => u.id === actingForId) ?? approverOptions[0] ?? currentUser;
+  const isDelegated = actingFor.id !== currentUser.id;
+  const { isAdHocReviewer, isRequiredSignOff, isFinalApprover, canApprove } = getApprovalAuthority(actingFor, contract, rolePermissions, currentUser);
 
   // Sync local AI state if contract changes externally
   useEffect(() => {
@@ -59,12 +93,26 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
     }
   }, [contract.aiRiskAnalysis]);
 
-  // Auto-scroll to bottom of comments
+  // Follow links from the notification inbox
+  useEffect(() => {
+    if (initialTab) setActiveTab(initialTab);
+  }, [initialTab, contract.id]);
+
+  // Opening the Comments tab marks everything as read for the current user
   useEffect(() => {
-    if (activeTab === 'Comments' && commentsEndRef.current) {
-      commentsEndRef.current.scrollIntoView({ behavior: 'smooth' });
+    if (activeTab !== 'Comments') return;
+    const unread = getUnreadComments(contract, currentUser.id, commentReadMarkers);
+    setUnreadOnOpen(unread.length > 0 ? { firstId: unread[0].id, count: unread.length } : null);
+    const readUpTo = getReadUpTo(contract, currentUser.id, commentReadMarkers);
+    if (readUpTo !== null) onMarkCommentsRead(contract.id, readUpTo);
+  }, [activeTab, contract.id, currentUser.id]);
+
+  // Auto-scroll to the first unread comment, or to the bottom when all are read
+  useEffect(() => {
+    if (activeTab === 'Comments') {
+      (firstUnreadRef.current || commentsEndRef.current)?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [activeTab, contract.comments]);
+  }, [activeTab, contract.comments, unreadOnOpen]);
 
   // Auto-scroll chat
   useEffect(() => {
@@ -128,12 +176,11 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
     const timestamp = Date.now();
 
     // 1. Add to Audit Trail
-    updated.auditTrail.push({
-      id: Math.random().toString(),
+    updated.auditTrail = appendAuditEntry(updated.auditTrail, {
       timestamp,
       userId: currentUser.id,
       userName: currentUser.name,
-      action: decision,
+      action: isDelegated ? `${decision} (on behalf of ${actingFor.name})` : decision,
       details: reviewComment
     });
 
@@ -143,11 +190,12 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
       id: Math.random().toString(),
       reviewerId: currentUser.id,
       reviewerName: currentUser.name,
-      role: currentUser.role,
+      role: actingFor.role,
       decision,
       comment: reviewComment,
       timestamp,
-      isAdHoc: isAdHocReviewer
+      isAdHoc: isAdHocReviewer,
+      ...(isDelegated ? { onBehalfOfId: actingFor.id, onBehalfOfName: actingFor.name } : {})
     });
 
     // 3. Update Status
@@ -161,12 +209,23 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
       // It's an approval
       if (isAdHocReviewer) {
         // Just record, no status change
-      } else if (isReviewer) {
-          if (currentUser.role === UserRole.CORPORATE_CFO) updated.corporateApprovals.cfo = true;
-          if (currentUser.role === UserRole.CORPORATE_LEGAL) updated.corporateApprovals.legal = true;
-          if (currentUser.role === UserRole.CORPORATE_FUNCTION) updated.corporateApprovals.functionHead = true;
-          newStatus = ContractStatus.PENDING_CEO; 
-      } else if (isCEO) {
+      } else if (isRequiredSignOff) {
+          // Parallel corporate stage: only advance once the configured quorum has signed off
+          updated.corporateApprovals = recordCorporateApproval(updated.corporateApprovals || {}, actingFor.role);
+          if (isCorporateQuorumMet(updated)) {
+            // Risk-based routing: low-risk contracts complete here, high-risk ones escalate
+            const escalate = requiresCeoApproval(updated);
+            newStatus = escalate ? ContractStatus.PENDING_CEO : ContractStatus.APPROVED;
+            updated.auditTrail = appendAuditEntry(updated.auditTrail, {
+              timestamp,
+              userId: 'system',
+              userName: 'System',
+              action: 'Corporate Review Complete',
+              details: `Corporate quorum reached (${getCorporateQuorum(updated)} of ${approvalRoute.corporateRoles.length} sign-offs). ` +
+                (escalate ? ESCALATED_TO_CEO_NOTE : 'No CEO approval required for this risk profile.')
+            });
+          }
+      } else if (isFinalApprover) {
           newStatus = ContractStatus.APPROVED;
       }
     }
@@ -174,46 +233,23 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
     updated.status = newStatus;
 
     // 4. Handle Email Notifications based on Status Change
-    let recipientName = '';
-    let emailSubject = '';
-    let emailSent = false;
-
-    // Find submitter name
-    const submitter = MOCK_USERS.find(u => u.id === updated.submitterId);
-    const submitterName = submitter ? submitter.name : 'Contract Owner';
+    let event: NotificationEvent | null = null;
 
     if (newStatus === ContractStatus.REJECTED) {
-      recipientName = submitterName;
-      emailSubject = `ACTION REQUIRED: Contract Rejected - ${updated.contractorName}`;
-      emailSent = true;
+      event = NotificationEvent.REJECTED;
     } else if (newStatus === ContractStatus.CHANGES_REQUESTED) {
-      recipientName = submitterName;
-      emailSubject = `ACTION REQUIRED: Changes Requested - ${updated.contractorName}`;
-      emailSent = true;
+      event = NotificationEvent.CHANGES_REQUESTED;
     } else if (newStatus === ContractStatus.APPROVED) {
-       recipientName = submitterName;
-       emailSubject = `COMPLETED: Contract Approved - ${updated.contractorName}`;
-       emailSent = true;
+      event = NotificationEvent.APPROVED;
     } else if (newStatus === ContractStatus.PENDING_CEO && contract.status !== ContractStatus.PENDING_CEO) {
-       // Just moved to CEO stage
-       recipientName = 'Chief CEO';
-       emailSubject = `APPROVAL REQUIRED: High Value Contract - ${updated.contractorName}`;
-       emailSent = true;
+      // Just moved to CEO stage
+      event = NotificationEvent.ESCALATED_TO_CEO;
     }
 
-    if (emailSent) {
-      const emailBody = formatEmailBody(updated);
-      triggerEmailNotification(recipientName, emailSubject, emailBody);
-      
-      // Add email record to audit trail
-      updated.auditTrail.push({
-        id: Math.random().toString(),
-        timestamp: Date.now() + 1, // Slight offset
-        userId: 'system',
-        userName: 'System',
-        action: 'Email Notification Sent',
-        details: `Sent to ${recipientName}: ${emailSubject}`
-      });
+    // Delivery status is added to the audit trail once the outbox has sent it
+    if (event) {
+      const review = updated.reviews[updated.reviews.length - 1];
+      notifyUsers(event, resolveRecipients(event, updated, users, { delegations }), { contract: updated, actor: currentUser, review });
     }
 
     onUpdate(updated);
@@ -223,7 +259,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
 
   const handleAddReviewer = () => {
     if (!selectedAdHocUserId) return;
-    const userToAdd = MOCK_USERS.find(u => u.id === selectedAdHocUserId);
+    const userToAdd = users.find(u => u.id === selectedAdHocUserId);
     if (!userToAdd) return;
 
     const updated = { ...contract };
@@ -240,9 +276,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
       addedAt: Date.now()
     });
 
-    updated.auditTrail.push({
-      id: Math.random().toString(),
-      timestamp: Date.now(),
+    updated.auditTrail = appendAuditEntry(updated.auditTrail, {
       userId: currentUser.id,
       userName: currentUser.name,
       action: 'Added Reviewer',
@@ -250,42 +284,29 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
     });
 
     // Notify the added reviewer
-    const emailBody = formatEmailBody(updated);
-    triggerEmailNotification(userToAdd.name, `ASSIGNMENT: You have been added as a Reviewer - ${updated.contractorName}`, emailBody);
-     updated.auditTrail.push({
-        id: Math.random().toString(),
-        timestamp: Date.now() + 1, 
-        userId: 'system',
-        userName: 'System',
-        action: 'Email Notification Sent',
-        details: `Sent to ${userToAdd.name}`
-      });
+    const recipients = resolveRecipients(NotificationEvent.REVIEWER_ADDED, updated, users, { userIds: [userToAdd.id], delegations });
+    notifyUsers(NotificationEvent.REVIEWER_ADDED, recipients, { contract: updated, actor: currentUser });
 
     onUpdate(updated);
     setSelectedAdHocUserId('');
   };
 
   const handleSubmitDraft = () => {
-    const updated = { ...contract, status: ContractStatus.SUBMITTED };
-    updated.auditTrail.push({
-      id: Math.random().toString(),
-      timestamp: Date.now(),
+    const openAnchored = getOpenAnchoredComments(contract);
+    if (openAnchored.length > 0) {
+      alert(`Resolve the ${openAnchored.length} open comment(s) on specific fields or pages before submitting.`);
+      setActiveTab('Comments');
+      return;
+    }
+    const updated = { ...contract, status: ContractStatus.SUBMITTED, approvalRoute: deriveApprovalRoute(contract, doaMatrix) };
+    updated.auditTrail = appendAuditEntry(updated.auditTrail, {
       userId: currentUser.id,
       userName: currentUser.name,
       action: 'Submitted Contract',
     });
     
     // Notify Approvers
-    const emailBody = formatEmailBody(updated);
-    triggerEmailNotification('Corporate Review Team', `NEW SUBMISSION: Review Required - ${updated.contractorName}`, emailBody);
-    updated.auditTrail.push({
-        id: Math.random().toString(),
-        timestamp: Date.now() + 1, 
-        userId: 'system',
-        userName: 'System',
-        action: 'Email Notification Sent',
-        details: `Sent to Corporate Review Team`
-    });
+    notifyUsers(NotificationEvent.SUBMITTED, resolveRecipients(NotificationEvent.SUBMITTED, updated, users, { delegations }), { contract: updated, actor: currentUser });
 
     onUpdate(updated);
   };
@@ -294,6 +315,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
     if (!newComment.trim()) return;
 
     const updated = { ...contract };
+    const mentionIds = extractMentions(newComment, mentionableUsers).filter(id => id !== currentUser.id);
     const comment: Comment = {
       id: Math.random().toString(),
       userId: currentUser.id,
@@ -301,24 +323,79 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
       role: currentUser.role,
       text: newComment,
       timestamp: Date.now(),
-      likes: []
+      likes: [],
+      // Replies to a reply join the same thread
+      parentId: replyTo ? (replyTo.parentId || replyTo.id) : undefined,
+      mentions: mentionIds.length > 0 ? mentionIds : undefined,
+      anchor: replyTo ? undefined : composerAnchor || undefined
     };
     
     updated.comments = [...(updated.comments || []), comment];
-    updated.hasUnreadComments = true;
+    // Posting counts as having read the thread up to this point
+    onMarkCommentsRead(contract.id, comment.timestamp);
+    setUnreadOnOpen(null);
     
-    updated.auditTrail = [...updated.auditTrail, {
-      id: Math.random().toString(),
-      timestamp: Date.now(),
+    updated.auditTrail = appendAuditEntry(updated.auditTrail, {
       userId: currentUser.id,
       userName: currentUser.name,
-      action: 'Added Comment',
-    }];
+      action: comment.parentId ? 'Replied to Comment' : 'Added Comment',
+      details: [
+        comment.anchor ? `On: ${describeAnchor(comment.anchor, updated)}` : '',
+        mentionIds.length > 0 ? `Mentioned: ${users.filter(u => mentionIds.includes(u.id)).map(u => u.name).join(', ')}` : '',
+      ].filter(Boolean).join('. ') || undefined
+    });
+
+    // Mentioned users are emailed; everyone else involved only gets an in-app notification
+    if (mentionIds.length > 0) {
+      notifyUsers(NotificationEvent.COMMENT_MENTION, resolveRecipients(NotificationEvent.COMMENT_MENTION, updated, users, { userIds: mentionIds, delegations }), { contract: updated, actor: currentUser, commentText: comment.text });
+    }
+    pushInAppNotification(resolveContractParticipants(updated, users).filter(u => !mentionIds.includes(u.id)), 'Comment Added', updated, currentUser);
 
     onUpdate(updated);
     setNewComment('');
+    setReplyTo(null);
+    setComposerAnchor(null);
   };
 
+  const handleToggleResolved = (comment: Comment) => {
+    const resolving = !comment.resolvedAt;
+    const updated = {
+      ...contract,
+      comments: contract.comments.map(c => c.id === comment.id
+        ? { ...c, resolvedAt: resolving ? Date.now() : undefined, resolvedBy: resolving ? currentUser.name : undefined }
+        : c),
+      auditTrail: appendAuditEntry(contract.auditTrail, {
+        userId: currentUser.id,
+        userName: currentUser.name,
+        action: resolving ? 'Resolved Comment' : 'Reopened Comment',
+        details: comment.anchor ? `On: ${describeAnchor(comment.anchor, contract)}` : undefined
+      })
+    };
+    onUpdate(updated);
+  };
+
+  // Opens the Comments tab with the composer attached to a field or document page
+  const startAnchoredComment = (anchor: CommentAnchor) => {
+    setReplyTo(null);
+    setComposerAnchor(anchor);
+    setActiveTab('Comments');
+  };
+
+  const startReply = (comment: Comment) => {
+    setComposerAnchor(null);
+    setReplyTo(comment);
+    setActiveTab('Comments');
+  };
+
+  const fieldMarker = (field: keyof ContractData) => (
+    <CommentAnchorMarker 
+      label={ANCHORABLE_FIELDS[field] || String(field)}
+      comments={getFieldComments(contract, field).filter(c => !c.parentId)}
+      onAddComment={() => startAnchoredComment({ type: 'field', field })}
+      onReply={startReply}
+    />
+  );
+
   const handleLikeComment = (commentId: string) => {
     const updated = { ...contract };
     const commentIndex = updated.comments.findIndex(c => c.id === commentId);
@@ -339,7 +416,99 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
     onUpdate(updated);
   };
 
+  const renderComment = (c: Comment) => {
+    const isMe = c.userId === currentUser.id;
+    const likeCount = c.likes?.length || 0;
+    const isLikedByMe = c.likes?.includes(currentUser.id);
+    const isFirstUnread = unreadOnOpen?.firstId === c.id;
+
+    return (
+      <React.Fragment key={c.id}>
+        {isFirstUnread && (
+          <div ref={firstUnreadRef} className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider text-blue-600 dark:text-blue-400">
+            <span className="flex-1 h-px bg-blue-200 dark:bg-blue-800"></span>
+            New
+            <span className="flex-1 h-px bg-blue-200 dark:bg-blue-800"></span>
+          </div>
+        )}
+        <div className={`flex ${isMe ? 'justify-end' : 'justify-start'}`}>
+          <div className={`flex flex-col ${isMe ? 'items-end' : 'items-start'} max-w-[80%]`}>
+            <div className="flex items-center gap-2 mb-1 px-1">
+              <span className="font-bold text-xs text-slate-600 dark:text-slate-400">{c.userName}</span>
+              <span className="text-[10px] text-slate-400">{new Date(c.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+              <button 
+                onClick={() => { setComposerAnchor(null); setReplyTo(c); }}
+                className="text-[10px] font-semibold text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center gap-0.5"
+              >
+                <CornerDownRight size={10} /> Reply
+              </button>
+            </div>
+            {c.anchor && (
+              <div className="flex items-center gap-2 mb-1 px-1 text-[10px]">
+                <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-semibold">
+                  <Link2 size={10} /> {describeAnchor(c.anchor, contract)}
+                </span>
+                {c.resolvedAt ? (
+                  <span className="text-green-600 dark:text-green-400 font-semibold" title={new Date(c.resolvedAt).toLocaleString()}>
+                    Resolved by {c.resolvedBy}
+                  </span>
+                ) : (
+                  <span className="text-amber-600 dark:text-amber-400 font-semibold">Open</span>
+                )}
+                {canResolveComment(c, contract, currentUser.id) && (
+                  <button 
+                    onClick={() => handleToggleResolved(c)}
+                    className="font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {c.resolvedAt ? 'Reopen' : 'Mark resolved'}
+                  </button>
+                )}
+              </div>
+            )}
+            <div className={`rounded-xl px-4 py-3 text-sm shadow-sm relative group ${c.resolvedAt ? 'opacity-70 ' : ''}${
+              isMe 
+                ? 'bg-blue-600 text-white rounded-tr-none' 
+                : 'bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200 rounded-tl-none border border-slate-200 dark:border-slate-600'
+            }`}>
+              <p className="leading-relaxed whitespace-pre-wrap">
+                {splitMentions(c.text, users).map((segment, i) => segment.userId ? (
+                  <span 
+                    key={i} 
+                    className={`font-semibold rounded px-0.5 ${
+                      segment.userId === currentUser.id 
+                        ? 'bg-yellow-200 text-yellow-900 dark:bg-yellow-500/30 dark:text-yellow-200' 
+                        : isMe ? 'underline' : 'text-blue-600 dark:text-blue-400'
+                    }`}
+                  >
+                    {segment.text}
+                  </span>
+                ) : segment.text)}
+              </p>
+              
+              {/* Thumbs Up / Acknowledge */}
+              <div className={`absolute -bottom-3 ${isMe ? 'left-0' : 'right-0'} flex items-center`}>
+                 <button 
+                   onClick={() => handleLikeComment(c.id)}
+                   className={`p-1 rounded-full shadow-sm border text-[10px] flex items-center gap-1 transition-all hover:scale-110 ${
+                     isLikedByMe 
+                      ? 'bg-blue-100 border-blue-200 text-blue-600 dark:bg-blue-900 dark:border-blue-800 dark:text-blue-300' 
+                      : 'bg-white border-slate-200 text-slate-500 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+                   }`}
+                   title="Acknowledge"
+                 >
+                   <ThumbsUp size={10} fill={isLikedByMe ? "currentColor" : "none"} />
+                   {likeCount > 0 && <span className="font-bold">{likeCount}</span>}
+                 </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </React.Fragment>
+    );
+  };
+
   const handleRunAI = async () => {
+    if (!canRunAi) return;
     setIsAnalyzing(true);
     const result = await analyzeContractRisks(contract);
     setAiOutput(result); // Update local draft only
@@ -348,9 +517,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
 
   const handleSaveAnalysis = () => {
     const updated = { ...contract, aiRiskAnalysis: aiOutput };
-    updated.auditTrail.push({
-      id: Math.random().toString(),
-      timestamp: Date.now(),
+    updated.auditTrail = appendAuditEntry(updated.auditTrail, {
       userId: currentUser.id,
       userName: currentUser.name,
       action: 'Saved AI Risk Analysis'
@@ -360,7 +527,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
 
   const handleSendChatMessage = async (overrideText?: string) => {
     const textToSend = overrideText || chatInput;
-    if (!textToSend.trim() || isChatLoading) return;
+    if (!textToSend.trim() || isChatLoading || !canRunAi) return;
 
     const newUserMessage: ChatMessage = { role: 'user', text: textToSend };
     
@@ -396,14 +563,12 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
         const updated = { 
           ...contract, 
           documents: [...(contract.documents || []), newDoc],
-          auditTrail: [...contract.auditTrail, {
-            id: Math.random().toString(),
-            timestamp: Date.now(),
+          auditTrail: appendAuditEntry(contract.auditTrail, {
             userId: currentUser.id,
             userName: currentUser.name,
             action: 'Uploaded Document',
             details: file.name
-          }]
+          })
         };
         onUpdate(updated);
       };
@@ -412,6 +577,15 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
     }
   };
 
+  const handleDownloadMemo = () => {
+    try {
+      downloadFile(approvalMemoFilename(contract), createApprovalMemoPdf(contract, users, currentUser), 'application/pdf');
+    } catch (error) {
+      console.error("Approval Memo Error:", error);
+      alert("The approval memo could not be generated.");
+    }
+  };
+
   const handleDownload = (doc: ContractDocument) => {
     if (!doc.base64) {
       alert("File content not available for download.");
@@ -426,11 +600,15 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
   };
 
   const hasUnsavedChanges = aiOutput !== (contract.aiRiskAnalysis || '');
-  const canEdit = contract.status === ContractStatus.DRAFT || contract.status === ContractStatus.CHANGES_REQUESTED;
+  const canEdit = can(Permission.CONTRACT_EDIT) && (contract.status === ContractStatus.DRAFT || contract.status === ContractStatus.CHANGES_REQUESTED);
+
+  const auditVerification = verifyAuditTrail(contract.auditTrail, archivedAuditLog);
+  const flaggedAuditIds = new Set(auditVerification.issues.map(i => i.entryId));
 
   // Filter available users for ad-hoc selection (exclude current reviewers/approvers if desired, or just show all except self)
   // For simplicity, showing all except current user and those already added
-  const availableUsers = MOCK_USERS.filter(u => 
+  const availableUsers = users.filter(u => 
+    u.isActive &&
     u.id !== currentUser.id && 
     !contract.adHocReviewers?.some(r => r.userId === u.id)
   );
@@ -461,7 +639,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
             </button>
           )}
 
-          {contract.status === ContractStatus.DRAFT && (
+          {canEdit && contract.status === ContractStatus.DRAFT && (
             <button 
               onClick={handleSubmitDraft}
               className="group flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-all font-medium shadow-sm"
@@ -494,6 +672,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                 let count = 0;
                 if (tab === 'Comments' && contract.comments) count = contract.comments.length;
                 if (tab === 'Documents' && contract.documents) count = contract.documents.length;
+                if (tab === 'Versions') count = versions.length;
                 if (tab === 'Audit Trail' && contract.auditTrail) count = contract.auditTrail.length;
                 
                 return (
@@ -556,7 +735,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                           </div>
                           <div className="p-4 grid grid-cols-2 gap-4 flex-1">
                              <div>
-                               <p className="text-xs text-slate-500 dark:text-slate-400 uppercase">Original Amount</p>
+                               <div className="text-xs text-slate-500 dark:text-slate-400 uppercase flex items-center gap-1.5">Original Amount {fieldMarker('amount')}</div>
                                <p className="font-medium text-slate-900 dark:text-white text-lg">
                                   {contract.originalAmount?.toLocaleString()} <span className="text-sm font-normal text-slate-500">{contract.originalCurrency}</span>
                                </p>
@@ -574,7 +753,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                                </span>
                              </div>
                              <div>
-                               <p className="text-xs text-slate-500 dark:text-slate-400 uppercase">Pricing Structure</p>
+                               <div className="text-xs text-slate-500 dark:text-slate-400 uppercase flex items-center gap-1.5">Pricing Structure {fieldMarker('priceStructure')}</div>
                                <p className="font-medium text-slate-900 dark:text-white text-sm">{contract.priceStructure}</p>
                              </div>
                           </div>
@@ -588,11 +767,11 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                           </div>
                           <div className="p-4 grid grid-cols-2 gap-4 flex-1">
                              <div>
-                               <p className="text-xs text-slate-500 dark:text-slate-400 uppercase">Start Date</p>
+                               <div className="text-xs text-slate-500 dark:text-slate-400 uppercase flex items-center gap-1.5">Start Date {fieldMarker('startDate')}</div>
                                <p className="font-medium text-slate-900 dark:text-white">{contract.startDate}</p>
                              </div>
                              <div>
-                               <p className="text-xs text-slate-500 dark:text-slate-400 uppercase">End Date</p>
+                               <div className="text-xs text-slate-500 dark:text-slate-400 uppercase flex items-center gap-1.5">End Date {fieldMarker('endDate')}</div>
                                <p className="font-medium text-slate-900 dark:text-white">{contract.endDate}</p>
                              </div>
                              <div className="col-span-2 flex items-center gap-2 mt-1">
@@ -612,7 +791,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                           </div>
                           <div className="p-4 space-y-3 flex-1">
                              <div className="flex justify-between border-b border-slate-100 dark:border-slate-700/50 pb-2">
-                               <span className="text-sm text-slate-500 dark:text-slate-400">Contractor</span>
+                               <span className="text-sm text-slate-500 dark:text-slate-400 flex items-center gap-1.5">Contractor {fieldMarker('contractorName')}</span>
                                <span className="font-medium text-slate-900 dark:text-white text-right">{contract.contractorName}</span>
                              </div>
                              <div className="flex justify-between border-b border-slate-100 dark:border-slate-700/50 pb-2">
@@ -625,7 +804,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                              </div>
                              <div className="flex justify-between">
                                <span className="text-sm text-slate-500 dark:text-slate-400">Submitter</span>
-                               <span className="font-medium text-slate-900 dark:text-white text-right">{MOCK_USERS.find(u => u.id === contract.submitterId)?.name || 'Unknown'}</span>
+                               <span className="font-medium text-slate-900 dark:text-white text-right">{users.find(u => u.id === contract.submitterId)?.name || 'Unknown'}</span>
                              </div>
                           </div>
                        </div>
@@ -638,13 +817,19 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                           </div>
                           <div className="p-4 space-y-4 flex-1">
                              <div>
-                               <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Background & Need</h4>
+                               <div className="flex items-center gap-1.5 mb-2">
+                                 <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Background & Need</h4>
+                                 {fieldMarker('backgroundNeed')}
+                               </div>
                                <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed bg-slate-50 dark:bg-slate-900/50 p-3 rounded border border-slate-100 dark:border-slate-800">
                                  {contract.backgroundNeed}
                                </p>
                              </div>
                              <div>
-                               <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Scope of Work</h4>
+                               <div className="flex items-center gap-1.5 mb-2">
+                                 <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Scope of Work</h4>
+                                 {fieldMarker('scopeOfWork')}
+                               </div>
                                <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed bg-slate-50 dark:bg-slate-900/50 p-3 rounded border border-slate-100 dark:border-slate-800 max-h-40 overflow-y-auto custom-scrollbar">
                                  {contract.scopeOfWork}
                                </p>
@@ -674,7 +859,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
 
                  <section>
                    <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase mb-2 flex items-center gap-2 mt-4">
-                     <ShieldCheck size={16}/> Vendor Qualification
+                     <ShieldCheck size={16}/> Vendor Qualification {fieldMarker('ddqNumber')}
                    </h3>
                    <div className="bg-slate-50 dark:bg-slate-900/50 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
@@ -729,9 +914,9 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                     <div className="flex gap-2">
                       <button 
                         onClick={handleRunAI} 
-                        disabled={isAnalyzing}
+                        disabled={isAnalyzing || !canRunAi}
                         className="flex items-center gap-1 text-xs bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 px-3 py-1.5 rounded hover:bg-slate-50 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors shadow-sm"
-                        title="Regenerate Analysis">
+                        title={canRunAi ? "Regenerate Analysis" : "Your role cannot run the AI assistant"}>
                         <RotateCcw size={14} className={isAnalyzing ? 'animate-spin' : ''} />
                         {isAnalyzing ? 'Analyzing...' : 'Refresh'}
                       </button>
@@ -764,28 +949,31 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                      <h4 className="font-bold text-slate-800 dark:text-white mb-4 border-b pb-2 dark:border-slate-700">Terms & Conditions</h4>
                      <ul className="space-y-3 text-sm">
                        <li className="flex justify-between">
-                         <span className="text-slate-500 dark:text-slate-400">Standard Terms?</span>
+                         <span className="text-slate-500 dark:text-slate-400 flex items-center gap-1.5">Standard Terms? {fieldMarker('isStandardTerms')}</span>
                          <span className="font-medium text-slate-900 dark:text-white">{contract.isStandardTerms ? 'Yes' : 'No'}</span>
                        </li>
                        <li className="flex justify-between">
-                         <span className="text-slate-500 dark:text-slate-400">Liability Cap</span>
+                         <span className="text-slate-500 dark:text-slate-400 flex items-center gap-1.5">Liability Cap {fieldMarker('liabilityCapPercent')}</span>
                          <span className={`font-medium ${contract.liabilityCapPercent < 100 ? 'text-red-600' : 'text-slate-900 dark:text-white'}`}>{contract.liabilityCapPercent}%</span>
                        </li>
                        <li className="flex justify-between">
-                         <span className="text-slate-500 dark:text-slate-400">Subcontracting</span>
+                         <span className="text-slate-500 dark:text-slate-400 flex items-center gap-1.5">Subcontracting {fieldMarker('subcontractingPercent')}</span>
                          <span className="font-medium text-slate-900 dark:text-white">{contract.isSubcontracting ? `${contract.subcontractingPercent}%` : 'Not Allowed'}</span>
                        </li>
                      </ul>
                      {contract.deviationsDescription && (
                         <div className="mt-4">
-                          <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Deviations</span>
+                          <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase flex items-center gap-1.5">Deviations {fieldMarker('deviationsDescription')}</span>
                           <p className="text-sm text-slate-700 dark:text-slate-300 mt-1">{contract.deviationsDescription}</p>
                         </div>
                      )}
                    </div>
 
                    <div className="bg-white dark:bg-slate-800 p-4 rounded border border-slate-200 dark:border-slate-700">
-                     <h4 className="font-bold text-slate-800 dark:text-white mb-4 border-b pb-2 dark:border-slate-700">Risk Assessment</h4>
+                     <h4 className="font-bold text-slate-800 dark:text-white mb-4 border-b pb-2 dark:border-slate-700 flex justify-between items-center">
+                       Risk Assessment
+                       <span className="text-[10px] font-medium text-slate-400" title="Risk trigger rule set used for this contract">Rule set v{contract.riskRuleSetVersion ?? 1}</span>
+                     </h4>
                       {contract.isHighRisk && (
                         <div className="mb-4 bg-orange-50 dark:bg-orange-900/20 p-3 rounded text-sm text-orange-800 dark:text-orange-300 border border-orange-100 dark:border-orange-800">
                           <div className="flex items-center font-bold mb-2"><AlertTriangle size={16} className="mr-2"/> Triggers Detected</div>
@@ -830,6 +1018,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                               <button 
                                 key={i}
                                 onClick={() => handleSendChatMessage(prompt)}
+                                disabled={!canRunAi}
                                 className="text-sm text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-700/50 hover:bg-slate-100 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-600 px-4 py-3 rounded-lg transition-colors flex items-center justify-between group"
                               >
                                 {prompt}
@@ -880,12 +1069,13 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                                 handleSendChatMessage();
                              }
                            }}
-                           placeholder="Ask a question about this contract..."
+                           placeholder={canRunAi ? "Ask a question about this contract..." : "Your role cannot use the AI assistant"}
+                           disabled={!canRunAi}
                            className="flex-1 border border-slate-300 dark:border-slate-600 rounded-full py-3 px-5 pr-12 text-sm bg-slate-50 dark:bg-slate-900/50 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none shadow-sm"
                         />
                         <button 
                            onClick={() => handleSendChatMessage()}
-                           disabled={!chatInput.trim() || isChatLoading}
+                           disabled={!chatInput.trim() || isChatLoading || !canRunAi}
                            className="absolute right-1.5 p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                         >
                            <Send size={16} />
@@ -932,6 +1122,11 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                               <td className="px-4 py-3 flex items-center gap-3 font-medium text-slate-800 dark:text-slate-200">
                                 <FileText size={18} className="text-blue-500" />
                                 {doc.name}
+                                {getDocumentComments(contract, doc.id).some(c => !c.resolvedAt) && (
+                                  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" title="Open page comments">
+                                    {getDocumentComments(contract, doc.id).filter(c => !c.resolvedAt).length} open
+                                  </span>
+                                )}
                               </td>
                               <td className="px-4 py-3 text-slate-500 dark:text-slate-400">{(doc.size / 1024).toFixed(0)} KB</td>
                               <td className="px-4 py-3 text-slate-500 dark:text-slate-400">{new Date(doc.uploadDate).toLocaleDateString()}</td>
@@ -942,6 +1137,12 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                                 >
                                   Download
                                 </button>
+                                <button 
+                                  onClick={() => startAnchoredComment({ type: 'document', documentId: doc.id, page: 1 })}
+                                  className="text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1"
+                                >
+                                  <MessageSquarePlus size={14} /> Comment on page
+                                </button>
                               </td>
                             </tr>
                           ))
@@ -958,47 +1159,32 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
 
             {activeTab === 'Comments' && (
               <div className="flex flex-col h-full animate-fade-in relative">
+                 {getOpenAnchoredComments(contract).length > 0 && (
+                   <div className="mb-2 px-3 py-2 rounded bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs text-amber-800 dark:text-amber-300 flex items-center gap-2">
+                     <AlertTriangle size={14} />
+                     {getOpenAnchoredComments(contract).length} comment(s) on specific fields or pages are open. The submitter must resolve them before resubmitting.
+                   </div>
+                 )}
+                 {unreadOnOpen && (
+                   <button
+                     onClick={() => firstUnreadRef.current?.scrollIntoView({ behavior: 'smooth' })}
+                     className="self-center mb-2 flex items-center gap-1 text-xs font-semibold px-3 py-1 rounded-full bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900 transition-colors"
+                   >
+                     <ArrowDown size={12} /> Jump to first unread ({unreadOnOpen.count})
+                   </button>
+                 )}
                  <div className="flex-1 overflow-y-auto space-y-6 mb-4 pr-2 p-2">
                     {contract.comments && contract.comments.length > 0 ? (
-                      contract.comments.sort((a,b) => a.timestamp - b.timestamp).map((c, i) => {
-                        const isMe = c.userId === currentUser.id;
-                        const likeCount = c.likes?.length || 0;
-                        const isLikedByMe = c.likes?.includes(currentUser.id);
-                        
-                        return (
-                          <div key={i} className={`flex ${isMe ? 'justify-end' : 'justify-start'}`}>
-                            <div className={`flex flex-col ${isMe ? 'items-end' : 'items-start'} max-w-[80%]`}>
-                              <div className="flex items-center gap-2 mb-1 px-1">
-                                <span className="font-bold text-xs text-slate-600 dark:text-slate-400">{c.userName}</span>
-                                <span className="text-[10px] text-slate-400">{new Date(c.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
-                              </div>
-                              <div className={`rounded-xl px-4 py-3 text-sm shadow-sm relative group ${
-                                isMe 
-                                  ? 'bg-blue-600 text-white rounded-tr-none' 
-                                  : 'bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200 rounded-tl-none border border-slate-200 dark:border-slate-600'
-                              }`}>
-                                <p className="leading-relaxed whitespace-pre-wrap">{c.text}</p>
-                                
-                                {/* Thumbs Up / Acknowledge */}
-                                <div className={`absolute -bottom-3 ${isMe ? 'left-0' : 'right-0'} flex items-center`}>
-                                   <button 
-                                     onClick={() => handleLikeComment(c.id)}
-                                     className={`p-1 rounded-full shadow-sm border text-[10px] flex items-center gap-1 transition-all hover:scale-110 ${
-                                       isLikedByMe 
-                                        ? 'bg-blue-100 border-blue-200 text-blue-600 dark:bg-blue-900 dark:border-blue-800 dark:text-blue-300' 
-                                        : 'bg-white border-slate-200 text-slate-500 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
-                                     }`}
-                                     title="Acknowledge"
-                                   >
-                                     <ThumbsUp size={10} fill={isLikedByMe ? "currentColor" : "none"} />
-                                     {likeCount > 0 && <span className="font-bold">{likeCount}</span>}
-                                   </button>
-                                </div>
-                              </div>
+                      getCommentThreads(contract.comments).map(thread => (
+                        <div key={thread.root.id} className="space-y-5">
+                          {renderComment(thread.root)}
+                          {thread.replies.length > 0 && (
+                            <div className="ml-8 pl-4 border-l-2 border-slate-200 dark:border-slate-700 space-y-5">
+                              {thread.replies.map(reply => renderComment(reply))}
                             </div>
-                          </div>
-                        );
-                      })
+                          )}
+                        </div>
+                      ))
                     ) : (
                       <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500 opacity-60">
                         <MessageSquare size={64} className="mb-4" />
@@ -1009,19 +1195,65 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                     <div ref={commentsEndRef} />
                  </div>
                  
-                 <div className="flex gap-2 items-end pt-4 border-t border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 sticky bottom-0">
-                    <textarea 
-                       className="flex-1 border border-slate-300 dark:border-slate-600 rounded-lg p-3 text-sm bg-slate-50 dark:bg-slate-900/50 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none resize-none transition-shadow"
-                       rows={2}
-                       placeholder="Type a comment to the team..."
+                 <div className="pt-4 border-t border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 sticky bottom-0">
+                  {replyTo && (
+                    <div className="flex items-center justify-between mb-2 px-3 py-1.5 rounded bg-slate-100 dark:bg-slate-700/50 text-xs text-slate-600 dark:text-slate-300">
+                      <span className="flex items-center gap-1 truncate">
+                        <CornerDownRight size={12} /> Replying to <strong>{replyTo.userName}</strong>: <span className="italic truncate">{replyTo.text}</span>
+                      </span>
+                      <button onClick={() => setReplyTo(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 ml-2" title="Cancel reply">
+                        <X size={14} />
+                      </button>
+                    </div>
+                  )}
+                  {!replyTo && (
+                    <div className="flex items-center gap-2 mb-2 text-xs text-slate-600 dark:text-slate-300">
+                      <Link2 size={12} className="text-slate-400" />
+                      <span>Attach to:</span>
+                      <select 
+                        className="border border-slate-300 dark:border-slate-600 rounded px-2 py-1 bg-white dark:bg-slate-900 text-slate-900 dark:text-white"
+                        value={!composerAnchor ? '' : composerAnchor.type === 'field' ? `field:${String(composerAnchor.field)}` : `doc:${composerAnchor.documentId}`}
+                        onChange={e => {
+                          const [type, key] = e.target.value.split(/:(.*)/);
+                          if (type === 'field') setComposerAnchor({ type: 'field', field: key as keyof ContractData });
+                          else if (type === 'doc') setComposerAnchor({ type: 'document', documentId: key, page: 1 });
+                          else setComposerAnchor(null);
+                        }}
+                      >
+                        <option value="">General discussion</option>
+                        <optgroup label="Contract field">
+                          {Object.entries(ANCHORABLE_FIELDS).map(([field, label]) => (
+                            <option key={field} value={`field:${field}`}>{label}</option>
+                          ))}
+                        </optgroup>
+                        {contract.documents && contract.documents.length > 0 && (
+                          <optgroup label="Document">
+                            {contract.documents.map(d => <option key={d.id} value={`doc:${d.id}`}>{d.name}</option>)}
+                          </optgroup>
+                        )}
+                      </select>
+                      {composerAnchor?.type === 'document' && (
+                        <label className="flex items-center gap-1">
+                          Page
+                          <input 
+                            type="number" 
+                            min={1} 
+                            className="w-16 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 bg-white dark:bg-slate-900 text-slate-900 dark:text-white"
+                            value={composerAnchor.page}
+                            onChange={e => setComposerAnchor({ ...composerAnchor, page: Math.max(1, Number(e.target.value) || 1) })}
+                          />
+                        </label>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex gap-2 items-end">
+                    <MentionTextarea 
+                       className="w-full border border-slate-300 dark:border-slate-600 rounded-lg p-3 text-sm bg-slate-50 dark:bg-slate-900/50 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none resize-none transition-shadow"
+                       placeholder={replyTo ? `Reply to ${replyTo.userName}... (type @ to mention)` : "Type a comment to the team... (type @ to mention)"}
                        value={newComment}
-                       onChange={e => setNewComment(e.target.value)}
-                       onKeyDown={e => {
-                         if (e.key === 'Enter' && !e.shiftKey) {
-                           e.preventDefault();
-                           handleAddComment();
-                         }
-                       }}
+                       onChange={setNewComment}
+                       onSubmit={handleAddComment}
+                       users={mentionableUsers}
                     />
                     <button 
                       onClick={handleAddComment}
@@ -1030,14 +1262,50 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                     >
                       <Send size={18} />
                     </button>
+                  </div>
                  </div>
               </div>
             )}
 
             {activeTab === 'Approvals' && (
               <div className="space-y-8 animate-fade-in">
-                
-                {/* 1. Manage Ad Hoc Reviewers */}
+
+                {/* 1. Corporate Sign-off */}
+                <div>
+                   <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-1 flex items-center gap-2">
+                     <ShieldCheck size={20} />
+                     Corporate Sign-off
+                   </h3>
+                   <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+                     {getCorporateQuorum(contract)} of {approvalRoute.corporateRoles.length} approvals required to complete corporate review.
+                     {contract.status === ContractStatus.SUBMITTED && outstandingCorporateApprovals.length > 0 && (
+                       <span className="font-medium text-slate-700 dark:text-slate-300"> Outstanding: {outstandingCorporateApprovals.join(', ')}.</span>
+                     )}
+                   </p>
+                   <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                     {approvalRoute.corporateRoles.map(role => {
+                       const approved = hasCorporateApproval(contract, role);
+                       const review = [...(contract.reviews || [])].reverse().find(r => r.role === role && !r.isAdHoc);
+                       return (
+                         <div key={role} className={`flex items-center justify-between p-3 rounded-lg border ${approved ? 'bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800' : 'bg-white border-slate-200 dark:bg-slate-700 dark:border-slate-600'}`}>
+                           <div>
+                             <p className="text-sm font-bold text-slate-900 dark:text-white">{role}</p>
+                             <p className="text-xs text-slate-500 dark:text-slate-400">
+                               {approved && review ? `${formatReviewerName(review)} • ${new Date(review.timestamp).toLocaleDateString()}` : approved ? 'Signed off' : 'Awaiting sign-off'}
+                             </p>
+                           </div>
+                           {approved ? (
+                             <CheckCircle size={18} className="text-green-600 dark:text-green-400" />
+                           ) : (
+                             <Clock size={18} className="text-slate-400" />
+                           )}
+                         </div>
+                       );
+                     })}
+                   </div>
+                </div>
+
+                {/* 2. Manage Ad Hoc Reviewers */}
                 <div>
                    <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-4 flex items-center gap-2">
                      <Users size={20} />
@@ -1074,7 +1342,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                      {contract.adHocReviewers && contract.adHocReviewers.length > 0 ? (
                        contract.adHocReviewers.map((rev, i) => {
                           // Check if they have reviewed
-                          const review = contract.reviews?.find(r => r.reviewerId === rev.userId);
+                          const review = contract.reviews?.find(r => getReviewAuthorityId(r) === rev.userId);
                           return (
                             <div key={i} className="flex justify-between items-center bg-white dark:bg-slate-700 p-3 rounded-lg border border-slate-200 dark:border-slate-600">
                                <div className="flex items-center gap-3">
@@ -1108,7 +1376,10 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                    </div>
                 </div>
 
-                {/* 2. Approval History */}
+                {/* 3. Service Levels */}
+                <SlaTimeline contract={contract} slaPolicy={slaPolicy} />
+
+                {/* 4. Approval History */}
                 <div>
                   <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-4 mt-8">Review History</h3>
                   <div className="space-y-4">
@@ -1129,7 +1400,7 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                                </div>
                                <div>
                                  <p className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-2">
-                                   {rev.reviewerName}
+                                   {formatReviewerName(rev)}
                                  </p>
                                  <p className="text-xs text-slate-500 dark:text-slate-400">{rev.role}</p>
                                </div>
@@ -1157,6 +1428,26 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                    <div className="border-t border-slate-200 dark:border-slate-700 pt-8">
                      <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-2">Your Review Decision</h3>
                      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Please provide a justification for your decision. This will be recorded in the audit trail.</p>
+
+                     {approverOptions.length > 1 && (
+                       <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 mb-4">
+                         Decide as
+                         <select
+                           className="border rounded p-1.5 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-blue-500 outline-none"
+                           value={actingFor.id}
+                           onChange={e => setActingForId(e.target.value)}
+                         >
+                           {approverOptions.map(u => (
+                             <option key={u.id} value={u.id}>{u.id === currentUser.id ? `Myself (${u.role})` : `On behalf of ${u.name} (${u.role})`}</option>
+                           ))}
+                         </select>
+                       </label>
+                     )}
+                     {isDelegated && (
+                       <p className="text-sm text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-lg p-3 mb-4">
+                         You are deciding on behalf of <strong>{actingFor.name}</strong> ({actingFor.role}) under an approval delegation. The review will record both names.
+                       </p>
+                     )}
                      
                      <textarea
                        className="w-full border border-slate-300 dark:border-slate-600 rounded-lg p-4 text-sm mb-4 bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
@@ -1204,15 +1495,52 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
               </div>
             )}
 
+            {activeTab === 'Versions' && (
+              <VersionHistory versions={versions} reviews={contract.reviews || []} currentUser={currentUser} />
+            )}
+
             {activeTab === 'Audit Trail' && (
               <div className="space-y-6 animate-fade-in">
                 <h3 className="text-lg font-bold text-slate-800 dark:text-white">Audit Trail</h3>
+
+                {/* Hash chain verification */}
+                {auditVerification.status === 'verified' && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-300">
+                    <ShieldCheck size={18} className="shrink-0 mt-0.5" />
+                    <span>
+                      <strong>Chain verified.</strong> All {auditVerification.verifiedCount} chained entries are intact and match the archived log.
+                      {auditVerification.legacyCount > 0 && ` ${auditVerification.legacyCount} older entries predate chaining and cannot be verified.`}
+                    </span>
+                  </div>
+                )}
+                {auditVerification.status === 'unverified' && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-600 dark:text-slate-300">
+                    <Hash size={18} className="shrink-0 mt-0.5" />
+                    <span>These entries were recorded before the audit trail was hash-chained and cannot be verified. New entries will be chained.</span>
+                  </div>
+                )}
+                {auditVerification.status === 'tampered' && (
+                  <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-800 text-sm text-red-800 dark:text-red-300">
+                    <div className="flex items-center gap-2 font-bold mb-1">
+                      <ShieldAlert size={18} /> Audit trail integrity check failed
+                    </div>
+                    <ul className="list-disc pl-8 space-y-0.5">
+                      {auditVerification.issues.map((issue, i) => <li key={i}>{issue.problem}</li>)}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="relative border-l-2 border-slate-200 dark:border-slate-700 ml-3 space-y-8">
-                  {contract.auditTrail?.sort((a,b) => b.timestamp - a.timestamp).map((log, i) => (
-                    <div key={i} className="relative pl-8">
-                       <span className={`absolute -left-[9px] top-0 w-4 h-4 rounded-full border-4 border-white dark:border-slate-800 ${log.action === 'Email Notification Sent' ? 'bg-blue-400' : 'bg-blue-500'}`}></span>
+                  {[...(contract.auditTrail || [])].sort((a,b) => b.timestamp - a.timestamp || (b.sequence ?? 0) - (a.sequence ?? 0)).map((log, i) => (
+                    <div key={i} className={`relative pl-8 ${flaggedAuditIds.has(log.id) ? 'bg-red-50 dark:bg-red-900/10 rounded-r' : ''}`}>
+                       <span className={`absolute -left-[9px] top-0 w-4 h-4 rounded-full border-4 border-white dark:border-slate-800 ${flaggedAuditIds.has(log.id) ? 'bg-red-600' : log.action === 'Email Notification Sent' ? 'bg-blue-400' : log.action === 'Email Delivery Failed' ? 'bg-red-500' : 'bg-blue-500'}`}></span>
                        <div className="flex flex-col">
-                         <span className="text-xs text-slate-400 font-mono mb-1">{new Date(log.timestamp).toLocaleString()}</span>
+                         <span className="text-xs text-slate-400 font-mono mb-1">
+                           {new Date(log.timestamp).toLocaleString()}
+                           {log.hash 
+                             ? <span className="ml-2" title={`SHA-256 ${log.hash}\nPrevious ${log.previousHash}`}>#{log.sequence} · {log.hash.slice(0, 10)}</span>
+                             : <span className="ml-2 italic">unchained</span>}
+                         </span>
                          <span className="font-bold text-slate-800 dark:text-white text-sm">
                            {log.action} <span className="font-normal text-slate-500 dark:text-slate-400">by {log.userName}</span>
                          </span>
@@ -1257,8 +1585,32 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
                    <div className={`h-1.5 rounded-full w-full ${statusStyle.barColor}`}></div>
                 </div>
 
+                {/* Approval Route */}
+                <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-700">
+                  <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Approval Route</p>
+                  <div className="flex items-center gap-1.5 flex-wrap">
+                    {approvalRoute.stages.map((stage, i) => (
+                      <React.Fragment key={stage}>
+                        {i > 0 && <span className="text-slate-300 dark:text-slate-600">→</span>}
+                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${stage === ApprovalStage.CEO ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300' : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'}`}>
+                          {stage}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1.5 leading-tight">
+                    {approvalRoute.stages.includes(ApprovalStage.CEO)
+                      ? `Escalated: ${approvalRoute.reasons.join('; ')}`
+                      : 'Completes at corporate level (low risk).'}
+                  </p>
+                </div>
+
                 {/* Detected Triggers Status Box */}
                 <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-700">
+                  <div className="flex items-center justify-between mb-3">
+                    <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Risk Score</p>
+                    <RiskBadge band={getContractRiskBand(contract)} score={getContractRiskScore(contract)} size="md" />
+                  </div>
                   {contract.isHighRisk ? (
                      <div className="flex items-start gap-2 bg-orange-50 dark:bg-orange-900/20 p-3 rounded-lg border border-orange-100 dark:border-orange-800/50">
                         <AlertTriangle size={16} className="text-orange-600 dark:text-orange-400 shrink-0 mt-0.5" />
@@ -1296,8 +1648,13 @@ export const ReviewDetail: React.FC<ReviewDetailProps> = ({ contract, currentUse
 
            <div className="mt-auto">
              <h4 className="font-bold text-slate-700 dark:text-slate-300 text-sm mb-3">Quick Actions</h4>
-             <button className="w-full flex items-center justify-center text-sm text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 rounded p-2 hover:bg-white dark:hover:bg-slate-800 transition-colors mb-2">
-               <Download size={14} className="mr-2" /> Download PDF
+             <button 
+               onClick={handleDownloadMemo}
+               disabled={contract.status !== ContractStatus.APPROVED}
+               title={contract.status === ContractStatus.APPROVED ? 'High Risk Contract Approval Memo' : 'Available once the contract is approved'}
+               className="w-full flex items-center justify-center text-sm text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 rounded p-2 hover:bg-white dark:hover:bg-slate-800 transition-colors mb-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+             >
+               <Download size={14} className="mr-2" /> Approval Memo (PDF)
              </button>
              <button className="w-full flex items-center justify-center text-sm text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 rounded p-2 hover:bg-white dark:hover:bg-slate-800 transition-colors">
                <FileText size={14} className="mr-2" /> Export Summary
@@ -0,0 +1,25 @@
+import React from 'react';
+import { RiskBand } from '../types';
+
+interface RiskBadgeProps {
+  band: RiskBand;
+  score?: number;
+  size?: 'sm' | 'md';
+}
+
+const BAND_STYLES: Record<RiskBand, string> = {
+  [RiskBand.LOW]: 'bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800',
+  [RiskBand.MEDIUM]: 'bg-yellow-100 text-yellow-700 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-800',
+  [RiskBand.HIGH]: 'bg-orange-100 text-orange-700 border-orange-200 dark:bg-orange-900/30 dark:text-orange-300 dark:border-orange-800',
+  [RiskBand.CRITICAL]: 'bg-red-100 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-800',
+};
+
+export const RiskBadge: React.FC<RiskBadgeProps> = ({ band, score, size = 'sm' }) => (
+  <span
+    className={`inline-flex items-center gap-1 rounded-full border font-bold whitespace-nowrap ${size === 'sm' ? 'px-2 py-0.5 text-[10px]' : 'px-3 py-1 text-xs'} ${BAND_STYLES[band]}`}
+    title={score !== undefined ? `Risk score ${score}` : undefined}
+  >
+    {band}
+    {score !== undefined && <span className="font-mono opacity-75">· {score}</span>}
+  </span>
+);
@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { RiskRuleSet, RiskTriggerRule, RiskCategory, RuleCondition, RuleField, RuleOperator } from '../types';
+import { RULE_FIELDS, NUMERIC_OPERATORS, EQUALITY_OPERATORS, describeRule, validateRule, getLatestRuleSet } from '../utils/riskRulesEngine';
+import { ListChecks, Plus, Trash2, Upload, AlertCircle, History, X } from 'lucide-react';
+
+interface RiskRulesSettingsProps {
+  ruleSets: RiskRuleSet[];
+  onPublish: (rules: RiskTriggerRule[]) => Promise<void>;
+}
+
+const MODE_LABELS: Record<RiskTriggerRule['mode'], string> = {
+  auto: 'Automatic',
+  manual: 'Manual Checklist',
+  doa: 'DoA Band',
+};
+
+const defaultValueFor = (field: RuleField): RuleCondition['value'] => {
+  const definition = RULE_FIELDS[field];
+  if (definition.type === 'boolean') return true;
+  if (definition.type === 'enum') return definition.options![0];
+  return 0;
+};
+
+export const RiskRulesSettings: React.FC<RiskRulesSettingsProps> = ({ ruleSets, onPublish }) => {
+  const latest = getLatestRuleSet(ruleSets);
+  const [draft, setDraft] = useState<RiskTriggerRule[]>(latest.rules);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Reset the draft when a new version is published
+  useEffect(() => {
+    setDraft(latest.rules);
+  }, [latest]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(latest.rules);
+  const errors = draft.map(validateRule);
+  const hasErrors = errors.some(Boolean);
+
+  const updateRule = (id: string, changes: Partial<RiskTriggerRule>) => {
+    setDraft(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const updateCondition = (rule: RiskTriggerRule, index: number, changes: Partial<RuleCondition>) => {
+    updateRule(rule.id, { conditions: rule.conditions.map((c, i) => i === index ? { ...c, ...changes } : c) });
+  };
+
+  const handleFieldChange = (rule: RiskTriggerRule, index: number, field: RuleField) => {
+    const operators = RULE_FIELDS[field].type === 'number' ? NUMERIC_OPERATORS : EQUALITY_OPERATORS;
+    const current = rule.conditions[index].operator;
+    updateCondition(rule, index, {
+      field,
+      operator: operators.includes(current) ? current : operators[0],
+      value: defaultValueFor(field)
+    });
+  };
+
+  const handleAddCondition = (rule: RiskTriggerRule) => {
+    updateRule(rule.id, { conditions: [...rule.conditions, { field: 'amount', operator: '>', value: 0 }] });
+  };
+
+  const handleAddRule = () => {
+    setDraft(prev => [...prev, {
+      id: `rule-${Date.now()}`,
+      category: RiskCategory.FINANCIAL,
+      description: '',
+      mode: 'auto',
+      conditions: [{ field: 'amount', operator: '>', value: 0 }],
+      weight: 1
+    }]);
+  };
+
+  const handleRemoveRule = (rule: RiskTriggerRule) => {
+    if (rule.mode === 'doa' && !window.confirm("This rule may be raised by DoA bands. Remove it anyway?")) return;
+    setDraft(prev => prev.filter(r => r.id !== rule.id));
+  };
+
+  const handlePublish = async () => {
+    if (!window.confirm(`Publish rule set v${latest.version + 1}? New submissions will be assessed under it; existing contracts keep their current version.`)) return;
+    setIsPublishing(true);
+    try {
+      await onPublish(draft);
+    } catch (error) {
+      console.error("Settings Store Error:", error);
+      alert("The risk rules could not be published. Please try again.");
+    }
+    setIsPublishing(false);
+  };
+
+  const cellInput = "border rounded p-1.5 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  const renderValueInput = (rule: RiskTriggerRule, condition: RuleCondition, index: number) => {
+    const definition = RULE_FIELDS[condition.field];
+    if (definition.type === 'boolean') {
+      return (
+        <select
+          className={cellInput}
+          value={String(condition.value)}
+          onChange={(e) => updateCondition(rule, index, { value: e.target.value === 'true' })}
+        >
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+    if (definition.type === 'enum') {
+      return (
+        <select
+          className={cellInput}
+          value={String(condition.value)}
+          onChange={(e) => updateCondition(rule, index, { value: e.target.value })}
+        >
+          {definition.options!.map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+      );
+    }
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          className={`${cellInput} w-28`}
+          value={typeof condition.value === 'number' ? condition.value : ''}
+          onChange={(e) => updateCondition(rule, index, { value: e.target.value === '' ? '' : Number(e.target.value) })}
+        />
+        {definition.unit && <span className="text-xs text-slate-500">{definition.unit}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800/50">
+        <div className="flex items-center gap-2">
+          <ListChecks className="text-slate-400 dark:text-slate-500" size={20} />
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Risk Trigger Rules <span className="ml-1 text-xs font-medium text-slate-500">v{latest.version}</span></h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Conditions on a rule are combined with AND; triggered weights add up to the risk score. Publishing creates a new version; contracts keep the version they were assessed under.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded hover:bg-white dark:hover:bg-slate-700 transition-colors"
+          >
+            <History size={14} /> History
+          </button>
+          <button
+            onClick={handleAddRule}
+            className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded hover:bg-white dark:hover:bg-slate-700 transition-colors"
+          >
+            <Plus size={14} /> Add Rule
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={!isDirty || hasErrors || isPublishing}
+            className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+          >
+            <Upload size={14} /> {isPublishing ? 'Publishing...' : `Publish v${latest.version + 1}`}
+          </button>
+        </div>
+      </div>
+
+      {showHistory && (
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-900/30">
+          <ul className="space-y-1 text-xs text-slate-600 dark:text-slate-300">
+            {[...ruleSets].sort((a, b) => b.version - a.version).map(set => (
+              <li key={set.version} className="flex justify-between">
+                <span className="font-semibold">v{set.version} · {set.rules.length} rules</span>
+                <span className="text-slate-500">
+                  {set.publishedAt ? `${new Date(set.publishedAt).toLocaleString()} by ${set.publishedBy || 'Unknown'}` : 'System default'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-4 py-3">Category</th>
+              <th className="px-4 py-3">Description</th>
+              <th className="px-4 py-3">Mode</th>
+              <th className="px-4 py-3">Weight</th>
+              <th className="px-4 py-3">Conditions</th>
+              <th className="px-4 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {draft.map((rule, i) => (
+              <tr key={rule.id} className="align-top hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                <td className="px-4 py-3">
+                  <select
+                    className={cellInput}
+                    value={rule.category}
+                    onChange={(e) => updateRule(rule.id, { category: e.target.value as RiskCategory })}
+                  >
+                    {Object.values(RiskCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </td>
+                <td className="px-4 py-3">
+                  <input
+                    type="text"
+                    className={`${cellInput} w-64`}
+                    placeholder="e.g. Low liability cap on fixed price"
+                    value={rule.description}
+                    onChange={(e) => updateRule(rule.id, { description: e.target.value })}
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    className={cellInput}
+                    value={rule.mode}
+                    onChange={(e) => updateRule(rule.id, { mode: e.target.value as RiskTriggerRule['mode'] })}
+                  >
+                    {Object.entries(MODE_LABELS).map(([mode, label]) => <option key={mode} value={mode}>{label}</option>)}
+                  </select>
+                </td>
+                <td className="px-4 py-3">
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    className={`${cellInput} w-16`}
+                    value={rule.weight ?? ''}
+                    onChange={(e) => updateRule(rule.id, { weight: Number(e.target.value) })}
+                    title="Severity weight (1 = minor, 10 = severe)"
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  {rule.mode === 'auto' ? (
+                    <div className="space-y-2">
+                      {rule.conditions.map((condition, index) => {
+                        const operators = RULE_FIELDS[condition.field].type === 'number' ? NUMERIC_OPERATORS : EQUALITY_OPERATORS;
+                        return (
+                          <div key={index} className="flex items-center gap-2">
+                            {index > 0 && <span className="text-[10px] font-bold text-slate-400">AND</span>}
+                            <select
+                              className={cellInput}
+                              value={condition.field}
+                              onChange={(e) => handleFieldChange(rule, index, e.target.value as RuleField)}
+                            >
+                              {Object.entries(RULE_FIELDS).map(([field, def]) => <option key={field} value={field}>{def.label}</option>)}
+                            </select>
+                            <select
+                              className={cellInput}
+                              value={condition.operator}
+                              onChange={(e) => updateCondition(rule, index, { operator: e.target.value as RuleOperator })}
+                            >
+                              {operators.map(op => <option key={op} value={op}>{op}</option>)}
+                            </select>
+                            {renderValueInput(rule, condition, index)}
+                            <button
+                              onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, ci) => ci !== index) })}
+                              className="text-slate-400 hover:text-red-600 transition-colors"
+                              title="Remove Condition"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                        );
+                      })}
+                      <button
+                        onClick={() => handleAddCondition(rule)}
+                        className="text-xs text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1"
+                      >
+                        <Plus size={12} /> Add Condition
+                      </button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-slate-500 italic">{describeRule(rule)}</span>
+                  )}
+                  {errors[i] && (
+                    <p className="text-[10px] text-red-600 dark:text-red-400 mt-1 flex items-center gap-1">
+                      <AlertCircle size={10} /> {errors[i]}
+                    </p>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => handleRemoveRule(rule)}
+                    className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                    title="Remove Rule"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
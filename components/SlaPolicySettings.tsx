@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { SlaPolicy, SlaStage, UserRole } from '../types';
+import { DEFAULT_SLA_POLICY } from '../constants';
+import { SLA_STAGES, SLA_STAGE_LABELS, validateSlaPolicy } from '../utils/sla';
+import { Timer, Save, RotateCcw, AlertCircle } from 'lucide-react';
+
+interface SlaPolicySettingsProps {
+  slaPolicy: SlaPolicy;
+  onSave: (policy: SlaPolicy) => Promise<void>;
+}
+
+export const SlaPolicySettings: React.FC<SlaPolicySettingsProps> = ({ slaPolicy, onSave }) => {
+  const [draft, setDraft] = useState<SlaPolicy>(slaPolicy);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the draft when the saved policy changes
+  useEffect(() => {
+    setDraft(slaPolicy);
+  }, [slaPolicy]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(slaPolicy);
+  const error = validateSlaPolicy(draft);
+
+  const update = (changes: Partial<SlaPolicy>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateStageTarget = (stage: SlaStage, days: number) =>
+    setDraft(prev => ({ ...prev, stageTargetDays: { ...prev.stageTargetDays, [stage]: days } }));
+
+  const toggleEscalationRole = (role: UserRole) =>
+    update({ escalationRoles: draft.escalationRoles.includes(role) ? draft.escalationRoles.filter(r => r !== role) : [...draft.escalationRoles, role] });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      console.error("Settings Store Error:", error);
+      alert("The SLA targets could not be saved. Please try again.");
+    }
+    setIsSaving(false);
+  };
+
+  const inputClass = "border rounded p-1.5 text-sm w-24 bg-white dark:bg-slate-900 text-slate-900 dark:text-white border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-blue-500 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800/50">
+        <div className="flex items-center gap-2">
+          <Timer className="text-slate-400 dark:text-slate-500" size={20} />
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Review SLAs</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Turnaround targets in calendar days. Reviewers are reminded before a deadline; breaches can be escalated automatically.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setDraft(DEFAULT_SLA_POLICY)}
+            className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded hover:bg-white dark:hover:bg-slate-700 transition-colors"
+            title="Restore default targets"
+          >
+            <RotateCcw size={14} /> Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || !!error || isSaving}
+            className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+          >
+            <Save size={14} /> {isSaving ? 'Saving...' : 'Save SLAs'}
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 grid grid-cols-2 md:grid-cols-4 gap-6">
+        {SLA_STAGES.map(stage => (
+          <div key={stage}>
+            <label className={labelClass}>{SLA_STAGE_LABELS[stage]}</label>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              className={inputClass}
+              value={draft.stageTargetDays[stage]}
+              onChange={(e) => updateStageTarget(stage, Number(e.target.value))}
+            />
+            <p className="text-[10px] text-slate-400 mt-1">Days in {stage}</p>
+          </div>
+        ))}
+        <div>
+          <label className={labelClass}>Each reviewer</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            className={inputClass}
+            value={draft.reviewerTargetDays}
+            onChange={(e) => update({ reviewerTargetDays: Number(e.target.value) })}
+          />
+          <p className="text-[10px] text-slate-400 mt-1">Days per sign-off or ad hoc review</p>
+        </div>
+        <div>
+          <label className={labelClass}>Reminder lead</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            className={inputClass}
+            value={draft.reminderLeadDays}
+            onChange={(e) => update({ reminderLeadDays: Number(e.target.value) })}
+          />
+          <p className="text-[10px] text-slate-400 mt-1">Days before a deadline</p>
+        </div>
+      </div>
+
+      <div className="px-6 pb-6 flex flex-wrap items-center gap-x-6 gap-y-2">
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={draft.autoEscalate} onChange={() => update({ autoEscalate: !draft.autoEscalate })} />
+          Escalate breaches automatically to
+        </label>
+        {Object.values(UserRole).map(role => (
+          <label key={role} className={`flex items-center gap-2 text-xs cursor-pointer ${draft.autoEscalate ? 'text-slate-700 dark:text-slate-300' : 'text-slate-400 dark:text-slate-500'}`}>
+            <input
+              type="checkbox"
+              disabled={!draft.autoEscalate}
+              checked={draft.escalationRoles.includes(role)}
+              onChange={() => toggleEscalationRole(role)}
+            />
+            {role}
+          </label>
+        ))}
+        {error && (
+          <p className="w-full text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+            <AlertCircle size={12} /> {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
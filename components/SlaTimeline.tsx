@@ -0,0 +1,73 @@
+import React from 'react';
+import { ContractData, SlaPolicy } from '../types';
+import { SlaClock, SlaClockStatus, formatSlaDuration, getStageSlaClocks } from '../utils/sla';
+import { Timer } from 'lucide-react';
+
+interface SlaTimelineProps {
+  contract: ContractData;
+  slaPolicy: SlaPolicy;
+}
+
+const STATUS_STYLES: Record<SlaClockStatus, { label: string; className: string }> = {
+  'on-track': { label: 'On track', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  'due-soon': { label: 'Due soon', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400' },
+  'breached': { label: 'Overdue', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' },
+  'met': { label: 'Met', className: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400' },
+  'missed': { label: 'Missed', className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400' },
+};
+
+const describeClock = (clock: SlaClock, now: number) => {
+  if (clock.completedAt !== undefined) return `Took ${formatSlaDuration(clock.completedAt - clock.startedAt)}`;
+  return clock.status === 'breached'
+    ? `Overdue by ${formatSlaDuration(now - clock.dueAt)}`
+    : `Due in ${formatSlaDuration(clock.dueAt - now)}`;
+};
+
+const ClockRow: React.FC<{ clock: SlaClock; now: number; isStage?: boolean }> = ({ clock, now, isStage }) => {
+  const style = STATUS_STYLES[clock.status];
+  return (
+    <div className={`flex items-center justify-between gap-4 px-4 py-2 ${isStage ? 'bg-slate-50 dark:bg-slate-800/50' : 'border-t border-slate-100 dark:border-slate-600 pl-8'}`}>
+      <div>
+        <p className={`text-sm text-slate-900 dark:text-white ${isStage ? 'font-bold' : ''}`}>{clock.label}</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {new Date(clock.startedAt).toLocaleString()} • target {new Date(clock.dueAt).toLocaleString()}
+        </p>
+      </div>
+      <div className="text-right">
+        <span className={`px-2 py-0.5 text-xs font-bold rounded-full ${style.className}`}>{style.label}</span>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{describeClock(clock, now)}</p>
+      </div>
+    </div>
+  );
+};
+
+// Time spent in each review stage and by each reviewer against the SLA targets
+export const SlaTimeline: React.FC<SlaTimelineProps> = ({ contract, slaPolicy }) => {
+  const now = Date.now();
+  // One group per stage period, most recent first
+  const groups = getStageSlaClocks(contract, slaPolicy, now).reverse();
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-1 flex items-center gap-2">
+        <Timer size={20} />
+        Service Levels
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        Time in each stage and per reviewer, measured from the audit trail against the configured targets.
+      </p>
+      {groups.length === 0 ? (
+        <p className="text-slate-500 dark:text-slate-400 italic text-sm">The SLA clock starts when the contract is submitted.</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.stage.id} className="bg-white dark:bg-slate-700 rounded-lg border border-slate-200 dark:border-slate-600 overflow-hidden">
+              <ClockRow clock={group.stage} now={now} isStage />
+              {group.reviewers.map(clock => <ClockRow key={clock.id} clock={clock} now={now} />)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
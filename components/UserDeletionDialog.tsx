@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ContractData, RolePermissionMatrix, User } from '../types';
+import { getDeletionBlockers, getOpenContracts, getPendingReviews, getReassignmentCandidates } from '../utils/userLifecycle';
+import { UserChangeBlockedError } from '../services/userRepository';
+import { ContractAccessDeniedError, ContractNotFoundError } from '../services/contractRepository';
+import { Trash2, AlertTriangle, ArrowRightLeft, X } from 'lucide-react';
+
+interface UserDeletionDialogProps {
+  user: User;
+  currentUser: User;
+  users: User[];
+  contracts: ContractData[];
+  rolePermissions: RolePermissionMatrix;
+  onReassignContract: (contract: ContractData, submitter: User) => Promise<void>;
+  onDelete: (user: User) => Promise<void>;
+  onClose: () => void;
+}
+
+// Messages from our own checks are safe to show; anything else is logged
+const changeErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof UserChangeBlockedError || error instanceof ContractAccessDeniedError || error instanceof ContractNotFoundError) return error.message;
+  console.error("User Store Error:", error);
+  return fallback;
+};
+
+export const UserDeletionDialog: React.FC<UserDeletionDialogProps> = ({ user, currentUser, users, contracts, rolePermissions, onReassignContract, onDelete, onClose }) => {
+  const [targets, setTargets] = useState<Record<string, string>>({}); // Contract ID -> new submitter ID
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const pendingReviews = getPendingReviews(user, contracts, users, rolePermissions);
+  const openContracts = getOpenContracts(user, contracts);
+  const blockers = getDeletionBlockers(user, currentUser, contracts, users, rolePermissions);
+
+  const handleReassign = async (contract: ContractData) => {
+    const submitter = users.find(u => u.id === targets[contract.id]);
+    if (!submitter) return;
+    setBusyId(contract.id);
+    try {
+      await onReassignContract(contract, submitter);
+    } catch (error) {
+      alert(changeErrorMessage(error, "The contract could not be reassigned. Please try again."));
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${user.name}? This cannot be undone.`)) return;
+    setBusyId(user.id);
+    try {
+      await onDelete(user);
+      onClose();
+    } catch (error) {
+      alert(changeErrorMessage(error, "The user could not be deleted. Please try again."));
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="font-bold text-lg text-slate-900 dark:text-white flex items-center gap-2">
+            <Trash2 size={20} className="text-red-600" /> Delete {user.name}
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          {blockers.length > 0 ? (
+            <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300 space-y-1">
+              {blockers.map(b => (
+                <p key={b} className="flex items-start gap-2"><AlertTriangle size={16} className="shrink-0 mt-0.5" /> {b}</p>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              {user.name} has no pending reviews or open contracts. Their past reviews, comments and audit entries are kept.
+            </p>
+          )}
+
+          {pendingReviews.length > 0 && (
+            <div>
+              <span className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Pending reviews</span>
+              <ul className="text-sm text-slate-700 dark:text-slate-300 list-disc pl-5 space-y-1">
+                {pendingReviews.map(c => <li key={c.id}>{c.title} <span className="text-slate-400">({c.status})</span></li>)}
+              </ul>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                These must be completed, or another active user must be able to give them, before {user.name} can be deleted.
+              </p>
+            </div>
+          )}
+
+          {openContracts.length > 0 && (
+            <div>
+              <span className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Open contracts to reassign</span>
+              <div className="space-y-2">
+                {openContracts.map(contract => {
+                  const candidates = getReassignmentCandidates(contract, users, rolePermissions);
+                  return (
+                    <div key={contract.id} className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{contract.title}</div>
+                        <div className="text-xs text-slate-500 dark:text-slate-400">{contract.entity} · {contract.status}</div>
+                      </div>
+                      <select
+                        className="border rounded p-1.5 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-blue-500 outline-none"
+                        value={targets[contract.id] || ''}
+                        onChange={e => setTargets(prev => ({ ...prev, [contract.id]: e.target.value }))}
+                      >
+                        <option value="">{candidates.length > 0 ? 'Select new owner...' : 'No eligible users'}</option>
+                        {candidates.map(u => <option key={u.id} value={u.id}>{u.name} ({u.role}, {u.entity})</option>)}
+                      </select>
+                      <button
+                        onClick={() => handleReassign(contract)}
+                        disabled={!targets[contract.id] || busyId !== null}
+                        className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <ArrowRightLeft size={14} /> {busyId === contract.id ? 'Reassigning...' : 'Reassign'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2 bg-slate-50 dark:bg-slate-900/50">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700">
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={blockers.length > 0 || busyId !== null}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+          >
+            {busyId === user.id ? 'Deleting...' : 'Delete User'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { User, UserRole, Entity } from '../types';
+import { UserDraft, validateUserDraft } from '../utils/userLifecycle';
+import { validatePassword } from '../utils/passwordHash';
+import { UserAlreadyExistsError, UserChangeBlockedError } from '../services/userRepository';
+import { AuthenticationError } from '../services/authService';
+import { UserPlus, Edit2, X } from 'lucide-react';
+
+interface UserDialogProps {
+  user?: User; // Edited user; a new user is created when omitted
+  users: User[];
+  onSave: (draft: UserDraft, password: string) => Promise<void>; // Empty password keeps the current one
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: UserDraft = { name: '', email: '', role: UserRole.SCM, entity: Entity.BRAZIL, isActive: true };
+
+export const UserDialog: React.FC<UserDialogProps> = ({ user, users, onSave, onClose }) => {
+  const [draft, setDraft] = useState<UserDraft>(() =>
+    user ? { name: user.name, email: user.email, role: user.role, entity: user.entity, isActive: user.isActive } : EMPTY_DRAFT
+  );
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof UserDraft>(key: K, value: UserDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const problem = validateUserDraft(draft, users, user?.id) ?? (password ? validatePassword(password) : null);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim(), email: draft.email.trim() }, password);
+      onClose();
+    } catch (e) {
+      if (e instanceof UserAlreadyExistsError || e instanceof UserChangeBlockedError || e instanceof AuthenticationError) {
+        setError(e.message);
+      } else {
+        console.error("User Store Error:", e);
+        setError('The user could not be saved. Please try again.');
+      }
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+  const labelClass = "block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-lg flex flex-col overflow-hidden border border-slate-200 dark:border-slate-700">
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <h3 className="font-bold text-lg text-slate-900 dark:text-white flex items-center gap-2">
+            {user ? <Edit2 size={20} className="text-blue-600" /> : <UserPlus size={20} className="text-blue-600" />}
+            {user ? `Edit ${user.name}` : 'Add User'}
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Full name</label>
+            <input className={inputClass} value={draft.name} onChange={e => update('name', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Email (sign-in name)</label>
+            <input type="email" className={inputClass} value={draft.email} onChange={e => update('email', e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Role</label>
+              <select className={inputClass} value={draft.role} onChange={e => update('role', e.target.value as UserRole)}>
+                {Object.values(UserRole).map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Entity</label>
+              <select className={inputClass} value={draft.entity} onChange={e => update('entity', e.target.value as Entity)}>
+                {Object.values(Entity).map(en => <option key={en} value={en}>{en}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{user ? 'New password' : 'Initial password'}</label>
+            <input type="password" autoComplete="new-password" className={inputClass} value={password} onChange={e => { setPassword(e.target.value); setError(null); }} />
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              {user ? 'Leave blank to keep the current password.' : 'Leave blank for users who only sign in with SSO.'}
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2 bg-slate-50 dark:bg-slate-900/50">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 shadow-sm"
+          >
+            {isSaving ? 'Saving...' : user ? 'Save Changes' : 'Create User'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
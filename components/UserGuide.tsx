@@ -53,6 +53,12 @@ export const UserGuide: React.FC = () => {
                 <li><strong className="text-orange-600 dark:text-orange-400">CEO:</strong> Final approver for contracts flagged as "High Risk".</li>
                 <li><strong className="text-slate-600 dark:text-slate-400">Ad-Hoc Reviewer:</strong> Subject Matter Experts (HSE, Engineering) invited to consult on specific contracts.</li>
               </ul>
+              <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">Your role comes from your account: sign in with your email and password, or with single sign-on where it is enabled. Use the sign-out button next to your name when you are done.</p>
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">You only see the contracts your role covers: corporate reviewers, the CEO and admins see every entity, entity staff such as SCM see their own entity's contracts, and HSE or Engineering reviewers see the contracts they have been invited to.</p>
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">What each role can do (create, sign off, add reviewers, use the AI assistant, administer) is set in the Role Permissions matrix in Admin Settings; the list above describes the defaults.</p>
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Administrators manage users in Admin Settings. A user who still has pending reviews cannot be deleted or deactivated, and their open contracts must be reassigned to another submitter first; every admin change appears in the Admin Audit Log.</p>
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Going on leave? Open <strong>My Profile</strong> (your initial in the header) and delegate your approvals to a colleague for the dates you are away. While the delegation is active they see your review queue and can decide on your behalf; the review records "approved by them on behalf of you". A delegate cannot approve a contract they submitted, and one person can give only one of the corporate sign-offs on a contract. Administrators can also set delegations in Admin Settings.</p>
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Each review stage and each reviewer has a turnaround target (Review SLAs in Admin Settings). You get a reminder before your deadline, and a breach is escalated automatically, by default to the CEO and administrators. The Approvals tab shows how long each stage and reviewer took.</p>
             </div>
           </div>
         </div>
@@ -89,7 +95,10 @@ export const UserGuide: React.FC = () => {
                 <ul className="list-disc pl-5 text-sm space-y-2 text-slate-600 dark:text-slate-400">
                   <li><strong>Status:</strong> The current workflow stage (e.g., "Pending CEO Approval").</li>
                   <li><strong>Submitter:</strong> The SCM owner responsible for the contract.</li>
+                  <li><strong>Comments:</strong> Shows how many comments you have not read yet. Opening the Comments tab marks them as read for you only, and <strong>Jump to first unread</strong> takes you to where you left off.</li>
                   <li><strong>Role Column:</strong> Look for the <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-purple-100 text-purple-700 border border-purple-200 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-700">Ad-Hoc</span> badge. This indicates you have been manually invited to review this specific contract, even if you are not in the standard approval chain.</li>
+                  <li><strong>Aging:</strong> Days in the current review stage against its SLA target, e.g. "2d / 5d". Green is on track, amber is due soon and red is overdue; hover for the deadline. The <strong>Avg Cycle Time</strong> KPI is the average from first submission to the final decision, taken from the audit trail.</li>
+                  <li><strong>Export:</strong> Downloads the register exactly as currently filtered and sorted, as Excel or CSV. Choose the columns to include, such as USD and original-currency amounts, triggered risks and the current approver.</li>
                 </ul>
               </div>
 
@@ -102,7 +111,7 @@ export const UserGuide: React.FC = () => {
                 </p>
                 <ul className="list-disc pl-5 text-sm space-y-2 text-slate-600 dark:text-slate-400">
                   <li>Click <strong>Contracts Under Review</strong> to see only Pending/Submitted items.</li>
-                  <li>Click <strong>High Risk Identified</strong> to filter for contracts requiring CEO approval (Orange flag).</li>
+                  <li>Click <strong>High/Critical Risk Band</strong> to filter for contracts scored in the High or Critical risk band (Orange flag).</li>
                   <li>Clicking a card again resets the filter.</li>
                 </ul>
               </div>
@@ -208,6 +217,16 @@ export const UserGuide: React.FC = () => {
                 </div>
               </div>
             </section>
+
+            <section>
+              <h3 className="text-xl font-bold text-slate-800 dark:text-white mb-4 pb-2 border-b border-slate-200 dark:border-slate-700">
+                Importing Legacy Registers
+              </h3>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                The <strong>Import</strong> page loads contracts from a CSV or Excel (.xlsx) register. Match each spreadsheet column to a contract field; amounts are converted to USD with the standard exchange rates and every row is risk-assessed as if it had been submitted.
+                Rows with missing or unreadable values are listed with the reason and skipped. Imported contracts are created as <strong>Drafts</strong> to complete and submit normally, or, for administrators, as <strong>historical Approved</strong> records.
+              </p>
+            </section>
           </div>
         </div>
       )
@@ -222,6 +241,12 @@ export const UserGuide: React.FC = () => {
             <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-4">Risk Evaluation Logic</h2>
             <p className="text-slate-600 dark:text-slate-300">
               The system automatically classifies contracts as "High Risk" based on the following triggers. A High Risk classification mandates CEO approval.
+              The financial thresholds below are the default Delegation of Authority (DoA) bands; administrators can adjust them per entity and contract type in Admin Settings.
+              The remaining triggers are the default Risk Trigger Rules. Administrators can add or change rules (including combined conditions such as "liability cap &lt; 50% AND Fixed price") and publish them as a new version; each contract keeps the rule set version it was assessed under.
+            </p>
+            <p className="text-slate-600 dark:text-slate-300 mt-2">
+              Every trigger carries a severity weight (1–10). The weights of the raised triggers add up to the contract's <strong>risk score</strong>, which is graded
+              Low (0–2), Medium (3–7), High (8–15) or Critical (16+). The band is shown in the Contract Register and the review sidebar, and the register can be sorted and filtered by it.
             </p>
           </div>
 
@@ -298,7 +323,8 @@ export const UserGuide: React.FC = () => {
                 <h3 className="font-bold text-slate-900 dark:text-white text-lg">Stage 1: Corporate Review</h3>
                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-2 leading-relaxed">
                   Upon submission, the contract is locked. Notifications are sent to the CFO, Legal Lead, and Function Head.
-                  All three must review. They can <strong>Request Changes</strong> (sends back to SCM) or <strong>Approve</strong>.
+                  All three review in parallel. They can <strong>Request Changes</strong> (sends back to SCM) or <strong>Approve</strong>.
+                  The contract only moves on once every required sign-off is in; the <strong>Approvals</strong> tab shows which are still outstanding.
                 </p>
               </div>
 
@@ -306,8 +332,9 @@ export const UserGuide: React.FC = () => {
                 <span className="absolute -left-[9px] top-1 w-4 h-4 bg-orange-500 rounded-full border-4 border-white dark:border-slate-800 shadow-sm"></span>
                 <h3 className="font-bold text-slate-900 dark:text-white text-lg">Stage 2: CEO Approval (High Risk Only)</h3>
                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-2 leading-relaxed">
-                  If the contract has any High Risk triggers (e.g., CAPEX &gt; $5M), it moves to the "Pending CEO" state after Corporate Review. 
-                  The CEO is the final gatekeeper.
+                  If the contract has any High Risk triggers (e.g., CAPEX &gt; $5M) or its Delegation of Authority band lists the CEO, it moves to the "Pending CEO" state after Corporate Review. 
+                  The CEO is the final gatekeeper. Low-risk contracts are approved as soon as Corporate Review completes.
+                  The derived route is shown in the <strong>Approval Route</strong> panel of each contract.
                 </p>
               </div>
                
@@ -316,6 +343,7 @@ export const UserGuide: React.FC = () => {
                 <h3 className="font-bold text-slate-900 dark:text-white text-lg">Stage 3: Approved</h3>
                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-2 leading-relaxed">
                   Once approved, the system logs the final state in the Audit Trail. No further edits are possible.
+                  Use <strong>Approval Memo (PDF)</strong> under Quick Actions to download the formal High Risk Contract Approval Memo (contract details, triggered risks, every review decision with its justification, and the saved AI analysis) for the SAP PO or the contract file.
                 </p>
               </div>
             </div>
@@ -340,6 +368,15 @@ export const UserGuide: React.FC = () => {
                 It does not mechanically advance the contract status like the CEO's approval does.
               </p>
             </div>
+
+            <p className="text-sm text-slate-600 dark:text-slate-400 mt-6">
+              Every workflow event (submission, decisions, escalation, reviewer assignment and new comments) also appears in the <strong>bell icon</strong> inbox in the header. Clicking a notification opens the contract on the relevant tab and marks it as read.
+              In the <strong>Comments</strong> tab, use <strong>Reply</strong> to keep a discussion in one thread and type <strong>@</strong> to mention a colleague; mentioned users also receive an email.
+              Comments can also be attached to a specific field (the speech-bubble icons in the Overview and Legal &amp; Risk tabs) or to a page of an attached document. These stay <strong>Open</strong> until the submitter marks them resolved, and the contract cannot be resubmitted while any remain open.
+              Each submission is stored as a read-only version. The <strong>Versions</strong> tab lists them and highlights exactly which fields changed since the version you last reviewed.
+              Every <strong>Audit Trail</strong> entry carries a hash of the entry before it and is also archived separately. The tab re-checks the chain each time it is opened and flags any entry that was edited, removed or reordered.
+              The <strong>Audit Log</strong> page in the navigation bar (for roles granted <em>View audit log</em>) shows every contract's entries together. Filter by user, action, entity, date range or words in the details, then export exactly those results as CSV or JSON.
+            </p>
           </div>
         </div>
       )
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { ContractData, RolePermissionMatrix, User } from '../types';
+import { UserDraft, getUserUpdateBlocker } from '../utils/userLifecycle';
+import { UserChangeBlockedError } from '../services/userRepository';
+import { UserDialog } from './UserDialog';
+import { UserDeletionDialog } from './UserDeletionDialog';
+import { Edit2, Trash2, Plus, Shield, CheckCircle, Power } from 'lucide-react';
+
+interface UserManagementProps {
+  currentUser: User;
+  users: User[];
+  contracts: ContractData[];
+  rolePermissions: RolePermissionMatrix;
+  onCreateUser: (draft: UserDraft, password: string) => Promise<void>;
+  onUpdateUser: (user: User, password: string) => Promise<void>; // Empty password keeps the current one
+  onDeleteUser: (user: User) => Promise<void>;
+  onReassignContract: (contract: ContractData, submitter: User) => Promise<void>;
+}
+
+export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, users, contracts, rolePermissions, onCreateUser, onUpdateUser, onDeleteUser, onReassignContract }) => {
+  const [editing, setEditing] = useState<User | 'new' | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const deleting = users.find(u => u.id === deletingId);
+
+  const toggleActiveStatus = async (user: User) => {
+    const updated = { ...user, isActive: !user.isActive };
+    const blocker = getUserUpdateBlocker(user, updated, currentUser, contracts, users, rolePermissions);
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
+    if (user.isActive && !window.confirm(`Deactivate ${user.name}? They will be signed out and can no longer sign in.`)) return;
+    try {
+      await onUpdateUser(updated, '');
+    } catch (error) {
+      if (error instanceof UserChangeBlockedError) {
+        alert(error.message);
+      } else {
+        console.error("User Store Error:", error);
+        alert("The user could not be updated. Please try again.");
+      }
+    }
+  };
+
+  const handleSave = (draft: UserDraft, password: string) =>
+    editing === 'new' || !editing
+      ? onCreateUser(draft, password)
+      : onUpdateUser({ ...editing, ...draft }, password);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between bg-slate-50 dark:bg-slate-800/50">
+        <div className="flex items-center gap-2">
+          <Shield className="text-slate-400 dark:text-slate-500" size={20} />
+          <h3 className="font-bold text-slate-800 dark:text-white">User Management</h3>
+        </div>
+        <button
+          onClick={() => setEditing('new')}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center shadow-sm font-medium transition-colors"
+        >
+          <Plus size={18} className="mr-2" /> Add User
+        </button>
+      </div>
+
+      <table className="w-full text-left border-collapse">
+        <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase font-semibold">
+          <tr>
+            <th className="px-6 py-4">Status</th>
+            <th className="px-6 py-4">Name</th>
+            <th className="px-6 py-4">Entity</th>
+            <th className="px-6 py-4">Role</th>
+            <th className="px-6 py-4 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+          {users.map(user => (
+            <tr key={user.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+              <td className="px-6 py-4">
+                <button
+                  onClick={() => toggleActiveStatus(user)}
+                  disabled={user.id === currentUser.id}
+                  className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-bold border transition-all disabled:cursor-not-allowed ${
+                    user.isActive
+                      ? 'bg-green-100 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800'
+                      : 'bg-slate-100 text-slate-500 border-slate-200 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-600'
+                  }`}
+                  title={user.id === currentUser.id ? 'You cannot deactivate your own account' : user.isActive ? 'Deactivate' : 'Activate'}
+                >
+                  {user.isActive ? <CheckCircle size={12} /> : <Power size={12} />}
+                  {user.isActive ? 'Active' : 'Inactive'}
+                </button>
+              </td>
+
+              <td className="px-6 py-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-full bg-slate-200 dark:bg-slate-600 flex items-center justify-center text-slate-600 dark:text-slate-200 font-bold text-xs">
+                    {user.name.charAt(0)}
+                  </div>
+                  <div className="flex flex-col">
+                    <span className={`font-medium ${user.isActive ? 'text-slate-900 dark:text-white' : 'text-slate-400 dark:text-slate-500'}`}>
+                      {user.name}
+                    </span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400">{user.email}</span>
+                  </div>
+                </div>
+              </td>
+
+              <td className="px-6 py-4">
+                <span className="text-sm text-slate-600 dark:text-slate-300">{user.entity}</span>
+              </td>
+
+              <td className="px-6 py-4">
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                  {user.role}
+                </span>
+              </td>
+
+              <td className="px-6 py-4 text-right flex justify-end gap-3">
+                <button onClick={() => setEditing(user)} className="text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors" title="Edit user">
+                  <Edit2 size={18} />
+                </button>
+                <button
+                  onClick={() => setDeletingId(user.id)}
+                  disabled={user.id === currentUser.id}
+                  className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={user.id === currentUser.id ? 'You cannot delete your own account' : 'Delete user'}
+                >
+                  <Trash2 size={18} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {editing && (
+        <UserDialog
+          user={editing === 'new' ? undefined : editing}
+          users={users}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {deleting && (
+        <UserDeletionDialog
+          user={deleting}
+          currentUser={currentUser}
+          users={users}
+          contracts={contracts}
+          rolePermissions={rolePermissions}
+          onReassignContract={onReassignContract}
+          onDelete={onDeleteUser}
+          onClose={() => setDeletingId(null)}
+        />
+      )}
+    </div>
+  );
+};
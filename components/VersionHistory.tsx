@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { ContractReview, ContractVersion, User } from '../types';
+import { diffSnapshots, diffWords, getBaselineVersion } from '../utils/contractVersions';
+import { GitCompare, History, ArrowRight } from 'lucide-react';
+
+interface VersionHistoryProps {
+  versions: ContractVersion[];
+  reviews: ContractReview[];
+  currentUser: User;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, reviews, currentUser }) => {
+  const latest = versions[versions.length - 1];
+  const defaultBaseline = getBaselineVersion(versions, reviews, currentUser.id);
+  const [fromId, setFromId] = useState(defaultBaseline?.id || '');
+  const [toId, setToId] = useState(latest?.id || '');
+
+  // Reset the comparison when a new version arrives or another user views the contract
+  useEffect(() => {
+    setFromId(defaultBaseline?.id || '');
+    setToId(latest?.id || '');
+  }, [latest?.id, defaultBaseline?.id]);
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-slate-400 dark:text-slate-500">
+        <History size={48} className="mb-3 opacity-60" />
+        <p className="font-medium">No submitted versions recorded yet</p>
+        <p className="text-sm">A version is stored each time the contract is submitted for review.</p>
+      </div>
+    );
+  }
+
+  const from = versions.find(v => v.id === fromId);
+  const to = versions.find(v => v.id === toId);
+  const changes = from && to ? diffSnapshots(from.data, to.data) : [];
+  const lastReviewedByMe = defaultBaseline && reviews.some(r => r.reviewerId === currentUser.id) && defaultBaseline.id === fromId;
+
+  const versionLabel = (v: ContractVersion) =>
+    `v${v.version} - ${new Date(v.submittedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} by ${v.submittedByName}`;
+  const selectClass = "border border-slate-300 dark:border-slate-600 rounded px-2 py-1.5 text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white";
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Submission history */}
+      <div>
+        <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-3 flex items-center gap-2">
+          <History size={20} /> Submissions
+        </h3>
+        <ol className="space-y-2">
+          {[...versions].reverse().map(v => (
+            <li key={v.id} className="flex items-center justify-between px-4 py-2 rounded border border-slate-200 dark:border-slate-700 text-sm">
+              <span className="font-bold text-slate-800 dark:text-white">Version {v.version}</span>
+              <span className="text-slate-500 dark:text-slate-400">
+                {new Date(v.submittedAt).toLocaleString()} by {v.submittedByName} • ${v.data.amount.toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Field-level diff */}
+      {versions.length > 1 && (
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-1 flex items-center gap-2">
+            <GitCompare size={20} /> Compare Versions
+          </h3>
+          {lastReviewedByMe && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">Showing what changed since the version you last reviewed.</p>
+          )}
+          <div className="flex items-center gap-2 mb-4 flex-wrap">
+            <select className={selectClass} value={fromId} onChange={e => setFromId(e.target.value)}>
+              {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+            </select>
+            <ArrowRight size={16} className="text-slate-400" />
+            <select className={selectClass} value={toId} onChange={e => setToId(e.target.value)}>
+              {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+            </select>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-slate-500 italic">No field changes between these versions.</p>
+          ) : (
+            <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 text-xs uppercase">
+                  <tr>
+                    <th className="px-4 py-2 text-left w-48">Field</th>
+                    <th className="px-4 py-2 text-left">v{from?.version}</th>
+                    <th className="px-4 py-2 text-left">v{to?.version}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {changes.map(change => (
+                    <tr key={change.field} className="align-top">
+                      <td className="px-4 py-3 font-semibold text-slate-700 dark:text-slate-300">{change.label}</td>
+                      {change.isText ? (
+                        <td colSpan={2} className="px-4 py-3 text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed">
+                          {diffWords(change.before, change.after).map((part, i) => (
+                            <span
+                              key={i}
+                              className={
+                                part.change === 'added' ? 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200' :
+                                part.change === 'removed' ? 'bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-200' : ''
+                              }
+                            >
+                              {part.text}
+                            </span>
+                          ))}
+                        </td>
+                      ) : (
+                        <>
+                          <td className="px-4 py-3 text-red-700 dark:text-red-300">{change.before || <span className="italic text-slate-400">empty</span>}</td>
+                          <td className="px-4 py-3 text-green-700 dark:text-green-300 font-medium">{change.after || <span className="italic text-slate-400">empty</span>}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,108 @@
 
-import { User, UserRole, Entity, ContractStatus, RiskCategory, ContractData } from './types';
+import { User, UserRole, Entity, ContractStatus, RiskCategory, RiskBand, ContractData, DoaRule, RiskTrigger, RiskTriggerRule, RiskRuleSet, Permission, RolePermissionMatrix, SlaPolicy } from './types';
+import { findMatchingDoaRules, getDoaTriggerIds } from './utils/doaMatrix';
+import { calculateRiskScore, getRiskBand } from './utils/riskScore';
+import { buildAuditTrail } from './utils/auditChain';
 
 export const MOCK_USERS: User[] = [
-  { id: 'u1', name: 'Sarah SCM', role: UserRole.SCM, entity: Entity.BRAZIL, isActive: true },
-  { id: 'u2', name: 'Charles CFO', role: UserRole.CORPORATE_CFO, entity: Entity.LONDON, isActive: true },
-  { id: 'u3', name: 'Larry Legal', role: UserRole.CORPORATE_LEGAL, entity: Entity.LONDON, isActive: true },
-  { id: 'u4', name: 'Fiona Function', role: UserRole.CORPORATE_FUNCTION, entity: Entity.CONGO, isActive: true },
-  { id: 'u5', name: 'Chief CEO', role: UserRole.CEO, entity: Entity.LONDON, isActive: true },
-  { id: 'u6', name: 'Adam Admin', role: UserRole.ADMIN, entity: Entity.LONDON, isActive: true },
+  { id: 'u1', name: 'Sarah SCM', email: 'sarah.scm@trident-energy.com', role: UserRole.SCM, entity: Entity.BRAZIL, isActive: true },
+  { id: 'u2', name: 'Charles CFO', email: 'charles.cfo@trident-energy.com', role: UserRole.CORPORATE_CFO, entity: Entity.LONDON, isActive: true },
+  { id: 'u3', name: 'Larry Legal', email: 'larry.legal@trident-energy.com', role: UserRole.CORPORATE_LEGAL, entity: Entity.LONDON, isActive: true },
+  { id: 'u4', name: 'Fiona Function', email: 'fiona.function@trident-energy.com', role: UserRole.CORPORATE_FUNCTION, entity: Entity.CONGO, isActive: true },
+  { id: 'u5', name: 'Chief CEO', email: 'ceo@trident-energy.com', role: UserRole.CEO, entity: Entity.LONDON, isActive: true },
+  { id: 'u6', name: 'Adam Admin', email: 'adam.admin@trident-energy.com', role: UserRole.ADMIN, entity: Entity.LONDON, isActive: true },
   // Additional Ad Hoc Reviewers
-  { id: 'u7', name: 'Eric Engineering', role: UserRole.ENGINEERING, entity: Entity.BRAZIL, isActive: true },
-  { id: 'u8', name: 'Helen HSE', role: UserRole.HSE, entity: Entity.BRAZIL, isActive: true },
-  { id: 'u9', name: 'Ian IT', role: UserRole.CORPORATE_FUNCTION, entity: Entity.LONDON, isActive: true },
+  { id: 'u7', name: 'Eric Engineering', email: 'eric.engineering@trident-energy.com', role: UserRole.ENGINEERING, entity: Entity.BRAZIL, isActive: true },
+  { id: 'u8', name: 'Helen HSE', email: 'helen.hse@trident-energy.com', role: UserRole.HSE, entity: Entity.BRAZIL, isActive: true },
+  { id: 'u9', name: 'Ian IT', email: 'ian.it@trident-energy.com', role: UserRole.CORPORATE_FUNCTION, entity: Entity.LONDON, isActive: true },
 ];
 
-export const INITIAL_TRIGGERS = [
+// Default risk trigger rules (rule set version 1). Legal can publish new
+// versions from Admin Settings; contracts keep the version they were assessed under.
+export const DEFAULT_RISK_RULES: RiskTriggerRule[] = [
   // Auto-detected
-  { id: 't1', category: RiskCategory.FINANCIAL, description: 'OPEX > USD 1M', triggered: false },
-  { id: 't2', category: RiskCategory.FINANCIAL, description: 'CAPEX > USD 5M', triggered: false },
-  { id: 't3', category: RiskCategory.LEGAL, description: 'Liability cap < 100% contract value', triggered: false },
-  { id: 't4', category: RiskCategory.OPERATIONAL, description: 'Contract > 3 years fixed', triggered: false },
-  { id: 't5', category: RiskCategory.THIRD_PARTY, description: 'Subcontracting > 30% of scope', triggered: false },
+  { id: 't1', category: RiskCategory.FINANCIAL, description: 'OPEX > USD 1M', mode: 'doa', conditions: [], weight: 6 },
+  { id: 't2', category: RiskCategory.FINANCIAL, description: 'CAPEX > USD 5M', mode: 'doa', conditions: [], weight: 8 },
+  { id: 't3', category: RiskCategory.LEGAL, description: 'Liability cap < 100% contract value', mode: 'auto', conditions: [{ field: 'liabilityCapPercent', operator: '<', value: 100 }], weight: 5 },
+  { id: 't4', category: RiskCategory.OPERATIONAL, description: 'Contract > 3 years fixed', mode: 'auto', conditions: [{ field: 'durationYears', operator: '>', value: 3 }], weight: 3 },
+  { id: 't5', category: RiskCategory.THIRD_PARTY, description: 'Subcontracting > 30% of scope', mode: 'auto', conditions: [{ field: 'subcontractingPercent', operator: '>', value: 30 }], weight: 4 },
   
   // Manual / Checklist
-  { id: 't6', category: RiskCategory.THIRD_PARTY, description: 'Sole Source Supplier', triggered: false },
-  { id: 't7', category: RiskCategory.ENVIRONMENTAL, description: 'Work involving hazardous materials', triggered: false },
-  { id: 't8', category: RiskCategory.OPERATIONAL, description: 'Work in conflict zone / high security risk', triggered: false },
-  { id: 't9', category: RiskCategory.LEGAL, description: 'High risk of IP infringement', triggered: false },
-  { id: 't10', category: RiskCategory.FINANCIAL, description: 'Payment terms deviate from standard policy', triggered: false },
-  { id: 't11', category: RiskCategory.ENVIRONMENTAL, description: 'Significant environmental impact potential', triggered: false },
+  { id: 't6', category: RiskCategory.THIRD_PARTY, description: 'Sole Source Supplier', mode: 'manual', conditions: [], weight: 3 },
+  { id: 't7', category: RiskCategory.ENVIRONMENTAL, description: 'Work involving hazardous materials', mode: 'manual', conditions: [], weight: 6 },
+  { id: 't8', category: RiskCategory.OPERATIONAL, description: 'Work in conflict zone / high security risk', mode: 'manual', conditions: [], weight: 8 },
+  { id: 't9', category: RiskCategory.LEGAL, description: 'High risk of IP infringement', mode: 'manual', conditions: [], weight: 4 },
+  { id: 't10', category: RiskCategory.FINANCIAL, description: 'Payment terms deviate from standard policy', mode: 'manual', conditions: [], weight: 2 },
+  { id: 't11', category: RiskCategory.ENVIRONMENTAL, description: 'Significant environmental impact potential', mode: 'manual', conditions: [], weight: 6 },
 ];
 
+export const DEFAULT_RISK_RULE_SET: RiskRuleSet = {
+  version: 1,
+  rules: DEFAULT_RISK_RULES,
+  publishedAt: 0,
+};
+
+export const INITIAL_TRIGGERS: RiskTrigger[] = DEFAULT_RISK_RULES.map(({ id, category, description, mode, weight }) => ({
+  id, category, description, triggered: false, isAuto: mode !== 'manual', weight
+}));
+
+const CORPORATE_ROLES = [UserRole.CORPORATE_CFO, UserRole.CORPORATE_LEGAL, UserRole.CORPORATE_FUNCTION];
+
+// Corporate review stage: every required role reviews in parallel and the
+// contract only advances once `quorum` of them have approved. `requiredRoles`
+// applies when no DoA band matches the contract.
+export const CORPORATE_REVIEW_CONFIG: { requiredRoles: UserRole[]; quorum: number } = {
+  requiredRoles: CORPORATE_ROLES,
+  quorum: 3,
+};
+
+// Default Delegation of Authority matrix (editable in Admin Settings).
+// Bands that list the CEO escalate the contract beyond corporate review.
+export const DEFAULT_DOA_MATRIX: DoaRule[] = [
+  { id: 'doa1', entity: 'ALL', contractTypes: ['OPEX', 'MIXED'], minAmountUsd: 0, maxAmountUsd: 1000000, approverRoles: CORPORATE_ROLES },
+  { id: 'doa2', entity: 'ALL', contractTypes: ['OPEX', 'MIXED'], minAmountUsd: 1000000, approverRoles: [...CORPORATE_ROLES, UserRole.CEO], riskTriggerId: 't1' },
+  { id: 'doa3', entity: 'ALL', contractTypes: ['CAPEX', 'MIXED'], minAmountUsd: 0, maxAmountUsd: 5000000, approverRoles: CORPORATE_ROLES },
+  { id: 'doa4', entity: 'ALL', contractTypes: ['CAPEX', 'MIXED'], minAmountUsd: 5000000, approverRoles: [...CORPORATE_ROLES, UserRole.CEO], riskTriggerId: 't2' },
+];
+
+// Default turnaround targets (editable in Admin Settings), in calendar days
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  stageTargetDays: {
+    [ContractStatus.SUBMITTED]: 5,
+    [ContractStatus.PENDING_CEO]: 3,
+  },
+  reviewerTargetDays: 3,
+  reminderLeadDays: 1,
+  autoEscalate: true,
+  escalationRoles: [UserRole.CEO, UserRole.ADMIN],
+};
+
+// Permission registry shown in the Admin Settings permission matrix
+export const PERMISSION_DEFINITIONS: { permission: Permission; label: string; description: string }[] = [
+  { permission: Permission.CONTRACT_CREATE, label: 'Create contracts', description: 'Start new submissions' },
+  { permission: Permission.CONTRACT_EDIT, label: 'Edit contracts', description: 'Edit drafts and contracts returned for changes' },
+  { permission: Permission.CONTRACT_IMPORT, label: 'Import contracts', description: 'Import legacy registers as drafts' },
+  { permission: Permission.CONTRACT_IMPORT_APPROVED, label: 'Import approved records', description: 'Import historical contracts as already approved' },
+  { permission: Permission.CONTRACT_APPROVE_CORPORATE, label: 'Corporate sign-off', description: 'Approve at the corporate stage when the DoA matrix requires the role' },
+  { permission: Permission.CONTRACT_APPROVE_FINAL, label: 'Final approval', description: 'Approve contracts escalated beyond corporate review' },
+  { permission: Permission.REVIEWER_ADD, label: 'Add reviewers', description: 'Invite ad hoc reviewers to any contract (submitters can always invite)' },
+  { permission: Permission.AI_RUN, label: 'Use AI assistant', description: 'Run the AI risk analysis and contract chat' },
+  { permission: Permission.AUDIT_VIEW, label: 'View audit log', description: 'Search and export the audit entries of every contract the user can see' },
+  { permission: Permission.ADMIN_USERS, label: 'Manage users', description: 'Edit user roles, entities and status' },
+  { permission: Permission.ADMIN_SETTINGS, label: 'Manage settings', description: 'Edit risk rules, the DoA matrix, SLA targets and this permission matrix' },
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissionMatrix = {
+  [UserRole.SCM]: [Permission.CONTRACT_CREATE, Permission.CONTRACT_EDIT, Permission.CONTRACT_IMPORT, Permission.AI_RUN],
+  [UserRole.CORPORATE_CFO]: [Permission.CONTRACT_APPROVE_CORPORATE, Permission.REVIEWER_ADD, Permission.AI_RUN, Permission.AUDIT_VIEW],
+  [UserRole.CORPORATE_LEGAL]: [Permission.CONTRACT_APPROVE_CORPORATE, Permission.REVIEWER_ADD, Permission.AI_RUN, Permission.AUDIT_VIEW],
+  [UserRole.CORPORATE_FUNCTION]: [Permission.CONTRACT_APPROVE_CORPORATE, Permission.REVIEWER_ADD, Permission.AI_RUN, Permission.AUDIT_VIEW],
+  [UserRole.CEO]: [Permission.CONTRACT_APPROVE_FINAL, Permission.REVIEWER_ADD, Permission.AI_RUN, Permission.AUDIT_VIEW],
+  [UserRole.ADMIN]: [Permission.CONTRACT_EDIT, Permission.CONTRACT_IMPORT, Permission.CONTRACT_IMPORT_APPROVED, Permission.AI_RUN, Permission.AUDIT_VIEW, Permission.ADMIN_USERS, Permission.ADMIN_SETTINGS],
+  [UserRole.ENGINEERING]: [Permission.AI_RUN],
+  [UserRole.HSE]: [Permission.AI_RUN],
+};
+
 export const EXCHANGE_RATES: Record<string, number> = {
   'USD': 1.0,
   'BRL': 0.20, // 1 BRL = 0.20 USD
@@ -42,18 +114,19 @@ const createMockContract = (id: string, entity: Entity, status: ContractStatus,
   // Determine type: For mock purposes, large contracts are CAPEX, small are OPEX
   const contractType = amount > 5000000 ? 'CAPEX' : 'OPEX';
   
-  const detectedTriggers = [];
-  
-  // Apply correct risk logic based on type
-  if (contractType === 'OPEX' && amount > 1000000) {
-    detectedTriggers.push({ id: 't1', category: RiskCategory.FINANCIAL, description: 'OPEX > USD 1M', triggered: true });
-  }
-  
-  if (contractType === 'CAPEX' && amount > 5000000) {
-    detectedTriggers.push({ id: 't2', category: RiskCategory.FINANCIAL, description: 'CAPEX > USD 5M', triggered: true });
-  }
+  // Apply the DoA financial thresholds for the contract's band
+  const triggerIds = getDoaTriggerIds(findMatchingDoaRules(DEFAULT_DOA_MATRIX, { entity, contractType, amount }));
+  const detectedTriggers = INITIAL_TRIGGERS
+    .filter(t => triggerIds.includes(t.id))
+    .map(t => ({ ...t, triggered: true }));
   
   const isHighRisk = detectedTriggers.length > 0;
+  const riskScore = calculateRiskScore(detectedTriggers);
+
+  // Contracts past the corporate stage have all corporate sign-offs
+  const corporateApprovals = status === ContractStatus.PENDING_CEO || status === ContractStatus.APPROVED
+    ? { cfo: true, legal: true, functionHead: true }
+    : {};
 
   return {
     id,
@@ -89,14 +162,15 @@ const createMockContract = (id: string, entity: Entity, status: ContractStatus,
     submissionDate: Date.now() - Math.random() * 1000000000,
     detectedTriggers,
     isHighRisk,
+    riskScore,
+    riskBand: getRiskBand(riskScore),
     auditTrail: [],
     comments: [],
-    hasUnreadComments: false,
     reviews: [],
     adHocReviewers: [],
     documents: [],
     aiRiskAnalysis: undefined,
-    corporateApprovals: {},
+    corporateApprovals,
     // Default DDQ for mocks
     ddqNumber: 'REEU3P-12345',
     ddqDate: '2023-06-15',
@@ -140,19 +214,21 @@ export const MOCK_CONTRACTS: ContractData[] = [
     submitterId: 'u1',
     submissionDate: Date.now() - 172800000,
     detectedTriggers: [
-        { id: 't2', category: RiskCategory.FINANCIAL, description: 'CAPEX > USD 5M', triggered: true }
+        { id: 't2', category: RiskCategory.FINANCIAL, description: 'CAPEX > USD 5M', triggered: true, isAuto: true, weight: 8 }
     ],
     isHighRisk: true,
-    auditTrail: [
-      { id: 'a1', timestamp: Date.now() - 172800000, userId: 'u1', userName: 'Sarah SCM', action: 'Submitted Contract' },
-      { id: 'a2', timestamp: Date.now() - 86400000, userId: 'u2', userName: 'Charles CFO', action: 'Approved', details: 'Budget approved.' },
-      { id: 'a3', timestamp: Date.now() - 85000000, userId: 'u3', userName: 'Larry Legal', action: 'Approved', details: 'Legal terms standard.' }
-    ],
+    riskScore: 8,
+    riskBand: RiskBand.HIGH,
+    auditTrail: buildAuditTrail([
+      { timestamp: Date.now() - 172800000, userId: 'u1', userName: 'Sarah SCM', action: 'Submitted Contract' },
+      { timestamp: Date.now() - 86400000, userId: 'u2', userName: 'Charles CFO', action: 'Approved', details: 'Budget approved.' },
+      { timestamp: Date.now() - 85000000, userId: 'u3', userName: 'Larry Legal', action: 'Approved', details: 'Legal terms standard.' }
+    ]),
     comments: [
-      { id: 'c1', userId: 'u2', userName: 'Charles CFO', role: UserRole.CORPORATE_CFO, text: 'Please clarify the payment terms on page 12.', timestamp: Date.now() - 100000000 },
+      { id: 'c1', userId: 'u2', userName: 'Charles CFO', role: UserRole.CORPORATE_CFO, text: 'Please clarify the payment terms on page 12.', timestamp: Date.now() - 100000000, anchor: { type: 'document', documentId: 'd1', page: 12 }, resolvedAt: Date.now() - 90000000, resolvedBy: 'Sarah SCM' },
       { id: 'c2', userId: 'u1', userName: 'Sarah SCM', role: UserRole.SCM, text: 'Updated to standard 30 days net.', timestamp: Date.now() - 90000000 }
     ],
-    hasUnreadComments: true,
+    commentReadMarkers: { u1: Date.now() - 90000000, u2: Date.now() - 100000000 }, // Charles CFO has not read Sarah's reply yet
     reviews: [
       { id: 'r1', reviewerId: 'u2', reviewerName: 'Charles CFO', role: UserRole.CORPORATE_CFO, decision: 'Approved', comment: 'Budget approved.', timestamp: Date.now() - 86400000 },
       { id: 'r2', reviewerId: 'u3', reviewerName: 'Larry Legal', role: UserRole.CORPORATE_LEGAL, decision: 'Approved', comment: 'Legal terms standard.', timestamp: Date.now() - 85000000 }
@@ -202,11 +278,12 @@ export const MOCK_CONTRACTS: ContractData[] = [
     submissionDate: Date.now() - 3600000,
     detectedTriggers: [],
     isHighRisk: false,
-    auditTrail: [
-      { id: 'a4', timestamp: Date.now() - 3600000, userId: 'u1', userName: 'Sarah SCM', action: 'Submitted Contract' }
-    ],
+    riskScore: 0,
+    riskBand: RiskBand.LOW,
+    auditTrail: buildAuditTrail([
+      { timestamp: Date.now() - 3600000, userId: 'u1', userName: 'Sarah SCM', action: 'Submitted Contract' }
+    ]),
     comments: [],
-    hasUnreadComments: false,
     reviews: [],
     adHocReviewers: [],
     documents: [],
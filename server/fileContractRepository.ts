@@ -0,0 +1,67 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { ContractData } from '../types';
+import { ContractRepository, ContractNotFoundError, ContractAlreadyExistsError } from '../services/contractRepository';
+
+// Stores all contracts in a single JSON file. Writes go to a temp file and are
+// renamed into place so a crash mid-write never leaves a truncated store.
+export const createFileContractRepository = (filePath: string): ContractRepository => {
+  // Serialise all operations so concurrent requests cannot interleave read/modify/write.
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(op: () => Promise<T>): Promise<T> => {
+    const next = queue.then(op, op);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const load = async (): Promise<ContractData[]> => {
+    try {
+      const raw = await readFile(filePath, 'utf-8');
+      return JSON.parse(raw) as ContractData[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const save = async (contracts: ContractData[]) => {
+    await mkdir(dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(contracts, null, 2), 'utf-8');
+    await rename(tmpPath, filePath);
+  };
+
+  return {
+    list: () => enqueue(load),
+
+    get: (id) => enqueue(async () => (await load()).find(c => c.id === id)),
+
+    create: (contract) => enqueue(async () => {
+      const contracts = await load();
+      if (contracts.some(c => c.id === contract.id)) throw new ContractAlreadyExistsError(contract.id);
+      await save([...contracts, contract]);
+      return contract;
+    }),
+
+    update: (contract) => enqueue(async () => {
+      const contracts = await load();
+      if (!contracts.some(c => c.id === contract.id)) throw new ContractNotFoundError(contract.id);
+      await save(contracts.map(c => c.id === contract.id ? contract : c));
+      return contract;
+    }),
+
+    modify: (id, change) => enqueue(async () => {
+      const contracts = await load();
+      const existing = contracts.find(c => c.id === id);
+      if (!existing) throw new ContractNotFoundError(id);
+      const updated = change(existing);
+      await save(contracts.map(c => c.id === id ? updated : c));
+      return updated;
+    }),
+
+    delete: (id) => enqueue(async () => {
+      const contracts = await load();
+      await save(contracts.filter(c => c.id !== id));
+    }),
+  };
+};
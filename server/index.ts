@@ -0,0 +1,167 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createFileContractRepository } from './fileContractRepository';
+import { createSmtpTransport } from './smtpTransport';
+import { createServerAuth } from './serverAuth';
+import { seedRepository, ContractNotFoundError, ContractAlreadyExistsError, ContractAccessDeniedError } from '../services/contractRepository';
+import { createScopedContractRepository } from '../services/scopedContractRepository';
+import { AuthenticationError } from '../services/authService';
+import { normalizeUsername } from '../services/credentialRepository';
+import { MOCK_CONTRACTS, MOCK_USERS } from '../constants';
+import { NotificationDeliveryError, EmailMessage, formatRecipients } from '../services/notificationTransport';
+import { ContractData, User } from '../types';
+
+// Local API server backed by JSON files. Contract requests need a session
+// (POST /api/sessions) and only reach the contracts the user may access.
+// Usage: npm run server [-- --seed]
+// (env: HOST, PORT, APP_ORIGIN, CONTRACTS_FILE, USERS_FILE, CREDENTIALS_FILE, SESSIONS_FILE,
+//  DEMO_PASSWORD, SMTP_*)
+
+// Local only unless HOST is set, e.g. HOST=0.0.0.0
+const HOST = process.env.HOST || '127.0.0.1';
+const PORT = Number(process.env.PORT) || 4000;
+// The only browser origin allowed to call the API (the Vite dev server by default)
+const APP_ORIGIN = process.env.APP_ORIGIN || 'http://localhost:5173';
+const CONTRACTS_FILE = process.env.CONTRACTS_FILE || 'data/contracts.json';
+
+const repository = createFileContractRepository(CONTRACTS_FILE);
+
+const auth = createServerAuth({
+  usersFile: process.env.USERS_FILE || 'data/users.json',
+  credentialsFile: process.env.CREDENTIALS_FILE || 'data/credentials.json',
+  sessionsFile: process.env.SESSIONS_FILE || 'data/sessions.json',
+});
+
+// Defaults match a local MailHog instance (SMTP on 1025, web UI on 8025)
+const mailTransport = createSmtpTransport({
+  host: process.env.SMTP_HOST || 'localhost',
+  port: Number(process.env.SMTP_PORT) || 1025,
+  from: process.env.SMTP_FROM || 'Contract Guard <no-reply@trident-energy.com>',
+  secure: process.env.SMTP_SECURE === 'true',
+  username: process.env.SMTP_USER,
+  password: process.env.SMTP_PASSWORD,
+});
+
+const readJsonBody = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as T;
+};
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': APP_ORIGIN,
+    'Vary': 'Origin',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+// Sign in with a password (POST) or end the current session (DELETE)
+const handleSessions = async (req: IncomingMessage, res: ServerResponse) => {
+  switch (req.method) {
+    case 'POST': {
+      const { username, password } = await readJsonBody<{ username?: string; password?: string }>(req);
+      if (!username || !password) return sendJson(res, 400, { error: 'username and password are required' });
+      return sendJson(res, 201, await auth.login(username, password));
+    }
+
+    case 'DELETE':
+      await auth.logout(req);
+      return sendJson(res, 204);
+
+    default:
+      return sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+  }
+};
+
+// Delegations live in the browser, so delegates only reach their own scope here
+const handleContracts = async (req: IncomingMessage, res: ServerResponse, user: User, id?: string) => {
+  const contracts = createScopedContractRepository(repository, user);
+  switch (req.method) {
+    case 'GET': {
+      if (!id) return sendJson(res, 200, await contracts.list());
+      const contract = await contracts.get(id);
+      return contract ? sendJson(res, 200, contract) : sendJson(res, 404, { error: `Contract ${id} does not exist` });
+    }
+
+    case 'POST':
+      return sendJson(res, 201, await contracts.create(await readJsonBody<ContractData>(req)));
+
+    case 'PUT': {
+      const body = await readJsonBody<ContractData>(req);
+      return sendJson(res, 200, await contracts.update({ ...body, id: id || body.id }));
+    }
+
+    case 'DELETE':
+      if (!id) return sendJson(res, 405, { error: 'Contract id required' });
+      await contracts.delete(id);
+      return sendJson(res, 204);
+
+    default:
+      return sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+  }
+};
+
+// Relay for the browser outbox; the outbox handles retries, so this makes a single attempt.
+// Callers need a session (POST /api/sessions) and may only mail active directory users.
+const handleNotifications = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'POST') return sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+  // Retryable: the message goes through once the sender has signed in to the server
+  if (!await auth.authenticate(req)) return sendJson(res, 401, { error: 'Sign in required', retryable: true });
+  const message = await readJsonBody<EmailMessage>(req);
+  if (!Array.isArray(message.to) || message.to.length === 0 || !message.subject || !message.text) {
+    return sendJson(res, 400, { error: 'Message requires to, subject and text' });
+  }
+
+  const directory = new Set((await auth.listUsers()).filter(u => u.isActive).map(u => normalizeUsername(u.email)));
+  const unknown = message.to.filter(r => !r.email || !directory.has(normalizeUsername(r.email)));
+  if (unknown.length > 0) {
+    return sendJson(res, 400, { error: `Not active users in the directory: ${formatRecipients(unknown)}`, retryable: false });
+  }
+  await mailTransport.send(message);
+  return sendJson(res, 202, { status: 'sent' });
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return sendJson(res, 204);
+
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/api\/contracts(?:\/([^/]+))?\/?$/);
+
+  try {
+    if (url.pathname.replace(/\/$/, '') === '/api/sessions') return await handleSessions(req, res);
+    if (match) {
+      const user = await auth.authenticate(req);
+      if (!user) return sendJson(res, 401, { error: 'Sign in required' });
+      return await handleContracts(req, res, user, match[1] && decodeURIComponent(match[1]));
+    }
+    if (url.pathname.replace(/\/$/, '') === '/api/notifications') return await handleNotifications(req, res);
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (error) {
+    if (error instanceof ContractNotFoundError) return sendJson(res, 404, { error: error.message });
+    if (error instanceof ContractAlreadyExistsError) return sendJson(res, 409, { error: error.message });
+    if (error instanceof ContractAccessDeniedError) return sendJson(res, 403, { error: error.message });
+    if (error instanceof AuthenticationError) return sendJson(res, 401, { error: error.message });
+    if (error instanceof SyntaxError) return sendJson(res, 400, { error: 'Invalid JSON body' });
+    if (error instanceof NotificationDeliveryError) {
+      console.error('Mail Delivery Error:', error.message);
+      return sendJson(res, 502, { error: error.message, retryable: error.retryable });
+    }
+    console.error('Server Error:', error);
+    sendJson(res, 500, { error: 'Internal server error' });
+  }
+});
+
+const start = async () => {
+  if (process.argv.includes('--seed')) {
+    const seeded = await seedRepository(repository, MOCK_CONTRACTS);
+    console.log(seeded ? `Seeded ${MOCK_CONTRACTS.length} mock contracts` : 'Store not empty, skipping seed');
+    const { users, credentials } = await auth.seed(MOCK_USERS, process.env.DEMO_PASSWORD);
+    console.log(`Seeded ${users} users and ${credentials} passwords${process.env.DEMO_PASSWORD ? '' : ' (set DEMO_PASSWORD to seed passwords)'}`);
+  }
+  server.listen(PORT, HOST, () => console.log(`Contract Guard API listening on http://${HOST}:${PORT} (store: ${CONTRACTS_FILE}, origin: ${APP_ORIGIN})`));
+};
+
+start();
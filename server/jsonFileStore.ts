@@ -0,0 +1,59 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// A list of records kept in one JSON file, written the same way as
+// fileContractRepository: operations are serialised and each write goes to a
+// temp file that is renamed into place.
+export interface JsonFileStore<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  deleteWhere(match: (record: T) => boolean): Promise<void>;
+}
+
+export const createJsonFileStore = <T extends { id: string }>(filePath: string): JsonFileStore<T> => {
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <R>(op: () => Promise<R>): Promise<R> => {
+    const next = queue.then(op, op);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const load = async (): Promise<T[]> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf-8')) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const save = async (records: T[]) => {
+    await mkdir(dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(records, null, 2), 'utf-8');
+    await rename(tmpPath, filePath);
+  };
+
+  return {
+    list: () => enqueue(load),
+
+    get: (id) => enqueue(async () => (await load()).find(r => r.id === id)),
+
+    put: (record) => enqueue(async () => {
+      const records = await load();
+      await save(records.some(r => r.id === record.id) ? records.map(r => r.id === record.id ? record : r) : [...records, record]);
+    }),
+
+    delete: (id) => enqueue(async () => {
+      await save((await load()).filter(r => r.id !== id));
+    }),
+
+    deleteWhere: (match) => enqueue(async () => {
+      const records = await load();
+      const kept = records.filter(r => !match(r));
+      if (kept.length < records.length) await save(kept);
+    }),
+  };
+};
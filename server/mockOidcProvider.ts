@@ -0,0 +1,170 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+import { MOCK_USERS } from '../constants';
+
+// Local OpenID Connect provider for developing and testing SSO sign-in.
+// Authorization code flow with PKCE; the "login" page just lists the mock users.
+// Usage: npm run mock-idp   (env: MOCK_IDP_PORT, MOCK_IDP_ISSUER)
+// Keys are generated at startup, so tokens do not survive a restart.
+
+const PORT = Number(process.env.MOCK_IDP_PORT) || 4001;
+const ISSUER = (process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`).replace(/\/$/, '');
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = randomBytes(8).toString('hex');
+
+interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  nonce?: string;
+  codeChallenge: string;
+}
+
+// Issued codes, single use
+const codes = new Map<string, AuthorizationRequest & { userId: string; expiresAt: number }>();
+
+const base64Url = (data: Buffer | string) => Buffer.from(data).toString('base64url');
+
+const signIdToken = (claims: Record<string, unknown>) => {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64Url(JSON.stringify(claims));
+  return `${header}.${payload}.${base64Url(sign('sha256', Buffer.from(`${header}.${payload}`), privateKey))}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch] as string));
+
+const readForm = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf-8'));
+};
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const parseAuthorizationRequest = (params: URLSearchParams): AuthorizationRequest | string => {
+  if (params.get('response_type') !== 'code') return 'response_type must be "code"';
+  if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) return 'PKCE with S256 is required';
+  const clientId = params.get('client_id');
+  const redirectUri = params.get('redirect_uri');
+  const state = params.get('state');
+  if (!clientId || !redirectUri || !state) return 'client_id, redirect_uri and state are required';
+  return { clientId, redirectUri, state, nonce: params.get('nonce') || undefined, codeChallenge: params.get('code_challenge')! };
+};
+
+// The form re-posts the original authorization parameters together with the chosen user
+const renderLoginPage = (request: AuthorizationRequest, params: URLSearchParams) => {
+  const hidden = ['response_type', 'client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .filter(name => params.has(name))
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name)!)}">`)
+    .join('');
+  const options = MOCK_USERS.map(u =>
+    `<button name="userId" value="${escapeHtml(u.id)}">${escapeHtml(u.name)} <small>${escapeHtml(u.email)} &middot; ${escapeHtml(u.role)} &middot; ${escapeHtml(u.entity)}${u.isActive ? '' : ' (inactive)'}</small></button>`
+  ).join('');
+  return `<!doctype html><html><head><meta charset="utf-8"><title>Mock Identity Provider</title>
+<style>body{font-family:sans-serif;max-width:480px;margin:48px auto;color:#1e293b}button{display:block;width:100%;text-align:left;padding:10px 12px;margin:6px 0;border:1px solid #cbd5e1;border-radius:6px;background:#fff;cursor:pointer}button:hover{background:#f1f5f9}small{display:block;color:#64748b}</style>
+</head><body><h2>Mock Identity Provider</h2><p>Sign in to <strong>${escapeHtml(request.clientId)}</strong> as:</p>
+<form method="post" action="/authorize">${hidden}${options}</form></body></html>`;
+};
+
+const redirectWith = (res: ServerResponse, redirectUri: string, params: Record<string, string>) => {
+  const url = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+};
+
+const handleAuthorize = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const params = req.method === 'POST' ? await readForm(req) : url.searchParams;
+  const request = parseAuthorizationRequest(params);
+  if (typeof request === 'string') return sendJson(res, 400, { error: 'invalid_request', error_description: request });
+
+  if (req.method !== 'POST') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end(renderLoginPage(request, params));
+  }
+
+  const user = MOCK_USERS.find(u => u.id === params.get('userId'));
+  if (!user) return redirectWith(res, request.redirectUri, { error: 'access_denied', state: request.state });
+  const code = randomBytes(24).toString('base64url');
+  codes.set(code, { ...request, userId: user.id, expiresAt: Date.now() + CODE_TTL_MS });
+  redirectWith(res, request.redirectUri, { code, state: request.state });
+};
+
+const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'POST') return sendJson(res, 405, { error: 'invalid_request' });
+  const form = await readForm(req);
+  const code = form.get('code') || '';
+  const grant = codes.get(code);
+  codes.delete(code);
+
+  if (form.get('grant_type') !== 'authorization_code') return sendJson(res, 400, { error: 'unsupported_grant_type' });
+  if (!grant || grant.expiresAt < Date.now()) return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown or expired code' });
+  if (form.get('client_id') !== grant.clientId || form.get('redirect_uri') !== grant.redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'client_id or redirect_uri does not match the authorization request' });
+  }
+  const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+  if (challenge !== grant.codeChallenge) return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+
+  const user = MOCK_USERS.find(u => u.id === grant.userId)!;
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    iss: ISSUER,
+    sub: user.id,
+    aud: grant.clientId,
+    iat: now,
+    exp: now + ID_TOKEN_TTL_SECONDS,
+    nonce: grant.nonce,
+    email: user.email,
+    email_verified: true,
+    name: user.name,
+  });
+  sendJson(res, 200, { access_token: randomBytes(24).toString('base64url'), token_type: 'Bearer', expires_in: ID_TOKEN_TTL_SECONDS, id_token: idToken });
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return sendJson(res, 204);
+  const url = new URL(req.url || '/', ISSUER);
+
+  try {
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+          scopes_supported: ['openid', 'profile', 'email'],
+        });
+      case '/jwks':
+        return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+      case '/authorize':
+        return await handleAuthorize(req, res, url);
+      case '/token':
+        return await handleToken(req, res);
+      default:
+        return sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    console.error('Mock IdP Error:', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => console.log(`Mock OIDC provider listening on ${ISSUER}`));
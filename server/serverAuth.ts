@@ -0,0 +1,101 @@
+import { IncomingMessage } from 'node:http';
+import { createJsonFileStore } from './jsonFileStore';
+import { createAuthService } from '../services/authService';
+import { CredentialRepository, normalizeUsername } from '../services/credentialRepository';
+import { SessionRepository } from '../services/sessionRepository';
+import { AuthSession, User, UserCredential } from '../types';
+
+// Bearer-token sign-in for the API server. The user directory, credentials and
+// sessions are JSON files; sign-in follows the same rules as the browser
+// (services/authService): PBKDF2 passwords, 8 hour sessions, no deactivated users.
+
+export interface ServerAuthOptions {
+  usersFile: string;
+  credentialsFile: string;
+  sessionsFile: string;
+}
+
+export interface ServerLogin {
+  token: string;
+  user: User;
+  expiresAt: number;
+}
+
+export interface ServerAuth {
+  login(username: string, password: string): Promise<ServerLogin>;
+  // The signed-in user for the request's bearer token, while the session is valid
+  authenticate(req: IncomingMessage): Promise<User | undefined>;
+  logout(req: IncomingMessage): Promise<void>;
+  listUsers(): Promise<User[]>;
+  // Fills an empty directory, and gives users without a credential `password` when set
+  seed(users: User[], password?: string): Promise<{ users: number; credentials: number }>;
+}
+
+const getBearerToken = (req: IncomingMessage) =>
+  req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+// Holds one request's token where the auth service expects browser storage
+const createTokenSlot = (token?: string) => {
+  let value = token ?? null;
+  return {
+    getItem: () => value,
+    setItem: (_key: string, next: string) => { value = next; },
+    removeItem: () => { value = null; },
+  };
+};
+
+export const createServerAuth = ({ usersFile, credentialsFile, sessionsFile }: ServerAuthOptions): ServerAuth => {
+  const users = createJsonFileStore<User>(usersFile);
+  const credentialStore = createJsonFileStore<UserCredential>(credentialsFile);
+  const sessionStore = createJsonFileStore<AuthSession>(sessionsFile);
+
+  const credentials: CredentialRepository = {
+    get: credentialStore.get,
+    findByUsername: async (username) =>
+      (await credentialStore.list()).find(c => c.username === normalizeUsername(username)),
+    save: (credential) => credentialStore.put({ ...credential, username: normalizeUsername(credential.username) }),
+    delete: credentialStore.delete,
+  };
+
+  const sessions: SessionRepository = {
+    get: sessionStore.get,
+    save: sessionStore.put,
+    delete: sessionStore.delete,
+    deleteExpired: (now) => sessionStore.deleteWhere(s => s.expiresAt <= now),
+  };
+
+  const authFor = (tokenStorage: ReturnType<typeof createTokenSlot>) =>
+    createAuthService({ getUsers: users.list, credentials, sessions, tokenStorage });
+
+  return {
+    login: async (username, password) => {
+      const slot = createTokenSlot();
+      const user = await authFor(slot).loginWithPassword(username, password);
+      const token = slot.getItem() as string;
+      const session = await sessions.get(token);
+      return { token, user, expiresAt: session?.expiresAt ?? Date.now() };
+    },
+
+    authenticate: async (req) => {
+      const token = getBearerToken(req);
+      return token ? authFor(createTokenSlot(token)).restoreSession() : undefined;
+    },
+
+    logout: async (req) => {
+      const token = getBearerToken(req);
+      if (token) await authFor(createTokenSlot(token)).logout();
+    },
+
+    listUsers: users.list,
+
+    seed: async (seedUsers, password) => {
+      const existing = await users.list();
+      if (existing.length === 0) {
+        for (const user of seedUsers) await users.put(user);
+      }
+      const directory = existing.length === 0 ? seedUsers : existing;
+      const created = password ? await authFor(createTokenSlot()).seedCredentials(directory, password) : 0;
+      return { users: existing.length === 0 ? seedUsers.length : 0, credentials: created };
+    },
+  };
+};
@@ -0,0 +1,158 @@
+import { connect as connectTcp, Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import { EmailMessage, NotificationTransport, NotificationDeliveryError } from '../services/notificationTransport';
+
+// Minimal SMTP client (EHLO, optional AUTH PLAIN, MAIL/RCPT/DATA). Enough to
+// deliver through a relay or a local sink such as MailHog (localhost:1025).
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  from: string; // e.g. "Contract Guard <no-reply@trident-energy.com>"
+  secure?: boolean; // Implicit TLS (port 465); STARTTLS is not supported
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const extractAddress = (mailbox: string) => (mailbox.match(/<([^>]+)>/)?.[1] || mailbox).trim();
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+
+const encodeBody = (content: string) =>
+  Buffer.from(content, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+const buildMime = (from: string, message: EmailMessage): string => {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.map(r => `${encodeHeader(r.name)} <${r.email}>`).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${extractAddress(from).split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+  ];
+  const textPart = ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', encodeBody(message.text)];
+
+  if (!message.html) return [...headers, ...textPart].join('\r\n');
+
+  const boundary = `cg-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+// Reads multi-line replies ("250-..." continues, "250 ..." ends) in order
+const createSession = (socket: Socket, timeoutMs: number) => {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const fail = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(w => w.reject(error));
+  };
+
+  socket.setTimeout(timeoutMs, () => {
+    fail(new NotificationDeliveryError('SMTP server timed out'));
+    socket.destroy();
+  });
+  socket.on('error', error => fail(new NotificationDeliveryError(`SMTP connection failed: ${error.message}`)));
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf-8');
+    let index;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map(l => l.slice(4)).join(' ') };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  });
+
+  const read = (): Promise<SmtpReply> => {
+    if (replies.length > 0) return Promise.resolve(replies.shift()!);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+
+  // 4xx replies are transient and worth retrying; 5xx replies are permanent
+  const expect = async (expected: number[], command: string) => {
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new NotificationDeliveryError(`SMTP ${command} rejected: ${reply.code} ${reply.text}`, reply.code < 500);
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+    command: (line: string, expected: number[], label = line.split(' ')[0]) => {
+      socket.write(`${line}\r\n`);
+      return expect(expected, label);
+    },
+  };
+};
+
+const openSocket = (config: SmtpConfig): Socket =>
+  config.secure
+    ? connectTls({ host: config.host, port: config.port, servername: config.host })
+    : connectTcp({ host: config.host, port: config.port });
+
+export const createSmtpTransport = (config: SmtpConfig): NotificationTransport => ({
+  name: 'smtp',
+  send: async (message) => {
+    const missing = message.to.filter(r => !r.email);
+    if (message.to.length === 0 || missing.length > 0) {
+      throw new NotificationDeliveryError(
+        missing.length > 0 ? `No email address for ${missing.map(r => r.name).join(', ')}` : 'No recipients',
+        false
+      );
+    }
+
+    const socket = openSocket(config);
+    const session = createSession(socket, config.timeoutMs ?? 10000);
+    try {
+      await session.expect([220], 'greeting');
+      await session.command(`EHLO ${extractAddress(config.from).split('@')[1] || 'localhost'}`, [250]);
+      if (config.username) {
+        const credentials = Buffer.from(`\0${config.username}\0${config.password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+      await session.command(`MAIL FROM:<${extractAddress(config.from)}>`, [250], 'MAIL FROM');
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${recipient.email}>`, [250, 251], 'RCPT TO');
+      }
+      await session.command('DATA', [354]);
+      // Dot-stuff lines that start with "." so they are not read as end of data
+      const data = buildMime(config.from, message).replace(/^\./gm, '..');
+      await session.command(`${data}\r\n.`, [250], 'message');
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      socket.end();
+    }
+  },
+});
@@ -0,0 +1,28 @@
+import { AuditLog } from '../types';
+import { appendAuditEntry, AuditEntryInput } from '../utils/auditChain';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Hash-chained log of administrative changes (users, permissions, DoA matrix,
+// risk rules). Entries are only ever added.
+export interface AdminAuditLogRepository {
+  list(): Promise<AuditLog[]>; // Oldest first
+  append(input: AuditEntryInput): Promise<AuditLog>;
+}
+
+const listAll = async (store: IDBObjectStore) => {
+  const all = await requestToPromise(store.getAll() as IDBRequest<AuditLog[]>);
+  return all.sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+};
+
+export const createIndexedDbAdminAuditLogRepository = (): AdminAuditLogRepository => ({
+  list: () => withStore(STORES.ADMIN_AUDIT_LOG, 'readonly', listAll),
+
+  // Reading the head and adding the entry share one transaction, so the chain cannot fork
+  append: (input) =>
+    withStore(STORES.ADMIN_AUDIT_LOG, 'readwrite', async store => {
+      const trail = appendAuditEntry(await listAll(store), input);
+      const entry = trail[trail.length - 1];
+      await requestToPromise(store.add(entry));
+      return entry;
+    }),
+});
@@ -0,0 +1,41 @@
+import { AuditLog } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Archive of chained audit entries kept apart from the contract record, so that
+// editing or losing a contract's `auditTrail` can be detected. Entries are only
+// ever added; an entry that is already archived is never replaced.
+export interface AuditLogRepository {
+  listForContract(contractId: string): Promise<AuditLog[]>;
+  // Archives the chained entries not yet stored; returns how many were added
+  append(contractId: string, entries: AuditLog[]): Promise<number>;
+}
+
+interface ArchivedAuditEntry {
+  id: string; // `${contractId}:${entry.id}`
+  contractId: string;
+  entry: AuditLog;
+}
+
+export const createIndexedDbAuditLogRepository = (): AuditLogRepository => ({
+  listForContract: async (contractId) => {
+    const all = await withStore(STORES.AUDIT_LOG, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<ArchivedAuditEntry[]>)
+    );
+    return all
+      .filter(r => r.contractId === contractId)
+      .map(r => r.entry)
+      .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+  },
+
+  append: (contractId, entries) =>
+    withStore(STORES.AUDIT_LOG, 'readwrite', async store => {
+      let added = 0;
+      for (const entry of entries.filter(e => e.hash)) {
+        const id = `${contractId}:${entry.id}`;
+        if (await requestToPromise(store.getKey(id)) !== undefined) continue;
+        await requestToPromise(store.add({ id, contractId, entry } as ArchivedAuditEntry));
+        added++;
+      }
+      return added;
+    }),
+});
@@ -0,0 +1,161 @@
+import { AuthProvider, AuthSession, User } from '../types';
+import { CredentialRepository, normalizeUsername } from './credentialRepository';
+import { SessionRepository } from './sessionRepository';
+import { OidcClient } from './oidcClient';
+import { hashPassword, validatePassword, verifyPassword } from '../utils/passwordHash';
+
+// Signs users in against the user directory, either with a local password or
+// through an OIDC identity provider, and keeps a session token in the browser.
+
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+const SESSION_TOKEN_KEY = 'contract-guard:session';
+
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface AuthServiceOptions {
+  getUsers: () => Promise<User[]>; // The user directory (services/userRepository)
+  credentials: CredentialRepository;
+  sessions: SessionRepository;
+  oidc?: OidcClient; // SSO is offered only when configured
+  tokenStorage?: KeyValueStorage; // Defaults to localStorage
+  sessionTtlMs?: number;
+}
+
+export interface AuthService {
+  readonly oidcEnabled: boolean;
+  loginWithPassword(username: string, password: string): Promise<User>;
+  // Returns the identity provider URL to send the browser to
+  beginOidcLogin(): Promise<string>;
+  isOidcCallback(url: string): boolean;
+  completeOidcLogin(callbackUrl: string): Promise<User>;
+  // The signed-in user for the stored session token, if it is still valid
+  restoreSession(): Promise<User | undefined>;
+  logout(): Promise<void>;
+  setPassword(userId: string, password: string): Promise<void>;
+  // Gives every listed user without a credential the same password; returns how many were created
+  seedCredentials(users: User[], password: string): Promise<number>;
+  // Keeps the login name in step with the user's email after an admin edit
+  syncUsername(user: User): Promise<void>;
+  removeCredential(userId: string): Promise<void>;
+}
+
+const INVALID_LOGIN_MESSAGE = 'Invalid username or password';
+
+// Verified against when the username is unknown, so both failures take as long
+let dummyHash: ReturnType<typeof hashPassword> | null = null;
+
+const randomSessionId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+
+export const createAuthService = ({
+  getUsers,
+  credentials,
+  sessions,
+  oidc,
+  tokenStorage = localStorage,
+  sessionTtlMs = SESSION_TTL_MS,
+}: AuthServiceOptions): AuthService => {
+  const findActiveUser = async (match: (user: User) => boolean) => {
+    const user = (await getUsers()).find(match);
+    if (user && !user.isActive) throw new AuthenticationError(`The account for ${user.name} is deactivated`);
+    return user;
+  };
+
+  const startSession = async (user: User, provider: AuthProvider) => {
+    const now = Date.now();
+    const session: AuthSession = { id: randomSessionId(), userId: user.id, provider, createdAt: now, expiresAt: now + sessionTtlMs };
+    await sessions.deleteExpired(now);
+    await sessions.save(session);
+    tokenStorage.setItem(SESSION_TOKEN_KEY, session.id);
+    return user;
+  };
+
+  const logout = async () => {
+    const token = tokenStorage.getItem(SESSION_TOKEN_KEY);
+    tokenStorage.removeItem(SESSION_TOKEN_KEY);
+    if (token) await sessions.delete(token);
+  };
+
+  return {
+    oidcEnabled: Boolean(oidc),
+
+    loginWithPassword: async (username, password) => {
+      const credential = await credentials.findByUsername(username);
+      if (!credential) {
+        if (!dummyHash) dummyHash = hashPassword('not-a-real-password');
+        await verifyPassword(password, await dummyHash);
+        throw new AuthenticationError(INVALID_LOGIN_MESSAGE);
+      }
+      if (!await verifyPassword(password, credential)) throw new AuthenticationError(INVALID_LOGIN_MESSAGE);
+
+      const user = await findActiveUser(u => u.id === credential.id);
+      if (!user) throw new AuthenticationError(INVALID_LOGIN_MESSAGE);
+      return startSession(user, 'password');
+    },
+
+    beginOidcLogin: async () => {
+      if (!oidc) throw new AuthenticationError('Single sign-on is not configured');
+      return oidc.createAuthorizationUrl();
+    },
+
+    isOidcCallback: (url) => Boolean(oidc?.isCallback(url)),
+
+    completeOidcLogin: async (callbackUrl) => {
+      if (!oidc) throw new AuthenticationError('Single sign-on is not configured');
+      const identity = await oidc.handleCallback(callbackUrl);
+      // Directory users are matched to the identity provider by email
+      const user = await findActiveUser(u => normalizeUsername(u.email) === normalizeUsername(identity.email));
+      if (!user) throw new AuthenticationError(`${identity.email} is not registered in Contract Guard`);
+      return startSession(user, 'oidc');
+    },
+
+    restoreSession: async () => {
+      const token = tokenStorage.getItem(SESSION_TOKEN_KEY);
+      if (!token) return undefined;
+      const session = await sessions.get(token);
+      const user = session && session.expiresAt > Date.now()
+        ? (await getUsers()).find(u => u.id === session.userId && u.isActive)
+        : undefined;
+      if (!user) await logout();
+      return user;
+    },
+
+    logout,
+
+    setPassword: async (userId, password) => {
+      const user = (await getUsers()).find(u => u.id === userId);
+      if (!user) throw new AuthenticationError(`User ${userId} does not exist`);
+      const problem = validatePassword(password);
+      if (problem) throw new AuthenticationError(problem);
+      const hash = await hashPassword(password);
+      await credentials.save({ id: user.id, username: user.email, ...hash, updatedAt: Date.now() });
+    },
+
+    seedCredentials: async (users, password) => {
+      let created = 0;
+      for (const user of users) {
+        if (await credentials.get(user.id)) continue;
+        const hash = await hashPassword(password);
+        await credentials.save({ id: user.id, username: user.email, ...hash, updatedAt: Date.now() });
+        created++;
+      }
+      return created;
+    },
+
+    syncUsername: async (user) => {
+      const credential = await credentials.get(user.id);
+      if (credential && credential.username !== normalizeUsername(user.email)) {
+        await credentials.save({ ...credential, username: user.email, updatedAt: Date.now() });
+      }
+    },
+
+    removeCredential: (userId) => credentials.delete(userId),
+  };
+};
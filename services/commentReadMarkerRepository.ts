@@ -0,0 +1,26 @@
+import { CommentReadMarker } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Per-user comment read markers, one record per user and contract.
+export interface CommentReadMarkerRepository {
+  listForUser(userId: string): Promise<CommentReadMarker[]>;
+  // Only ever moves the marker forward, so a stale tab cannot mark read comments unread
+  markRead(userId: string, contractId: string, lastReadAt: number): Promise<void>;
+}
+
+export const createIndexedDbCommentReadMarkerRepository = (): CommentReadMarkerRepository => ({
+  listForUser: async (userId) => {
+    const all = await withStore(STORES.COMMENT_READ_MARKERS, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<CommentReadMarker[]>)
+    );
+    return all.filter(m => m.userId === userId);
+  },
+
+  markRead: (userId, contractId, lastReadAt) =>
+    withStore(STORES.COMMENT_READ_MARKERS, 'readwrite', async store => {
+      const id = `${userId}|${contractId}`;
+      const existing = await requestToPromise(store.get(id) as IDBRequest<CommentReadMarker | undefined>);
+      if (existing && existing.lastReadAt >= lastReadAt) return;
+      await requestToPromise(store.put({ id, userId, contractId, lastReadAt }));
+    }),
+});
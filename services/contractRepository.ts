@@ -0,0 +1,76 @@
+import { ContractData } from '../types';
+import { rebaseAuditTrail } from '../utils/auditChain';
+
+// Storage abstraction for contracts. The browser uses IndexedDB, the local
+// Node server uses a JSON file; both implement the same contract so the
+// workflow code never touches the storage directly.
+export interface ContractRepository {
+  list(): Promise<ContractData[]>;
+  get(id: string): Promise<ContractData | undefined>;
+  create(contract: ContractData): Promise<ContractData>;
+  update(contract: ContractData): Promise<ContractData>;
+  // Re-reads the stored contract and writes `change(stored)` in one step, so a
+  // concurrent writer's changes are never overwritten by a stale copy
+  modify(id: string, change: (stored: ContractData) => ContractData): Promise<ContractData>;
+  delete(id: string): Promise<void>;
+}
+
+export class ContractNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Contract ${id} does not exist`);
+    this.name = 'ContractNotFoundError';
+  }
+}
+
+export class ContractAlreadyExistsError extends Error {
+  constructor(id: string) {
+    super(`Contract ${id} already exists`);
+    this.name = 'ContractAlreadyExistsError';
+  }
+}
+
+export class ContractAccessDeniedError extends Error {
+  constructor(id: string) {
+    super(`You do not have access to contract ${id}`);
+    this.name = 'ContractAccessDeniedError';
+  }
+}
+
+export class ContractConflictError extends Error {
+  constructor(id: string) {
+    super(`Contract ${id} was changed by someone else while you were working on it`);
+    this.name = 'ContractConflictError';
+  }
+}
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Applies a user's edit to the freshly stored contract, for use inside modify().
+// Only the fields the user changed from `base` (the copy they started from) are
+// taken from `edited`; every other field keeps its stored value. If another
+// writer has changed one of those fields since, the edit is rejected. The
+// user's new audit entries are chained after any stored since.
+export const applyContractEdit = (stored: ContractData, base: ContractData, edited: ContractData): ContractData => {
+  const fields = new Set([...Object.keys(base), ...Object.keys(edited)] as (keyof ContractData)[]);
+  fields.delete('auditTrail');
+
+  const merged: Record<string, unknown> = { ...stored };
+  fields.forEach(field => {
+    if (isSameValue(base[field], edited[field])) return;
+    if (!isSameValue(stored[field], base[field])) throw new ContractConflictError(stored.id);
+    merged[field] = edited[field];
+  });
+  return { ...(merged as unknown as ContractData), auditTrail: rebaseAuditTrail(stored.auditTrail, edited.auditTrail) };
+};
+
+// Optional demo step: fills an empty store with seed data (e.g. MOCK_CONTRACTS).
+// Existing data is never overwritten, so it is safe to call on every start-up.
+export const seedRepository = async (repository: ContractRepository, seed: ContractData[]): Promise<boolean> => {
+  const existing = await repository.list();
+  if (existing.length > 0) return false;
+
+  for (const contract of seed) {
+    await repository.create(contract);
+  }
+  return true;
+};
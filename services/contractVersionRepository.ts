@@ -0,0 +1,33 @@
+import { ContractVersion } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Append-only store of submitted contract versions. There is deliberately no
+// update or delete: a version, once recorded, is the reviewed record.
+export interface ContractVersionRepository {
+  listForContract(contractId: string): Promise<ContractVersion[]>;
+  add(version: ContractVersion): Promise<ContractVersion>;
+}
+
+export class ContractVersionExistsError extends Error {
+  constructor(id: string) {
+    super(`Contract version ${id} already exists and cannot be replaced`);
+    this.name = 'ContractVersionExistsError';
+  }
+}
+
+export const createIndexedDbContractVersionRepository = (): ContractVersionRepository => ({
+  listForContract: async (contractId) => {
+    const all = await withStore(STORES.CONTRACT_VERSIONS, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<ContractVersion[]>)
+    );
+    return all.filter(v => v.contractId === contractId).sort((a, b) => a.version - b.version);
+  },
+
+  add: (version) =>
+    withStore(STORES.CONTRACT_VERSIONS, 'readwrite', async store => {
+      const existing = await requestToPromise(store.getKey(version.id));
+      if (existing !== undefined) throw new ContractVersionExistsError(version.id);
+      await requestToPromise(store.add(version));
+      return version;
+    }),
+});
@@ -0,0 +1,35 @@
+import { UserCredential } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Local sign-in credentials (password hashes), one record per user.
+export interface CredentialRepository {
+  get(userId: string): Promise<UserCredential | undefined>;
+  findByUsername(username: string): Promise<UserCredential | undefined>;
+  save(credential: UserCredential): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const createIndexedDbCredentialRepository = (): CredentialRepository => ({
+  get: (userId) =>
+    withStore(STORES.CREDENTIALS, 'readonly', store =>
+      requestToPromise(store.get(userId) as IDBRequest<UserCredential | undefined>)
+    ),
+
+  findByUsername: (username) =>
+    withStore(STORES.CREDENTIALS, 'readonly', async store => {
+      const all = await requestToPromise(store.getAll() as IDBRequest<UserCredential[]>);
+      return all.find(c => c.username === normalizeUsername(username));
+    }),
+
+  save: (credential) =>
+    withStore(STORES.CREDENTIALS, 'readwrite', async store => {
+      await requestToPromise(store.put({ ...credential, username: normalizeUsername(credential.username) }));
+    }),
+
+  delete: (userId) =>
+    withStore(STORES.CREDENTIALS, 'readwrite', async store => {
+      await requestToPromise(store.delete(userId));
+    }),
+});
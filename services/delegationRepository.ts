@@ -0,0 +1,20 @@
+import { ApprovalDelegation } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Approval delegations. Revoked ones are kept (with revokedAt) as a record.
+export interface DelegationRepository {
+  list(): Promise<ApprovalDelegation[]>;
+  save(delegation: ApprovalDelegation): Promise<void>;
+}
+
+export const createIndexedDbDelegationRepository = (): DelegationRepository => ({
+  list: () =>
+    withStore(STORES.DELEGATIONS, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<ApprovalDelegation[]>)
+    ),
+
+  save: (delegation) =>
+    withStore(STORES.DELEGATIONS, 'readwrite', async store => {
+      await requestToPromise(store.put(delegation));
+    }),
+});
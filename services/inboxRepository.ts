@@ -0,0 +1,39 @@
+import { InAppNotification } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Per-user in-app notifications. Each recipient gets their own record, so
+// read state is tracked per user.
+export interface InboxRepository {
+  listForUser(userId: string): Promise<InAppNotification[]>;
+  add(notifications: InAppNotification[]): Promise<void>;
+  // Marks the given notifications (or all of the user's) as read
+  markRead(userId: string, ids?: string[]): Promise<void>;
+}
+
+const listAll = (store: IDBObjectStore) =>
+  requestToPromise(store.getAll() as IDBRequest<InAppNotification[]>);
+
+export const createIndexedDbInboxRepository = (): InboxRepository => ({
+  listForUser: async (userId) => {
+    const all = await withStore(STORES.INBOX, 'readonly', listAll);
+    return all.filter(n => n.userId === userId).sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  add: (notifications) =>
+    withStore(STORES.INBOX, 'readwrite', async store => {
+      for (const notification of notifications) {
+        await requestToPromise(store.put(notification));
+      }
+    }),
+
+  markRead: (userId, ids) =>
+    withStore(STORES.INBOX, 'readwrite', async store => {
+      const readAt = Date.now();
+      const unread = (await listAll(store)).filter(n =>
+        n.userId === userId && !n.readAt && (!ids || ids.includes(n.id))
+      );
+      for (const notification of unread) {
+        await requestToPromise(store.put({ ...notification, readAt }));
+      }
+    }),
+});
@@ -0,0 +1,104 @@
+// Shared IndexedDB connection for the browser-side stores.
+// Bump DB_VERSION and add the store to STORES when a new store is needed.
+
+const DB_NAME = 'trident-contract-guard';
+const DB_VERSION = 11;
+
+export const STORES = {
+  CONTRACTS: 'contracts',
+  SETTINGS: 'settings',
+  OUTBOX: 'outbox',
+  INBOX: 'inbox',
+  CONTRACT_VERSIONS: 'contractVersions',
+  AUDIT_LOG: 'auditLog',
+  CREDENTIALS: 'credentials',
+  SESSIONS: 'sessions',
+  USERS: 'users',
+  ADMIN_AUDIT_LOG: 'adminAuditLog',
+  DELEGATIONS: 'delegations',
+  COMMENT_READ_MARKERS: 'commentReadMarkers',
+  SLA_NOTICES: 'slaNotices',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// The upgrade to DB_VERSION is waiting on another tab that still has an older version open
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super('Contract Guard is open in another tab that is out of date. Close the other tabs and reload this page.');
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let isBlocked = false;
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+
+      request.onblocked = () => {
+        isBlocked = true;
+        dbPromise = null;
+        reject(new DatabaseBlockedError());
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Already reported as blocked; the page is reloaded to continue
+        if (isBlocked) {
+          db.close();
+          return;
+        }
+        // A newer version was opened in another tab: let its upgrade through
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+          if (window.confirm('Contract Guard was updated in another tab. Reload this tab to continue?')) window.location.reload();
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `fn` inside a single-store transaction and resolves once the transaction commits.
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Handled here too, so `done` is not left as an unhandled rejection when `fn` throws
+  done.catch(() => undefined);
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+};
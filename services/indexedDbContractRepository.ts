@@ -0,0 +1,46 @@
+import { ContractData } from '../types';
+import { ContractRepository, ContractNotFoundError, ContractAlreadyExistsError } from './contractRepository';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+export const createIndexedDbContractRepository = (): ContractRepository => ({
+  list: () =>
+    withStore(STORES.CONTRACTS, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<ContractData[]>)
+    ),
+
+  get: (id) =>
+    withStore(STORES.CONTRACTS, 'readonly', store =>
+      requestToPromise(store.get(id) as IDBRequest<ContractData | undefined>)
+    ),
+
+  create: (contract) =>
+    withStore(STORES.CONTRACTS, 'readwrite', async store => {
+      const existing = await requestToPromise(store.getKey(contract.id));
+      if (existing !== undefined) throw new ContractAlreadyExistsError(contract.id);
+      await requestToPromise(store.add(contract));
+      return contract;
+    }),
+
+  update: (contract) =>
+    withStore(STORES.CONTRACTS, 'readwrite', async store => {
+      const existing = await requestToPromise(store.getKey(contract.id));
+      if (existing === undefined) throw new ContractNotFoundError(contract.id);
+      await requestToPromise(store.put(contract));
+      return contract;
+    }),
+
+  // One readwrite transaction, so other tabs and jobs cannot write in between
+  modify: (id, change) =>
+    withStore(STORES.CONTRACTS, 'readwrite', async store => {
+      const existing = await requestToPromise(store.get(id) as IDBRequest<ContractData | undefined>);
+      if (!existing) throw new ContractNotFoundError(id);
+      const updated = change(existing);
+      await requestToPromise(store.put(updated));
+      return updated;
+    }),
+
+  delete: (id) =>
+    withStore(STORES.CONTRACTS, 'readwrite', async store => {
+      await requestToPromise(store.delete(id));
+    }),
+});
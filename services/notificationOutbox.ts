@@ -0,0 +1,154 @@
+import { EmailMessage, NotificationTransport, NotificationDeliveryError } from './notificationTransport';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Outgoing messages are queued first and delivered by `flush()`, so a transport
+// outage never blocks the workflow. Failed attempts are retried with
+// exponential backoff until `maxAttempts` is reached.
+
+export type DeliveryStatus = 'queued' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  message: EmailMessage;
+  contractId?: string;
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  transport?: string; // Transport that delivered the message
+}
+
+export interface OutboxStore {
+  list(): Promise<OutboxEntry[]>;
+  save(entry: OutboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface NotificationOutbox {
+  enqueue(message: EmailMessage, contractId?: string): OutboxEntry;
+  flush(): Promise<void>;
+  // Called whenever an entry is sent, scheduled for retry or given up on
+  subscribe(listener: (entry: OutboxEntry) => void): () => void;
+}
+
+interface OutboxOptions {
+  transport: NotificationTransport;
+  store: OutboxStore;
+  maxAttempts?: number;
+  retryDelayMs?: number;
+}
+
+export const createIndexedDbOutboxStore = (): OutboxStore => ({
+  list: () =>
+    withStore(STORES.OUTBOX, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<OutboxEntry[]>)),
+
+  save: (entry) =>
+    withStore(STORES.OUTBOX, 'readwrite', async store => {
+      await requestToPromise(store.put(entry));
+    }),
+
+  delete: (id) =>
+    withStore(STORES.OUTBOX, 'readwrite', async store => {
+      await requestToPromise(store.delete(id));
+    }),
+});
+
+export const createNotificationOutbox = ({
+  transport,
+  store,
+  maxAttempts = 5,
+  retryDelayMs = 5000,
+}: OutboxOptions): NotificationOutbox => {
+  const entries = new Map<string, OutboxEntry>();
+  const listeners = new Set<(entry: OutboxEntry) => void>();
+  let flushing: Promise<void> | null = null;
+  let flushAgain = false;
+
+  // Undelivered entries from a previous session are picked up by the next flush;
+  // failed entries stay in the store for inspection but are not retried
+  const restored = store.list()
+    .then(saved => saved
+      .filter(entry => entry.status === 'queued' && !entries.has(entry.id))
+      .forEach(entry => entries.set(entry.id, entry)))
+    .catch(error => console.error("Outbox Store Error:", error));
+
+  const persist = (entry: OutboxEntry) => {
+    const write = entry.status === 'sent' ? store.delete(entry.id) : store.save(entry);
+    write.catch(error => console.error("Outbox Store Error:", error));
+  };
+
+  const update = (entry: OutboxEntry) => {
+    if (entry.status === 'queued') entries.set(entry.id, entry);
+    else entries.delete(entry.id);
+    persist(entry);
+    listeners.forEach(listener => listener(entry));
+  };
+
+  const attempt = async (entry: OutboxEntry) => {
+    const attempts = entry.attempts + 1;
+    try {
+      await transport.send(entry.message);
+      update({ ...entry, attempts, status: 'sent', transport: transport.name, lastError: undefined });
+    } catch (error) {
+      const retryable = !(error instanceof NotificationDeliveryError) || error.retryable;
+      const exhausted = !retryable || attempts >= maxAttempts;
+      update({
+        ...entry,
+        attempts,
+        status: exhausted ? 'failed' : 'queued',
+        lastError: (error as Error).message,
+        nextAttemptAt: Date.now() + retryDelayMs * 2 ** (attempts - 1),
+      });
+    }
+  };
+
+  const runFlush = async () => {
+    await restored;
+    const now = Date.now();
+    const due = Array.from(entries.values())
+      .filter(entry => entry.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    for (const entry of due) {
+      await attempt(entry);
+    }
+  };
+
+  return {
+    enqueue: (message, contractId) => {
+      const now = Date.now();
+      const entry: OutboxEntry = {
+        id: `mail-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        message,
+        contractId,
+        status: 'queued',
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+      entries.set(entry.id, entry);
+      persist(entry);
+      return entry;
+    },
+
+    // Concurrent calls share the running flush, which then runs once more for late arrivals
+    flush: () => {
+      if (flushing) {
+        flushAgain = true;
+        return flushing;
+      }
+      flushing = (async () => {
+        do {
+          flushAgain = false;
+          await runFlush();
+        } while (flushAgain);
+      })().finally(() => { flushing = null; });
+      return flushing;
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
@@ -0,0 +1,69 @@
+// Delivery abstraction for outgoing email. The browser either logs messages
+// (demo mode) or relays them to the local Node server, which delivers them
+// over SMTP (see server/smtpTransport.ts).
+
+export interface EmailRecipient {
+  name: string;
+  email?: string;
+}
+
+export interface EmailMessage {
+  to: EmailRecipient[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// `retryable` is false when resending the same message cannot succeed
+// (e.g. the recipient was rejected), so the outbox gives up immediately.
+export class NotificationDeliveryError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable = true) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+    this.retryable = retryable;
+  }
+}
+
+export const formatRecipients = (recipients: EmailRecipient[]): string =>
+  recipients.map(r => r.name).join(', ');
+
+export const createConsoleTransport = (): NotificationTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`[EMAIL SENT] To: ${formatRecipients(message.to)} | Subject: ${message.subject}`);
+  },
+});
+
+// Relays messages to the local server's POST /api/notifications endpoint, which
+// only accepts them with a server session token (services/relaySession).
+export const createHttpTransport = (endpoint: string, getToken: () => string | null): NotificationTransport => ({
+  name: 'smtp-relay',
+  send: async (message) => {
+    const token = getToken();
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: JSON.stringify(message),
+      });
+    } catch (error) {
+      throw new NotificationDeliveryError(`Notification relay unreachable: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new NotificationDeliveryError(
+        body.error || `Notification relay responded with ${response.status}`,
+        body.retryable ?? response.status >= 500
+      );
+    }
+  },
+});
@@ -0,0 +1,188 @@
+// OpenID Connect sign-in for a public browser client: authorization code flow
+// with PKCE (S256). The ID token is verified in the browser (RS256 signature
+// against the issuer's JWKS, then iss/aud/exp/nonce), which is all a SPA with
+// no backend session can rely on.
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  redirectUri: string;
+  scope?: string; // Defaults to "openid profile email"
+}
+
+// Verified claims from the ID token
+export interface OidcIdentity {
+  subject: string;
+  email: string;
+  name?: string;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export interface OidcClient {
+  // Stores the PKCE verifier, state and nonce, and returns the URL to send the browser to
+  createAuthorizationUrl(): Promise<string>;
+  // True if `url` is the redirect back from the IdP (has a code or error for this client)
+  isCallback(url: string): boolean;
+  // Exchanges the code from the redirect URL and returns the verified identity
+  handleCallback(url: string): Promise<OidcIdentity>;
+}
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+const PENDING_LOGIN_KEY = 'contract-guard:oidc-pending';
+const CLOCK_SKEW_SECONDS = 60;
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), ch => ch.charCodeAt(0));
+};
+
+const randomToken = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+const pkceChallenge = async (verifier: string) =>
+  base64UrlEncode(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new OidcError(body.error_description || body.error || `${url} returned HTTP ${response.status}`);
+  }
+  return body as T;
+};
+
+export const createOidcClient = (config: OidcConfig, storage: KeyValueStorage = sessionStorage): OidcClient => {
+  const issuer = config.issuer.replace(/\/$/, '');
+  let discovery: Promise<DiscoveryDocument> | null = null;
+
+  const discover = () => {
+    if (!discovery) {
+      discovery = fetchJson<DiscoveryDocument>(`${issuer}/.well-known/openid-configuration`).catch(error => {
+        discovery = null;
+        throw error;
+      });
+    }
+    return discovery;
+  };
+
+  const verifyIdToken = async (idToken: string, metadata: DiscoveryDocument, nonce: string): Promise<IdTokenClaims> => {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) throw new OidcError('Malformed ID token');
+    const decoder = new TextDecoder();
+    const header = JSON.parse(decoder.decode(base64UrlDecode(parts[0]))) as { alg: string; kid?: string };
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(parts[1]))) as IdTokenClaims;
+
+    if (header.alg !== 'RS256') throw new OidcError(`Unsupported ID token algorithm ${header.alg}`);
+    const { keys } = await fetchJson<{ keys: (JsonWebKey & { kid?: string })[] }>(metadata.jwks_uri);
+    const jwk = keys.find(k => k.kty === 'RSA' && (!header.kid || k.kid === header.kid));
+    if (!jwk) throw new OidcError('No signing key matches the ID token');
+
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    const signedData = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    if (!await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64UrlDecode(parts[2]), signedData)) {
+      throw new OidcError('ID token signature is invalid');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== metadata.issuer) throw new OidcError('ID token was issued by an unexpected issuer');
+    if (!audiences.includes(config.clientId)) throw new OidcError('ID token was issued for another client');
+    if (claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) throw new OidcError('ID token has expired');
+    if (claims.nonce !== nonce) throw new OidcError('ID token nonce does not match the sign-in request');
+    return claims;
+  };
+
+  return {
+    createAuthorizationUrl: async () => {
+      const metadata = await discover();
+      const pending: PendingLogin = { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken() };
+      storage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+      const url = new URL(metadata.authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        scope: config.scope || 'openid profile email',
+        state: pending.state,
+        nonce: pending.nonce,
+        code_challenge: await pkceChallenge(pending.codeVerifier),
+        code_challenge_method: 'S256',
+      }).toString();
+      return url.toString();
+    },
+
+    isCallback: (url) => {
+      const params = new URL(url).searchParams;
+      return (params.has('code') || params.has('error')) && params.has('state') && storage.getItem(PENDING_LOGIN_KEY) !== null;
+    },
+
+    handleCallback: async (url) => {
+      const params = new URL(url).searchParams;
+      const stored = storage.getItem(PENDING_LOGIN_KEY);
+      // One attempt per request: a replayed or second callback must start over
+      storage.removeItem(PENDING_LOGIN_KEY);
+      if (!stored) throw new OidcError('No sign-in is in progress');
+      const pending = JSON.parse(stored) as PendingLogin;
+
+      if (params.get('state') !== pending.state) throw new OidcError('Sign-in response does not match the request (state mismatch)');
+      const error = params.get('error');
+      if (error) throw new OidcError(params.get('error_description') || error);
+      const code = params.get('code');
+      if (!code) throw new OidcError('Sign-in response has no authorization code');
+
+      const metadata = await discover();
+      const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: config.redirectUri,
+          client_id: config.clientId,
+          code_verifier: pending.codeVerifier,
+        }).toString(),
+      });
+      if (!tokens.id_token) throw new OidcError('Token response has no ID token');
+
+      const claims = await verifyIdToken(tokens.id_token, metadata, pending.nonce);
+      if (!claims.email) throw new OidcError('ID token has no email claim');
+      // Users are matched by email, so an address the provider has not verified
+      // could claim someone else's account. Providers that omit the claim are trusted.
+      if (claims.email_verified === false) throw new OidcError(`The identity provider has not verified ${claims.email}`);
+      return { subject: claims.sub, email: claims.email, name: claims.name };
+    },
+  };
+};
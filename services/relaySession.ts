@@ -0,0 +1,35 @@
+// A session on the local server, which the email relay (POST /api/notifications)
+// requires. It is opened with the user's password when they sign in to the app;
+// the app's own session is kept separately by services/authService.
+
+const RELAY_TOKEN_KEY = 'contract-guard:relay-session';
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface RelaySession {
+  // The bearer token to send, if a server session has been opened
+  getToken(): string | null;
+  signIn(username: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+export const createRelaySession = (sessionsUrl: string, tokenStorage: KeyValueStorage = localStorage): RelaySession => ({
+  getToken: () => tokenStorage.getItem(RELAY_TOKEN_KEY),
+
+  signIn: async (username, password) => {
+    const response = await fetch(sessionsUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.token) throw new Error(body.error || `Server sign-in responded with ${response.status}`);
+    tokenStorage.setItem(RELAY_TOKEN_KEY, body.token);
+  },
+
+  signOut: async () => {
+    const token = tokenStorage.getItem(RELAY_TOKEN_KEY);
+    tokenStorage.removeItem(RELAY_TOKEN_KEY);
+    if (token) await fetch(sessionsUrl, { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } });
+  },
+});
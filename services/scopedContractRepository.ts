@@ -0,0 +1,48 @@
+import { User } from '../types';
+import { ContractRepository, ContractNotFoundError, ContractAccessDeniedError } from './contractRepository';
+import { canCreateContract, canUpdateContract, canViewContract, filterVisibleContracts } from '../utils/accessControl';
+
+// Wraps a repository so every read and write is checked against what `user`
+// may access (utils/accessControl). Contracts outside the user's scope are
+// reported as not found on reads, so their existence is not revealed.
+// `delegators` are the users whose approval authority `user` currently holds.
+export const createScopedContractRepository = (repository: ContractRepository, user: User, delegators: User[] = []): ContractRepository => {
+  const getVisible = async (id: string) => {
+    const contract = await repository.get(id);
+    return contract && canViewContract(user, contract, delegators) ? contract : undefined;
+  };
+
+  return {
+    list: async () => filterVisibleContracts(user, await repository.list(), delegators),
+
+    get: getVisible,
+
+    create: async (contract) => {
+      if (!canCreateContract(user, contract)) throw new ContractAccessDeniedError(contract.id);
+      return repository.create(contract);
+    },
+
+    update: async (contract) => {
+      const existing = await getVisible(contract.id);
+      if (!existing) throw new ContractNotFoundError(contract.id);
+      if (!canUpdateContract(user, existing, contract, delegators)) throw new ContractAccessDeniedError(contract.id);
+      return repository.update(contract);
+    },
+
+    modify: (id, change) =>
+      repository.modify(id, stored => {
+        if (!canViewContract(user, stored, delegators)) throw new ContractNotFoundError(id);
+        const updated = change(stored);
+        if (!canUpdateContract(user, stored, updated, delegators)) throw new ContractAccessDeniedError(id);
+        return updated;
+      }),
+
+    // Only users who own the contract's entity may delete it, not ad hoc reviewers
+    delete: async (id) => {
+      const existing = await getVisible(id);
+      if (!existing) throw new ContractNotFoundError(id);
+      if (!canCreateContract(user, existing)) throw new ContractAccessDeniedError(id);
+      return repository.delete(id);
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import { AuthSession } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Signed-in sessions, keyed by their token.
+export interface SessionRepository {
+  get(id: string): Promise<AuthSession | undefined>;
+  save(session: AuthSession): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Removes sessions that expired before `now`
+  deleteExpired(now: number): Promise<void>;
+}
+
+export const createIndexedDbSessionRepository = (): SessionRepository => ({
+  get: (id) =>
+    withStore(STORES.SESSIONS, 'readonly', store =>
+      requestToPromise(store.get(id) as IDBRequest<AuthSession | undefined>)
+    ),
+
+  save: (session) =>
+    withStore(STORES.SESSIONS, 'readwrite', async store => {
+      await requestToPromise(store.put(session));
+    }),
+
+  delete: (id) =>
+    withStore(STORES.SESSIONS, 'readwrite', async store => {
+      await requestToPromise(store.delete(id));
+    }),
+
+  deleteExpired: (now) =>
+    withStore(STORES.SESSIONS, 'readwrite', async store => {
+      const all = await requestToPromise(store.getAll() as IDBRequest<AuthSession[]>);
+      for (const session of all.filter(s => s.expiresAt <= now)) {
+        await requestToPromise(store.delete(session.id));
+      }
+    }),
+});
@@ -0,0 +1,37 @@
+import { DoaRule, RiskRuleSet, RolePermissionMatrix, SlaPolicy } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// Admin-editable configuration, stored as one record per key.
+export interface SettingsMap {
+  doaMatrix: DoaRule[];
+  riskRuleSets: RiskRuleSet[]; // Append-only version history
+  rolePermissions: RolePermissionMatrix;
+  slaPolicy: SlaPolicy;
+}
+
+export type SettingsKey = keyof SettingsMap;
+
+export interface SettingsRepository {
+  get<K extends SettingsKey>(key: K): Promise<SettingsMap[K] | undefined>;
+  save<K extends SettingsKey>(key: K, value: SettingsMap[K]): Promise<void>;
+}
+
+interface SettingsRecord<K extends SettingsKey = SettingsKey> {
+  id: K;
+  value: SettingsMap[K];
+  updatedAt: number;
+}
+
+export const createIndexedDbSettingsRepository = (): SettingsRepository => ({
+  get: (key) =>
+    withStore(STORES.SETTINGS, 'readonly', async store => {
+      const record = await requestToPromise(store.get(key) as IDBRequest<SettingsRecord<typeof key> | undefined>);
+      return record?.value;
+    }),
+
+  save: (key, value) =>
+    withStore(STORES.SETTINGS, 'readwrite', async store => {
+      const record: SettingsRecord<typeof key> = { id: key, value, updatedAt: Date.now() };
+      await requestToPromise(store.put(record));
+    }),
+});
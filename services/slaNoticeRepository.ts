@@ -0,0 +1,31 @@
+import { SlaNotice } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// SLA reminders and escalations that have been sent, one record per clock and kind.
+export interface SlaNoticeRepository {
+  list(): Promise<SlaNotice[]>;
+  // Records the notice unless it already is; resolves to false when another tab
+  // or an earlier check got there first, so each notice is sent once
+  claim(notice: SlaNotice): Promise<boolean>;
+  // Gives a claim back when the notice could not be recorded on its contract
+  release(id: string): Promise<void>;
+}
+
+export const createIndexedDbSlaNoticeRepository = (): SlaNoticeRepository => ({
+  list: () =>
+    withStore(STORES.SLA_NOTICES, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<SlaNotice[]>)
+    ),
+
+  claim: (notice) =>
+    withStore(STORES.SLA_NOTICES, 'readwrite', async store => {
+      if (await requestToPromise(store.getKey(notice.id))) return false;
+      await requestToPromise(store.put(notice));
+      return true;
+    }),
+
+  release: (id) =>
+    withStore(STORES.SLA_NOTICES, 'readwrite', async store => {
+      await requestToPromise(store.delete(id));
+    }),
+});
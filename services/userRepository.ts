@@ -0,0 +1,82 @@
+import { User } from '../types';
+import { STORES, withStore, requestToPromise } from './indexedDb';
+
+// The user directory shared by sign-in, the workflow and Admin Settings.
+export interface UserRepository {
+  list(): Promise<User[]>;
+  get(id: string): Promise<User | undefined>;
+  create(user: User): Promise<User>;
+  update(user: User): Promise<User>;
+  delete(id: string): Promise<void>;
+}
+
+export class UserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`User ${id} does not exist`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+export class UserAlreadyExistsError extends Error {
+  constructor(email: string) {
+    super(`A user with the email ${email} already exists`);
+    this.name = 'UserAlreadyExistsError';
+  }
+}
+
+// Raised by callers when a lifecycle guardrail (utils/userLifecycle) refuses a change
+export class UserChangeBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserChangeBlockedError';
+  }
+}
+
+const sameEmail = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const listAll = (store: IDBObjectStore) =>
+  requestToPromise(store.getAll() as IDBRequest<User[]>);
+
+export const createIndexedDbUserRepository = (): UserRepository => ({
+  list: () => withStore(STORES.USERS, 'readonly', listAll),
+
+  get: (id) =>
+    withStore(STORES.USERS, 'readonly', store =>
+      requestToPromise(store.get(id) as IDBRequest<User | undefined>)
+    ),
+
+  // Emails are the sign-in name (and the SSO match), so they must be unique
+  create: (user) =>
+    withStore(STORES.USERS, 'readwrite', async store => {
+      const all = await listAll(store);
+      if (all.some(u => u.id === user.id || sameEmail(u.email, user.email))) throw new UserAlreadyExistsError(user.email);
+      await requestToPromise(store.add(user));
+      return user;
+    }),
+
+  update: (user) =>
+    withStore(STORES.USERS, 'readwrite', async store => {
+      const all = await listAll(store);
+      if (!all.some(u => u.id === user.id)) throw new UserNotFoundError(user.id);
+      if (all.some(u => u.id !== user.id && sameEmail(u.email, user.email))) throw new UserAlreadyExistsError(user.email);
+      await requestToPromise(store.put(user));
+      return user;
+    }),
+
+  delete: (id) =>
+    withStore(STORES.USERS, 'readwrite', async store => {
+      await requestToPromise(store.delete(id));
+    }),
+});
+
+// The directory starts from the built-in users (e.g. MOCK_USERS) the first time
+// the app runs. Existing users are never overwritten.
+export const seedUserDirectory = async (repository: UserRepository, seed: User[]): Promise<boolean> => {
+  const existing = await repository.list();
+  if (existing.length > 0) return false;
+
+  for (const user of seed) {
+    await repository.create(user);
+  }
+  return true;
+};
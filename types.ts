@@ -26,6 +26,11 @@ export enum ContractStatus {
   CHANGES_REQUESTED = 'Changes Requested'
 }
 
+export enum ApprovalStage {
+  CORPORATE = 'Corporate Review',
+  CEO = 'CEO Approval'
+}
+
 export enum RiskCategory {
   FINANCIAL = 'Financial',
   LEGAL = 'Legal/Contractual',
@@ -34,20 +39,154 @@ export enum RiskCategory {
   THIRD_PARTY = 'Third Party'
 }
 
+export enum RiskBand {
+  LOW = 'Low',
+  MEDIUM = 'Medium',
+  HIGH = 'High',
+  CRITICAL = 'Critical'
+}
+
 export interface User {
   id: string;
   name: string;
+  email: string;
   role: UserRole;
   entity: Entity;
   avatar?: string;
   isActive: boolean;
 }
 
+// --- Authentication (services/authService) ---
+
+export type AuthProvider = 'password' | 'oidc';
+
+// Local sign-in credential; one per user, keyed by user ID
+export interface UserCredential {
+  id: string; // User ID
+  username: string; // Lower-cased login name (the user's email)
+  passwordHash: string; // Base64 PBKDF2-SHA256 derived key
+  salt: string; // Base64
+  iterations: number;
+  updatedAt: number;
+}
+
+export interface AuthSession {
+  id: string; // Random token; the browser keeps it in localStorage
+  userId: string;
+  provider: AuthProvider;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Approval authority lent to another user for a date range, e.g. while the
+// delegator is out of office (utils/delegation)
+export interface ApprovalDelegation {
+  id: string;
+  delegatorId: string; // User whose authority is lent
+  delegateId: string; // User who may approve on their behalf
+  startDate: string; // yyyy-mm-dd, inclusive
+  endDate: string; // yyyy-mm-dd, inclusive
+  reason?: string;
+  createdBy: string; // User ID (the delegator, or an admin)
+  createdAt: number;
+  revokedAt?: number;
+  revokedBy?: string; // User ID
+}
+
+// --- Permissions (checked with utils/permissions) ---
+
+export enum Permission {
+  CONTRACT_CREATE = 'contract.create',
+  CONTRACT_EDIT = 'contract.edit',
+  CONTRACT_IMPORT = 'contract.import',
+  CONTRACT_IMPORT_APPROVED = 'contract.import.approved',
+  CONTRACT_APPROVE_CORPORATE = 'contract.approve.corporate',
+  CONTRACT_APPROVE_FINAL = 'contract.approve.final',
+  REVIEWER_ADD = 'reviewer.add',
+  AI_RUN = 'ai.run',
+  AUDIT_VIEW = 'audit.view',
+  ADMIN_USERS = 'admin.users',
+  ADMIN_SETTINGS = 'admin.settings'
+}
+
+// Permissions granted to each role (editable in Admin Settings)
+export type RolePermissionMatrix = Record<UserRole, Permission[]>;
+
+// Workflow events that send notifications (recipients: utils/notificationRecipients,
+// content: utils/emailTemplates)
+export enum NotificationEvent {
+  SUBMITTED = 'Submitted',
+  CHANGES_REQUESTED = 'Changes Requested',
+  REJECTED = 'Rejected',
+  APPROVED = 'Approved',
+  ESCALATED_TO_CEO = 'Escalated to CEO',
+  REVIEWER_ADDED = 'Reviewer Added',
+  COMMENT_MENTION = 'Comment Mention',
+  SLA_REMINDER = 'SLA Reminder',
+  SLA_ESCALATION = 'SLA Escalation'
+}
+
+// Entry in a user's in-app notification inbox (bell in the header)
+export interface InAppNotification {
+  id: string;
+  userId: string; // Recipient
+  event: NotificationEvent | 'Comment Added';
+  contractId: string;
+  message: string;
+  tab: string; // ReviewDetail tab to open
+  actorName?: string;
+  createdAt: number;
+  readAt?: number;
+}
+
+// How far a user has read a contract's comments. Kept in its own store, so
+// opening the Comments tab never rewrites the contract.
+export interface CommentReadMarker {
+  id: string; // `${userId}|${contractId}`
+  userId: string;
+  contractId: string;
+  lastReadAt: number; // Timestamp of the newest comment read
+}
+
 export interface RiskTrigger {
   id: string;
   category: RiskCategory;
   description: string;
   triggered: boolean;
+  isAuto?: boolean; // Set by the system rather than the submitter's checklist
+  weight?: number; // Severity contribution to the risk score (1 if unset)
+}
+
+// --- Risk trigger rules (evaluated by utils/riskRulesEngine) ---
+
+export type RuleField =
+  | 'amount' | 'originalAmount' | 'liabilityCapPercent' | 'subcontractingPercent' | 'durationYears'
+  | 'contractType' | 'priceStructure' | 'entity'
+  | 'isStandardTerms' | 'isSubcontracting' | 'hasExtensionOptions';
+
+export type RuleOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: number | string | boolean;
+}
+
+export interface RiskTriggerRule {
+  id: string;
+  category: RiskCategory;
+  description: string;
+  // auto: raised when all conditions hold; manual: submitter checklist; doa: raised by a DoA value band
+  mode: 'auto' | 'manual' | 'doa';
+  conditions: RuleCondition[]; // Combined with AND
+  weight: number; // Severity: 1 (minor) to 10 (severe)
+}
+
+export interface RiskRuleSet {
+  version: number;
+  rules: RiskTriggerRule[];
+  publishedAt: number;
+  publishedBy?: string;
 }
 
 export interface AuditLog {
@@ -57,8 +196,17 @@ export interface AuditLog {
   userName: string;
   action: string;
   details?: string;
+  // Hash chain (utils/auditChain). Entries recorded before chaining have none of these.
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
 }
 
+// What a comment refers to: a contract field or a page of an attached document
+export type CommentAnchor =
+  | { type: 'field'; field: keyof ContractData }
+  | { type: 'document'; documentId: string; page: number };
+
 export interface Comment {
   id: string;
   userId: string;
@@ -67,6 +215,11 @@ export interface Comment {
   text: string;
   timestamp: number;
   likes?: string[]; // Array of User IDs who liked the comment
+  parentId?: string; // Root comment this replies to
+  mentions?: string[]; // IDs of users @mentioned in the text
+  anchor?: CommentAnchor; // Root comments only; unresolved anchored comments block resubmission
+  resolvedAt?: number;
+  resolvedBy?: string; // User name
 }
 
 export interface ContractReview {
@@ -78,6 +231,51 @@ export interface ContractReview {
   comment: string; // Justification
   timestamp: number;
   isAdHoc?: boolean;
+  // Set when a delegate decided using someone else's authority; `role` is then the delegator's
+  onBehalfOfId?: string;
+  onBehalfOfName?: string;
+}
+
+export type ContractType = 'CAPEX' | 'OPEX' | 'MIXED';
+
+// Delegation of Authority: one value band of the matrix
+export interface DoaRule {
+  id: string;
+  entity: Entity | 'ALL';
+  contractTypes: ContractType[];
+  minAmountUsd: number;
+  maxAmountUsd?: number; // Open-ended band when undefined
+  approverRoles: UserRole[];
+  riskTriggerId?: string; // Financial risk trigger raised for contracts in this band
+}
+
+export interface ApprovalRoute {
+  stages: ApprovalStage[];
+  corporateRoles: UserRole[]; // Sign-offs required at the corporate stage
+  reasons: string[]; // Why the contract was escalated beyond corporate review
+  derivedAt: number;
+}
+
+// Workflow stages with a turnaround target
+export type SlaStage = ContractStatus.SUBMITTED | ContractStatus.PENDING_CEO;
+
+// Turnaround targets in calendar days (editable in Admin Settings, utils/sla)
+export interface SlaPolicy {
+  stageTargetDays: Record<SlaStage, number>;
+  reviewerTargetDays: number; // Per required sign-off and per ad hoc reviewer
+  reminderLeadDays: number; // Remind the reviewer this long before the deadline
+  autoEscalate: boolean;
+  escalationRoles: UserRole[]; // Notified when a deadline is breached
+}
+
+// An SLA reminder or escalation already sent for one clock (never sent twice).
+// Kept in their own store, so the SLA check never rewrites contracts.
+export interface SlaNotice {
+  id: string; // `${contractId}|${clockId}|${kind}`
+  contractId: string;
+  clockId: string;
+  kind: 'reminder' | 'escalation';
+  sentAt: number;
 }
 
 export interface ContractDocument {
@@ -114,7 +312,7 @@ export interface ContractData {
   title: string;
   project?: string; // New Field
   contractorName: string;
-  contractType: 'CAPEX' | 'OPEX' | 'MIXED'; 
+  contractType: ContractType; 
   
   // Financials
   amount: number; // USD Equivalent (Used for risk logic)
@@ -159,12 +357,16 @@ export interface ContractData {
   submitterId: string;
   submissionDate?: number;
   detectedTriggers: RiskTrigger[];
-  isHighRisk: boolean;
+  isHighRisk: boolean; // Any trigger raised; drives CEO routing
+  riskScore?: number; // Sum of triggered weights
+  riskBand?: RiskBand;
+  riskRuleSetVersion?: number; // Rule set the triggers were assessed under (1 if unset)
+  approvalRoute?: ApprovalRoute;
   
   // Approvals/Comments/Docs
   auditTrail: AuditLog[];
   comments: Comment[];
-  hasUnreadComments?: boolean;
+  commentReadMarkers?: Record<string, number>; // Legacy: user ID -> last comment read, superseded by CommentReadMarker records
   reviews: ContractReview[];
   adHocReviewers: AdHocReviewer[];
   documents: ContractDocument[];
@@ -175,3 +377,18 @@ export interface ContractData {
     functionHead?: boolean;
   };
 }
+
+// Submitted content only; workflow state (status, reviews, comments, audit) lives on the contract
+export type ContractSnapshot = Omit<ContractData,
+  'status' | 'auditTrail' | 'comments' | 'commentReadMarkers' | 'reviews' | 'adHocReviewers' | 'aiRiskAnalysis' | 'corporateApprovals'>;
+
+// Immutable copy of a contract taken at each submission
+export interface ContractVersion {
+  id: string; // `${contractId}-v${version}`
+  contractId: string;
+  version: number; // 1 = first submission
+  submittedAt: number;
+  submittedBy: string; // User ID
+  submittedByName: string;
+  data: ContractSnapshot;
+}
@@ -0,0 +1,50 @@
+import { ContractData, Entity, User, UserRole } from '../types';
+
+// Which contracts a user may see and change. Corporate and executive roles
+// (based in London) work across every entity; entity staff such as SCM only
+// see their own entity's contracts; ad hoc reviewer roles (HSE, Engineering)
+// only see the contracts they have been invited to. Anyone added to a contract
+// as an ad hoc reviewer can see it, whatever its entity. While a user holds
+// someone's approval authority (utils/delegation) they also see what that
+// delegator sees; `delegators` lists them.
+// Enforced by services/scopedContractRepository on every read and write.
+
+export type ContractScope = 'all' | 'entity' | 'assigned';
+
+export const GROUP_WIDE_ROLES = [UserRole.CORPORATE_CFO, UserRole.CORPORATE_LEGAL, UserRole.CORPORATE_FUNCTION, UserRole.CEO, UserRole.ADMIN];
+export const AD_HOC_ROLES = [UserRole.ENGINEERING, UserRole.HSE];
+
+export const getContractScope = (user: User): ContractScope => {
+  if (GROUP_WIDE_ROLES.includes(user.role)) return 'all';
+  if (AD_HOC_ROLES.includes(user.role)) return 'assigned';
+  return 'entity';
+};
+
+// Entities the user can create contracts for (and see every contract of)
+export const getScopedEntities = (user: User): Entity[] => {
+  switch (getContractScope(user)) {
+    case 'all': return Object.values(Entity);
+    case 'entity': return [user.entity];
+    default: return [];
+  }
+};
+
+const isAssigned = (user: User, contract: ContractData) =>
+  (contract.adHocReviewers || []).some(r => r.userId === user.id);
+
+const isInOwnScope = (user: User, contract: ContractData) =>
+  getScopedEntities(user).includes(contract.entity) || isAssigned(user, contract);
+
+export const canViewContract = (user: User, contract: ContractData, delegators: User[] = []): boolean =>
+  user.isActive && [user, ...delegators].some(u => isInOwnScope(u, contract));
+
+export const canCreateContract = (user: User, contract: Pick<ContractData, 'entity'>): boolean =>
+  user.isActive && getScopedEntities(user).includes(contract.entity);
+
+// An update must start from a contract the user can see and must not move it
+// to an entity they cannot create contracts for
+export const canUpdateContract = (user: User, existing: ContractData, updated: ContractData, delegators: User[] = []): boolean =>
+  canViewContract(user, existing, delegators) && (updated.entity === existing.entity || canCreateContract(user, updated));
+
+export const filterVisibleContracts = (user: User, contracts: ContractData[], delegators: User[] = []) =>
+  contracts.filter(c => canViewContract(user, c, delegators));
@@ -0,0 +1,126 @@
+import { ContractData, ContractStatus, User } from '../types';
+import { createPdfDocument } from './pdfWriter';
+import { getApprovalRoute } from './approvalWorkflow';
+import { getContractRiskBand, getContractRiskScore } from './riskScore';
+import { formatReviewerName } from './delegation';
+
+const formatDate = (value?: string | number) => {
+  if (value === undefined || value === '') return '';
+  const date = typeof value === 'number' ? new Date(value) : new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatMoney = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// The AI analysis is stored as markdown; the memo prints it as plain text
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/^#{1,6}\s*/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/(^|\s)[*_](\S.*?)[*_](?=\s|$)/g, '$1$2')
+    .replace(/^\s*[-*]\s+/gm, '• ')
+    .replace(/`/g, '');
+
+export const approvalMemoFilename = (contract: ContractData) => `approval-memo-${contract.id}.pdf`;
+
+// "High Risk Contract Approval Memo" for an approved contract, as a PDF file
+export const createApprovalMemoPdf = (contract: ContractData, users: User[], generatedBy: User): ArrayBuffer => {
+  if (contract.status !== ContractStatus.APPROVED) {
+    throw new Error(`Contract ${contract.id} is not approved yet`);
+  }
+
+  const generatedAt = Date.now();
+  const submitter = users.find(u => u.id === contract.submitterId);
+  // The final required sign-off is the one that moved the contract to Approved
+  const approvedAt = Math.max(0, ...(contract.reviews || []).filter(r => r.decision === 'Approved' && !r.isAdHoc).map(r => r.timestamp));
+
+  const doc = createPdfDocument({
+    title: `High Risk Contract Approval Memo - ${contract.id}`,
+    footer: `${contract.id}  |  Generated ${formatDateTime(generatedAt)} by ${generatedBy.name}`,
+  });
+
+  doc.heading('High Risk Contract Approval Memo', 1);
+  doc.paragraph(`${contract.title || contract.contractorName} (${contract.id})`, { size: 12, bold: true });
+  doc.paragraph(`Status: APPROVED${approvedAt ? ` on ${formatDateTime(approvedAt)}` : ''}`, { color: [21, 128, 61] });
+  doc.space(4);
+
+  doc.heading('Company Details');
+  doc.fields([
+    ['Entity', contract.entity],
+    ['Department', contract.department],
+    ['Project', contract.project || ''],
+    ['Submitted By', `${submitter?.name || 'Unknown'}${contract.submissionDate ? ` on ${formatDate(contract.submissionDate)}` : ''}`],
+    ['SAP Number', contract.sapNumber || ''],
+    ['DDQ Number', contract.ddqNumber || ''],
+    ['DDQ Date / Valid Until', [formatDate(contract.ddqDate), formatDate(contract.ddqValidityDate)].filter(Boolean).join(' / ')],
+    ['Other Checks', contract.otherChecksDetails || ''],
+  ]);
+
+  doc.heading('Contract & Financials');
+  doc.fields([
+    ['Contractor', contract.contractorName],
+    ['Contract Type', contract.contractType],
+    ['Value (USD)', formatMoney(contract.amount, 'USD')],
+    ['Original Value', contract.originalCurrency && contract.originalCurrency !== 'USD'
+      ? `${formatMoney(contract.originalAmount, contract.originalCurrency)} at ${contract.exchangeRate} USD per ${contract.originalCurrency}`
+      : formatMoney(contract.originalAmount || contract.amount, 'USD')],
+    ['Term', `${formatDate(contract.startDate)} to ${formatDate(contract.endDate)}${contract.hasExtensionOptions ? ' (with extension options)' : ''}`],
+    ['Price Structure', contract.priceStructure],
+    ['Standard Terms', contract.isStandardTerms ? 'Yes' : `No - ${contract.deviationsDescription || 'deviations not described'}`],
+    ['Liability Cap', `${contract.liabilityCapPercent}% of contract value`],
+    ['Subcontracting', contract.isSubcontracting ? `${contract.subcontractingPercent}%` : 'None'],
+    ['Scope of Work', contract.scopeOfWork],
+  ]);
+
+  doc.heading('Executive Summary');
+  doc.fields([
+    ['Background & Need', contract.backgroundNeed],
+    ['Tender Process', contract.tenderProcessSummary],
+    ['Special Considerations', contract.specialConsiderations],
+  ]);
+
+  doc.heading('Evaluations');
+  doc.fields([
+    ['Technical Evaluation', contract.technicalEvalSummary],
+    ['Commercial Evaluation', contract.commercialEvalSummary],
+  ]);
+
+  doc.heading('Risk Assessment');
+  const triggered = (contract.detectedTriggers || []).filter(t => t.triggered);
+  doc.fields([
+    ['Risk Score', `${getContractRiskScore(contract)} (${getContractRiskBand(contract)})`],
+    ['Approval Route', getApprovalRoute(contract).stages.join(' > ')],
+    ['Risk Description', contract.riskDescription],
+    ['Mitigation Measures', contract.mitigationMeasures],
+  ]);
+  doc.space(4);
+  doc.paragraph('Triggered risks', { bold: true, size: 9.5 });
+  if (triggered.length === 0) {
+    doc.paragraph(contract.isHighRisk ? 'Manually flagged as high risk' : 'No risk triggers raised', { indent: 12, size: 9.5 });
+  }
+  triggered.forEach(t => {
+    doc.paragraph(`• [${t.category}] ${t.description}${t.weight ? ` (weight ${t.weight})` : ''}`, { indent: 12, size: 9.5 });
+  });
+
+  doc.heading('Reviews & Decisions');
+  const reviews = [...(contract.reviews || [])].sort((a, b) => a.timestamp - b.timestamp);
+  if (reviews.length === 0) doc.paragraph('No reviews recorded.', { size: 9.5 });
+  reviews.forEach((review, i) => {
+    if (i > 0) doc.rule();
+    doc.paragraph(`${formatReviewerName(review)} - ${review.role}${review.isAdHoc ? ' (ad hoc)' : ''}`, { bold: true, size: 10 });
+    doc.fields([
+      ['Decision', review.decision],
+      ['Date', formatDateTime(review.timestamp)],
+      ['Justification', review.comment],
+    ]);
+  });
+
+  doc.heading('AI Risk Analysis');
+  doc.paragraph(contract.aiRiskAnalysis ? stripMarkdown(contract.aiRiskAnalysis) : 'No AI risk analysis was saved for this contract.', { size: 9.5 });
+
+  return doc.toArrayBuffer();
+};
@@ -0,0 +1,137 @@
+import { ContractData, ContractStatus, UserRole, ApprovalRoute, ApprovalStage, DoaRule, Permission, RolePermissionMatrix, User } from '../types';
+import { CORPORATE_REVIEW_CONFIG, DEFAULT_DOA_MATRIX } from '../constants';
+import { findMatchingDoaRules, getDoaApproverRoles, describeDoaRule } from './doaMatrix';
+import { hasPermission } from './permissions';
+import { getReviewAuthorityId } from './delegation';
+
+// Closing sentence of the 'Corporate Review Complete' audit entry when the contract moves to the CEO
+export const ESCALATED_TO_CEO_NOTE = 'Escalated to CEO approval.';
+
+type CorporateApprovalKey = keyof ContractData['corporateApprovals'];
+
+// Maps each corporate reviewer role to the flag it sets in `corporateApprovals`
+export const CORPORATE_APPROVAL_KEYS: Partial<Record<UserRole, CorporateApprovalKey>> = {
+  [UserRole.CORPORATE_CFO]: 'cfo',
+  [UserRole.CORPORATE_LEGAL]: 'legal',
+  [UserRole.CORPORATE_FUNCTION]: 'functionHead',
+};
+
+export const isCorporateReviewer = (role: UserRole): boolean =>
+  CORPORATE_APPROVAL_KEYS[role] !== undefined;
+
+type RoutingSubject = Pick<ContractData, 'isHighRisk' | 'detectedTriggers' | 'amount' | 'entity' | 'contractType'>;
+
+// Derives the approval chain from the DoA matrix and the risk profile. Every contract
+// goes through corporate review; it escalates to the CEO when it is high risk or its
+// DoA band lists the CEO as an approver.
+export const deriveApprovalRoute = (contract: RoutingSubject, doaMatrix: DoaRule[] = DEFAULT_DOA_MATRIX): ApprovalRoute => {
+  const doaRules = findMatchingDoaRules(doaMatrix, contract);
+  const doaCorporateRoles = getDoaApproverRoles(doaRules).filter(isCorporateReviewer);
+  const reasons: string[] = [];
+
+  if (contract.isHighRisk) {
+    const triggered = (contract.detectedTriggers || []).filter(t => t.triggered);
+    if (triggered.length > 0) {
+      triggered.forEach(t => reasons.push(t.description));
+    } else {
+      reasons.push('Manual High Risk Flag');
+    }
+  }
+
+  // DoA bands whose own financial trigger is already listed above add nothing new
+  const triggeredIds = (contract.detectedTriggers || []).filter(t => t.triggered).map(t => t.id);
+  doaRules
+    .filter(rule => rule.approverRoles.includes(UserRole.CEO))
+    .filter(rule => !(contract.isHighRisk && rule.riskTriggerId && triggeredIds.includes(rule.riskTriggerId)))
+    .forEach(rule => reasons.push(`DoA: ${describeDoaRule(rule)}`));
+
+  return {
+    stages: reasons.length > 0 ? [ApprovalStage.CORPORATE, ApprovalStage.CEO] : [ApprovalStage.CORPORATE],
+    corporateRoles: doaCorporateRoles.length > 0 ? doaCorporateRoles : CORPORATE_REVIEW_CONFIG.requiredRoles,
+    reasons,
+    derivedAt: Date.now(),
+  };
+};
+
+// Submitted contracts carry the route recorded against the saved matrix (routes
+// missing from older records are stored when contracts load). Drafts are routed
+// on the fly; pass the saved matrix where it is at hand.
+export const getApprovalRoute = (contract: ContractData, doaMatrix?: DoaRule[]): ApprovalRoute =>
+  contract.approvalRoute || deriveApprovalRoute(contract, doaMatrix);
+
+export const requiresCeoApproval = (contract: ContractData): boolean =>
+  getApprovalRoute(contract).stages.includes(ApprovalStage.CEO);
+
+export const hasCorporateApproval = (contract: ContractData, role: UserRole): boolean => {
+  const key = CORPORATE_APPROVAL_KEYS[role];
+  return !!key && !!contract.corporateApprovals?.[key];
+};
+
+export const recordCorporateApproval = (
+  approvals: ContractData['corporateApprovals'],
+  role: UserRole
+): ContractData['corporateApprovals'] => {
+  const key = CORPORATE_APPROVAL_KEYS[role];
+  return key ? { ...approvals, [key]: true } : approvals;
+};
+
+// Number of corporate sign-offs needed for this contract
+export const getCorporateQuorum = (contract: ContractData): number =>
+  Math.min(CORPORATE_REVIEW_CONFIG.quorum, getApprovalRoute(contract).corporateRoles.length);
+
+// Required corporate roles that have not signed off yet
+export const getOutstandingCorporateApprovals = (contract: ContractData): UserRole[] =>
+  getApprovalRoute(contract).corporateRoles.filter(role => !hasCorporateApproval(contract, role));
+
+export const isCorporateQuorumMet = (contract: ContractData): boolean => {
+  const { corporateRoles } = getApprovalRoute(contract);
+  const approvedCount = corporateRoles.length - getOutstandingCorporateApprovals(contract).length;
+  return approvedCount >= getCorporateQuorum(contract);
+};
+
+// Roles whose decision the contract is currently waiting on (none once it leaves review)
+export const getPendingApproverRoles = (contract: ContractData): UserRole[] => {
+  if (contract.status === ContractStatus.SUBMITTED) return getOutstandingCorporateApprovals(contract);
+  if (contract.status === ContractStatus.PENDING_CEO) return [UserRole.CEO];
+  return [];
+};
+
+export interface ApprovalAuthority {
+  isAdHocReviewer: boolean;
+  isRequiredSignOff: boolean; // Holds a corporate sign-off this contract's route requires
+  isFinalApprover: boolean;
+  canApprove: boolean; // May decide on the contract now
+}
+
+// Who gave the sign-off currently counted for `role`, if any
+const getCorporateSignOffBy = (contract: ContractData, role: UserRole): string | undefined => {
+  if (!hasCorporateApproval(contract, role)) return undefined;
+  const approvals = (contract.reviews || []).filter(r => !r.isAdHoc && r.role === role && r.decision === 'Approved');
+  return approvals.sort((a, b) => b.timestamp - a.timestamp)[0]?.reviewerId;
+};
+
+// What `approver` may decide on this contract. A delegate calls this with the
+// delegator, since they act with the delegator's role and assignments, and
+// passes themselves as `actor`. Nobody may approve a contract they submitted,
+// and one person may only give one of the corporate sign-offs, whoever's
+// authority they use.
+export const getApprovalAuthority = (approver: User, contract: ContractData, rolePermissions: RolePermissionMatrix, actor: User = approver): ApprovalAuthority => {
+  const can = (permission: Permission) => hasPermission(approver, permission, rolePermissions);
+  const isAdHocReviewer = (contract.adHocReviewers || []).some(r => r.userId === approver.id);
+  const hasReviewedAlready = (contract.reviews || []).some(r => getReviewAuthorityId(r) === approver.id);
+  const isRequiredSignOff = can(Permission.CONTRACT_APPROVE_CORPORATE) && getApprovalRoute(contract).corporateRoles.includes(approver.role);
+  const isFinalApprover = can(Permission.CONTRACT_APPROVE_FINAL);
+  const isSubmitter = contract.submitterId === approver.id || contract.submitterId === actor.id;
+  const hasOtherSignOff = getApprovalRoute(contract).corporateRoles
+    .some(role => role !== approver.role && getCorporateSignOffBy(contract, role) === actor.id);
+
+  // Ad hoc reviewers may respond at any point while the contract is still in play
+  const isContractActive = contract.status === ContractStatus.SUBMITTED || contract.status === ContractStatus.PENDING_CEO || contract.status === ContractStatus.CHANGES_REQUESTED;
+  const canApprove = isContractActive && !isSubmitter && (
+    (isRequiredSignOff && !hasCorporateApproval(contract, approver.role) && !hasOtherSignOff && contract.status === ContractStatus.SUBMITTED) ||
+    (isFinalApprover && contract.status === ContractStatus.PENDING_CEO) ||
+    (isAdHocReviewer && !hasReviewedAlready)
+  );
+
+  return { isAdHocReviewer, isRequiredSignOff, isFinalApprover, canApprove };
+};
@@ -0,0 +1,100 @@
+import { AuditLog } from '../types';
+import { sha256 } from './sha256';
+
+// Append-only, hash-chained audit trail. Each entry's hash covers its content and
+// the previous entry's hash, so editing, reordering or removing an entry breaks
+// every hash after it.
+
+export type AuditEntryInput = Pick<AuditLog, 'userId' | 'userName' | 'action' | 'details'> & { timestamp?: number };
+
+export type AuditVerificationStatus = 'verified' | 'tampered' | 'unverified';
+
+export interface AuditChainIssue {
+  entryId: string;
+  problem: string;
+}
+
+export interface AuditVerificationResult {
+  status: AuditVerificationStatus;
+  verifiedCount: number;
+  legacyCount: number; // Entries recorded before chaining; they cannot be verified
+  issues: AuditChainIssue[];
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const isChained = (entry: AuditLog) => entry.hash !== undefined;
+
+const computeHash = (entry: Omit<AuditLog, 'id' | 'hash'>): string =>
+  sha256(JSON.stringify([entry.sequence, entry.previousHash, entry.timestamp, entry.userId, entry.userName, entry.action, entry.details ?? null]));
+
+const getHead = (trail: AuditLog[]): AuditLog | undefined =>
+  trail.filter(isChained).reduce<AuditLog | undefined>((head, e) => !head || e.sequence! > head.sequence! ? e : head, undefined);
+
+// Returns a new trail with the entry chained onto the latest one. The input is never modified.
+export const appendAuditEntry = (trail: AuditLog[] | undefined, input: AuditEntryInput): AuditLog[] => {
+  const head = getHead(trail || []);
+  const sequence = head ? head.sequence! + 1 : 1;
+  const chained = {
+    timestamp: input.timestamp ?? Date.now(),
+    userId: input.userId,
+    userName: input.userName,
+    action: input.action,
+    ...(input.details !== undefined ? { details: input.details } : {}),
+    sequence,
+    previousHash: head ? head.hash! : GENESIS_HASH,
+  };
+  const hash = computeHash(chained);
+  return [...(trail || []), { id: `aud-${sequence}-${hash.slice(0, 12)}`, ...chained, hash }];
+};
+
+// Re-chains the entries an edited copy added onto the latest stored trail, so
+// entries another writer appended since the copy was taken are kept
+export const rebaseAuditTrail = (stored: AuditLog[] | undefined, edited: AuditLog[] | undefined): AuditLog[] => {
+  const storedIds = new Set((stored || []).map(e => e.id));
+  return (edited || [])
+    .filter(e => !storedIds.has(e.id))
+    .reduce<AuditLog[]>((trail, e) => appendAuditEntry(trail, {
+      timestamp: e.timestamp, userId: e.userId, userName: e.userName, action: e.action, details: e.details,
+    }), stored || []);
+};
+
+// Builds a chained trail from a list of entries, e.g. seed data
+export const buildAuditTrail = (inputs: AuditEntryInput[]): AuditLog[] =>
+  inputs.reduce<AuditLog[]>((trail, input) => appendAuditEntry(trail, input), []);
+
+// Checks every chained entry's hash and link to its predecessor. When the
+// separately stored copy of the log is given, entries missing from the
+// contract or differing from the stored copy are reported too.
+export const verifyAuditTrail = (trail: AuditLog[] | undefined, stored: AuditLog[] = []): AuditVerificationResult => {
+  const entries = trail || [];
+  const chained = entries.filter(isChained).sort((a, b) => a.sequence! - b.sequence!);
+  const issues: AuditChainIssue[] = [];
+
+  let previous: AuditLog | undefined;
+  for (const entry of chained) {
+    if (computeHash(entry) !== entry.hash) {
+      issues.push({ entryId: entry.id, problem: 'Content does not match its hash (entry was edited)' });
+    }
+    const expectedSequence = previous ? previous.sequence! + 1 : 1;
+    const expectedPrevious = previous ? previous.hash : GENESIS_HASH;
+    if (entry.sequence !== expectedSequence || entry.previousHash !== expectedPrevious) {
+      issues.push({ entryId: entry.id, problem: `Chain broken before entry #${entry.sequence} (entries removed or reordered)` });
+    }
+    previous = entry;
+  }
+
+  const byId = new Map(chained.map(e => [e.id, e]));
+  for (const original of stored) {
+    const current = byId.get(original.id);
+    if (!current) issues.push({ entryId: original.id, problem: `Entry #${original.sequence} "${original.action}" is missing from the contract` });
+    else if (current.hash !== original.hash) issues.push({ entryId: original.id, problem: `Entry #${original.sequence} differs from the archived copy` });
+  }
+
+  return {
+    status: issues.length > 0 ? 'tampered' : chained.length > 0 ? 'verified' : 'unverified',
+    verifiedCount: issues.length > 0 ? 0 : chained.length,
+    legacyCount: entries.length - chained.length,
+    issues,
+  };
+};
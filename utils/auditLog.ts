@@ -0,0 +1,75 @@
+import { AuditLog, ContractData, ContractStatus, Entity } from '../types';
+import { toCsv } from './fileExport';
+
+// One audit entry together with the contract it belongs to
+export interface AuditActivity extends AuditLog {
+  contractId: string;
+  contractTitle: string;
+  contractStatus: ContractStatus;
+  entity: Entity;
+}
+
+export interface AuditLogFilters {
+  userId: string; // 'ALL' for everyone
+  action: string; // 'ALL' for every action
+  entity: Entity | 'ALL';
+  from: string; // yyyy-mm-dd, inclusive; '' for no bound
+  to: string;
+  search: string; // Matched against details
+}
+
+export const EMPTY_AUDIT_FILTERS: AuditLogFilters = { userId: 'ALL', action: 'ALL', entity: 'ALL', from: '', to: '', search: '' };
+
+// Every contract's audit trail merged into one list, newest first
+export const flattenAuditTrails = (contracts: ContractData[]): AuditActivity[] =>
+  contracts
+    .flatMap(c => (c.auditTrail || []).map(log => ({
+      ...log,
+      contractId: c.id,
+      contractTitle: c.contractorName,
+      contractStatus: c.status,
+      entity: c.entity,
+    })))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+// Date inputs are local days, so bounds are local midnight
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export const filterAuditActivities = (activities: AuditActivity[], filters: AuditLogFilters): AuditActivity[] => {
+  const from = filters.from ? startOfDay(filters.from) : -Infinity;
+  const to = filters.to ? startOfDay(filters.to) + 86400000 : Infinity;
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return activities.filter(a =>
+    (filters.userId === 'ALL' || a.userId === filters.userId) &&
+    (filters.action === 'ALL' || a.action === filters.action) &&
+    (filters.entity === 'ALL' || a.entity === filters.entity) &&
+    a.timestamp >= from && a.timestamp < to &&
+    // Every search word must appear somewhere in the details
+    terms.every(term => (a.details || '').toLowerCase().includes(term))
+  );
+};
+
+export const auditActivitiesToCsv = (activities: AuditActivity[]): string =>
+  toCsv([
+    ['Timestamp', 'User ID', 'User', 'Action', 'Details', 'Contract ID', 'Contractor', 'Entity', 'Sequence', 'Hash'],
+    ...activities.map(a => [
+      new Date(a.timestamp).toISOString(), a.userId, a.userName, a.action, a.details,
+      a.contractId, a.contractTitle, a.entity, a.sequence, a.hash,
+    ]),
+  ]);
+
+export const auditActivitiesToJson = (activities: AuditActivity[]): string =>
+  JSON.stringify(activities.map(a => ({
+    timestamp: new Date(a.timestamp).toISOString(),
+    userId: a.userId,
+    userName: a.userName,
+    action: a.action,
+    details: a.details ?? null,
+    contractId: a.contractId,
+    contractor: a.contractTitle,
+    entity: a.entity,
+    sequence: a.sequence ?? null,
+    previousHash: a.previousHash ?? null,
+    hash: a.hash ?? null,
+  })), null, 2);
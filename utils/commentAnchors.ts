@@ -0,0 +1,37 @@
+import { Comment, CommentAnchor, ContractData } from '../types';
+
+// Contract fields reviewers can attach a comment to, with the label shown in the UI
+export const ANCHORABLE_FIELDS: Partial<Record<keyof ContractData, string>> = {
+  contractorName: 'Contractor',
+  amount: 'Contract Value',
+  priceStructure: 'Pricing Structure',
+  startDate: 'Start Date',
+  endDate: 'End Date',
+  backgroundNeed: 'Background & Need',
+  scopeOfWork: 'Scope of Work',
+  ddqNumber: 'Vendor Qualification (DDQ)',
+  isStandardTerms: 'Standard Terms',
+  liabilityCapPercent: 'Liability Cap',
+  subcontractingPercent: 'Subcontracting',
+  deviationsDescription: 'Deviations',
+};
+
+export const describeAnchor = (anchor: CommentAnchor, contract: ContractData): string => {
+  if (anchor.type === 'field') return ANCHORABLE_FIELDS[anchor.field] || String(anchor.field);
+  const doc = (contract.documents || []).find(d => d.id === anchor.documentId);
+  return `${doc ? doc.name : 'Removed document'}, page ${anchor.page}`;
+};
+
+export const getFieldComments = (contract: ContractData, field: keyof ContractData): Comment[] =>
+  (contract.comments || []).filter(c => c.anchor?.type === 'field' && c.anchor.field === field);
+
+export const getDocumentComments = (contract: ContractData, documentId: string): Comment[] =>
+  (contract.comments || []).filter(c => c.anchor?.type === 'document' && c.anchor.documentId === documentId);
+
+// Anchored comments the submitter still has to address
+export const getOpenAnchoredComments = (contract: Pick<Partial<ContractData>, 'comments'>): Comment[] =>
+  (contract.comments || []).filter(c => c.anchor && !c.resolvedAt);
+
+// The submitter clears anchored comments as they address them; the author may also resolve their own
+export const canResolveComment = (comment: Comment, contract: ContractData, userId: string): boolean =>
+  contract.submitterId === userId || comment.userId === userId;
@@ -0,0 +1,28 @@
+import { Comment, ContractData } from '../types';
+
+// Per-user read tracking for the Comments tab. Each user has a last-read
+// timestamp per contract; comments by other people posted after it are unread.
+
+// The current user's markers: contract ID -> timestamp of the last comment read
+export type CommentReadMarkers = Record<string, number>;
+
+// Markers once stored on the contract itself still count until superseded
+export const getLastReadAt = (contract: ContractData, userId: string, markers: CommentReadMarkers): number =>
+  Math.max(markers[contract.id] ?? 0, contract.commentReadMarkers?.[userId] ?? 0);
+
+export const getUnreadComments = (contract: ContractData, userId: string, markers: CommentReadMarkers): Comment[] => {
+  const lastReadAt = getLastReadAt(contract, userId, markers);
+  return (contract.comments || [])
+    .filter(c => c.userId !== userId && c.timestamp > lastReadAt)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const countUnreadComments = (contract: ContractData, userId: string, markers: CommentReadMarkers): number =>
+  getUnreadComments(contract, userId, markers).length;
+
+// Where the user's marker should move to once they have seen every comment, or
+// null when it is already there
+export const getReadUpTo = (contract: ContractData, userId: string, markers: CommentReadMarkers): number | null => {
+  const latest = Math.max(0, ...(contract.comments || []).map(c => c.timestamp));
+  return latest > getLastReadAt(contract, userId, markers) ? latest : null;
+};
@@ -0,0 +1,99 @@
+import { Comment, User } from '../types';
+
+export interface CommentThread {
+  root: Comment;
+  replies: Comment[];
+}
+
+// Groups comments into one level of threading, oldest first. Replies always point at
+// the root comment; a reply whose parent no longer exists is shown as a root.
+export const getCommentThreads = (comments: Comment[]): CommentThread[] => {
+  const sorted = [...comments].sort((a, b) => a.timestamp - b.timestamp);
+  const ids = new Set(sorted.map(c => c.id));
+  const isRoot = (c: Comment) => !c.parentId || !ids.has(c.parentId);
+  return sorted.filter(isRoot).map(root => ({
+    root,
+    replies: sorted.filter(c => !isRoot(c) && c.parentId === root.id),
+  }));
+};
+
+// Mentions are written as "@Full Name" in the comment text. Names contain
+// spaces, so matching is done against the known user list rather than by tokenising.
+
+export interface MentionQuery {
+  start: number; // Index of the "@"
+  query: string; // Text typed after the "@" up to the caret
+}
+
+export interface CommentSegment {
+  text: string;
+  userId?: string; // Set when the segment is a mention
+}
+
+const MAX_QUERY_LENGTH = 30;
+
+// Longest names first so "@Sarah SCM" is not cut short by a user called "Sarah"
+const byNameLength = (users: User[]) => [...users].sort((a, b) => b.name.length - a.name.length);
+
+// Returns the mention being typed at the caret, if any
+export const getMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start === -1) return null;
+  // "@" must begin a word, and the query cannot span lines
+  if (start > 0 && !/\s/.test(before[start - 1])) return null;
+  const query = before.slice(start + 1);
+  if (query.length > MAX_QUERY_LENGTH || /[\n@]/.test(query)) return null;
+  return { start, query };
+};
+
+export const findMentionCandidates = (users: User[], query: string, limit = 6): User[] => {
+  const q = query.toLowerCase();
+  return users
+    .filter(u => {
+      const name = u.name.toLowerCase();
+      // Match the full name or any later word ("@leg" finds "Larry Legal")
+      return u.isActive && (name.startsWith(q) || name.split(' ').some(word => word.startsWith(q)));
+    })
+    .slice(0, limit);
+};
+
+// Replaces the partial "@query" with the full mention and returns the new caret position
+export const insertMention = (text: string, mention: MentionQuery, caret: number, user: User): { text: string; caret: number } => {
+  const inserted = `@${user.name} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length,
+  };
+};
+
+export const splitMentions = (text: string, users: User[]): CommentSegment[] => {
+  const candidates = byNameLength(users);
+  const segments: CommentSegment[] = [];
+  let plain = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const atWordStart = text[i] === '@' && (i === 0 || /\s/.test(text[i - 1]));
+    const user = atWordStart
+      ? candidates.find(u => text.slice(i + 1, i + 1 + u.name.length).toLowerCase() === u.name.toLowerCase())
+      : undefined;
+
+    if (user) {
+      if (plain) segments.push({ text: plain });
+      plain = '';
+      const length = user.name.length + 1;
+      segments.push({ text: text.slice(i, i + length), userId: user.id });
+      i += length;
+    } else {
+      plain += text[i];
+      i += 1;
+    }
+  }
+  if (plain) segments.push({ text: plain });
+  return segments;
+};
+
+// IDs of the users mentioned in the text, each once
+export const extractMentions = (text: string, users: User[]): string[] =>
+  Array.from(new Set(splitMentions(text, users).filter(s => s.userId).map(s => s.userId!)));
@@ -0,0 +1,301 @@
+import { ContractData, ContractStatus, ContractType, DoaRule, Entity, RiskRuleSet, User } from '../types';
+import { EXCHANGE_RATES } from '../constants';
+import { evaluateRisk } from './riskLogic';
+import { deriveApprovalRoute } from './approvalWorkflow';
+import { appendAuditEntry } from './auditChain';
+import { SpreadsheetRow } from './spreadsheetImport';
+import { canCreateContract } from './accessControl';
+
+type ImportFieldType = 'text' | 'number' | 'percent' | 'date' | 'boolean' | 'entity' | 'contractType' | 'currency' | 'priceStructure';
+
+export interface ImportField {
+  field: keyof ContractData;
+  label: string;
+  type: ImportFieldType;
+  required: boolean;
+  aliases: string[]; // Header names recognised when suggesting a mapping (compared case- and punctuation-insensitively)
+}
+
+// ContractData fields a spreadsheet column can be mapped to
+export const IMPORT_FIELDS: ImportField[] = [
+  { field: 'id', label: 'Contract ID', type: 'text', required: false, aliases: ['contract id', 'contract no', 'contract number', 'reference', 'ref'] },
+  { field: 'title', label: 'Contract Title', type: 'text', required: true, aliases: ['title', 'contract title', 'contract name', 'description', 'titulo'] },
+  { field: 'contractorName', label: 'Contractor', type: 'text', required: true, aliases: ['contractor', 'contractor name', 'vendor', 'supplier', 'fornecedor'] },
+  { field: 'entity', label: 'Entity', type: 'entity', required: true, aliases: ['entity', 'company', 'country', 'business unit'] },
+  { field: 'department', label: 'Department', type: 'text', required: true, aliases: ['department', 'dept', 'function'] },
+  { field: 'contractType', label: 'Type (CAPEX/OPEX/MIXED)', type: 'contractType', required: true, aliases: ['type', 'contract type', 'capex opex'] },
+  { field: 'originalAmount', label: 'Amount (original currency)', type: 'number', required: true, aliases: ['amount', 'value', 'contract value', 'original amount', 'valor'] },
+  { field: 'originalCurrency', label: 'Currency', type: 'currency', required: true, aliases: ['currency', 'ccy', 'original currency', 'moeda'] },
+  { field: 'startDate', label: 'Start Date', type: 'date', required: true, aliases: ['start', 'start date', 'commencement date', 'effective date'] },
+  { field: 'endDate', label: 'End Date', type: 'date', required: true, aliases: ['end', 'end date', 'expiry', 'expiry date', 'completion date'] },
+  { field: 'project', label: 'Project', type: 'text', required: false, aliases: ['project', 'project name'] },
+  { field: 'sapNumber', label: 'SAP Number', type: 'text', required: false, aliases: ['sap', 'sap number', 'sap no', 'po number'] },
+  { field: 'scopeOfWork', label: 'Scope of Work', type: 'text', required: false, aliases: ['scope', 'scope of work', 'sow'] },
+  { field: 'priceStructure', label: 'Price Structure', type: 'priceStructure', required: false, aliases: ['price structure', 'pricing', 'price type'] },
+  { field: 'liabilityCapPercent', label: 'Liability Cap (%)', type: 'percent', required: false, aliases: ['liability cap', 'liability cap percent', 'liability'] },
+  { field: 'isStandardTerms', label: 'Standard Terms (Y/N)', type: 'boolean', required: false, aliases: ['standard terms', 'standard t&cs', 'standard tcs'] },
+  { field: 'subcontractingPercent', label: 'Subcontracting (%)', type: 'percent', required: false, aliases: ['subcontracting', 'subcontracting percent', 'subcontract'] },
+  { field: 'riskDescription', label: 'Risk Description', type: 'text', required: false, aliases: ['risk', 'risks', 'risk description'] },
+  { field: 'mitigationMeasures', label: 'Mitigation Measures', type: 'text', required: false, aliases: ['mitigation', 'mitigation measures'] },
+  { field: 'submissionDate', label: 'Submission / Approval Date', type: 'date', required: false, aliases: ['submission date', 'approval date', 'date approved', 'signed date'] },
+];
+
+// Column header for each mapped field; fields left unmapped are absent
+export type ImportColumnMapping = Partial<Record<keyof ContractData, string>>;
+
+export interface ImportOptions {
+  status: ContractStatus.DRAFT | ContractStatus.APPROVED;
+  fileName: string;
+  user: User;
+  doaMatrix: DoaRule[];
+  ruleSet: RiskRuleSet;
+  existingIds: string[];
+}
+
+// A valid row the store refused, e.g. an ID that already exists
+export interface ImportSaveFailure {
+  contractId: string;
+  error: string;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  errors: string[];
+  contract?: ContractData; // Only set when the row is valid
+}
+
+// "Título do Contrato" -> "titulo do contrato"
+const normalizeHeader = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9&]+/g, ' ').trim();
+
+// Suggests a column for each field from the spreadsheet's headers
+export const suggestColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<string>();
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [normalizeHeader(field.label), normalizeHeader(field.field), ...field.aliases.map(normalizeHeader)];
+    const header = headers.find(h => !used.has(h) && candidates.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field.field] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+};
+
+// Accepts "1,234,567.89", "1.234.567,89" and "1 234 567"; currency symbols are ignored
+const parseNumber = (text: string): number | undefined => {
+  let cleaned = text.replace(/[^\d.,-]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  const commaIsDecimal = lastComma > lastDot && (lastDot >= 0 || /,\d{1,2}$/.test(cleaned));
+  const dotIsThousands = !commaIsDecimal && (cleaned.match(/\./g) || []).length > 1;
+  cleaned = commaIsDecimal || dotIsThousands ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  if (cleaned === '' || cleaned === '-') return undefined;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+// Accepts ISO dates, day-first dd/mm/yyyy (as used by the Brazil and Congo registers)
+// and Excel serial day numbers. Returns yyyy-mm-dd.
+const parseDate = (text: string): string | undefined => {
+  let year: number, month: number, day: number;
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    [day, month, year] = [Number(dayFirst[1]), Number(dayFirst[2]), Number(dayFirst[3])];
+  } else if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    // Days since 1899-12-30 (Excel's epoch, including its 1900 leap-year quirk)
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86400000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    return undefined;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+};
+
+const parseBoolean = (text: string): boolean | undefined => {
+  const value = text.toLowerCase();
+  if (['y', 'yes', 'true', '1', 'sim', 'oui'].includes(value)) return true;
+  if (['n', 'no', 'false', '0', 'nao', 'não', 'non'].includes(value)) return false;
+  return undefined;
+};
+
+const parseEntity = (text: string): Entity | undefined => {
+  const value = normalizeHeader(text);
+  const aliases: Record<string, Entity> = { eg: Entity.EQUATORIAL_GUINEA, uk: Entity.LONDON, br: Entity.BRAZIL, rc: Entity.CONGO };
+  return Object.values(Entity).find(e => normalizeHeader(e) === value) || aliases[value];
+};
+
+const parsePriceStructure = (text: string): ContractData['priceStructure'] | undefined => {
+  const value = normalizeHeader(text);
+  if (value === 'fixed' || value === 'lump sum') return 'Fixed';
+  if (value === 'time & materials' || value === 'time and materials' || value === 't&m') return 'Time & Materials';
+  if (value === 'mixed') return 'Mixed';
+  return undefined;
+};
+
+// Converts one cell for its field; returns an error message for values that cannot be read
+const parseCell = (field: ImportField, text: string): { value?: unknown; error?: string } => {
+  switch (field.type) {
+    case 'number': {
+      const value = parseNumber(text);
+      if (value === undefined || value < 0) return { error: `${field.label} "${text}" is not a valid amount` };
+      return { value };
+    }
+    case 'percent': {
+      const value = parseNumber(text.replace('%', ''));
+      if (value === undefined || value < 0 || value > 100) return { error: `${field.label} "${text}" must be between 0 and 100` };
+      return { value };
+    }
+    case 'date': {
+      const value = parseDate(text);
+      return value ? { value } : { error: `${field.label} "${text}" is not a date (use yyyy-mm-dd or dd/mm/yyyy)` };
+    }
+    case 'boolean': {
+      const value = parseBoolean(text);
+      return value !== undefined ? { value } : { error: `${field.label} "${text}" must be Yes or No` };
+    }
+    case 'entity': {
+      const value = parseEntity(text);
+      return value ? { value } : { error: `Entity "${text}" must be one of ${Object.values(Entity).join(', ')}` };
+    }
+    case 'contractType': {
+      const value = text.toUpperCase();
+      return ['CAPEX', 'OPEX', 'MIXED'].includes(value) ? { value: value as ContractType } : { error: `Type "${text}" must be CAPEX, OPEX or MIXED` };
+    }
+    case 'currency': {
+      const value = text.toUpperCase();
+      return EXCHANGE_RATES[value] !== undefined ? { value } : { error: `Currency "${text}" has no exchange rate (supported: ${Object.keys(EXCHANGE_RATES).join(', ')})` };
+    }
+    case 'priceStructure': {
+      const value = parsePriceStructure(text);
+      return value ? { value } : { error: `Price structure "${text}" must be Fixed, Time & Materials or Mixed` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+// Random rather than sequential: the importer only sees the contracts in their
+// scope, so IDs must not collide with ones they cannot check against. Saving
+// still rejects a duplicate, which the wizard reports against the row.
+const generateContractId = (taken: Set<string>): string => {
+  let id: string;
+  do {
+    id = `CNT-${new Date().getFullYear()}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+  } while (taken.has(id));
+  return id;
+};
+
+// Validates every row and builds the contracts to create. Rows with errors get no contract.
+export const buildImportedContracts = (
+  headers: string[],
+  rows: SpreadsheetRow[],
+  mapping: ImportColumnMapping,
+  options: ImportOptions
+): ImportRowResult[] => {
+  const takenIds = new Set(options.existingIds);
+  const isHistorical = options.status === ContractStatus.APPROVED;
+
+  return rows.map(({ rowNumber, cells }) => {
+    const errors: string[] = [];
+    const values: Partial<ContractData> = {};
+
+    for (const field of IMPORT_FIELDS) {
+      const column = mapping[field.field];
+      const text = column ? cells[headers.indexOf(column)] ?? '' : '';
+      if (text === '') {
+        if (field.required) errors.push(`${field.label} is required`);
+        continue;
+      }
+      const { value, error } = parseCell(field, text);
+      if (error) errors.push(error);
+      // Submission dates are stored as timestamps, other dates as yyyy-mm-dd
+      else if (field.field === 'submissionDate') values.submissionDate = new Date(`${value}T00:00:00`).getTime();
+      else (values as Record<string, unknown>)[field.field] = value;
+    }
+
+    if (values.startDate && values.endDate && values.endDate < values.startDate) {
+      errors.push('End Date is before Start Date');
+    }
+    if (values.entity && !canCreateContract(options.user, { entity: values.entity })) {
+      errors.push(`You cannot import contracts for ${values.entity}`);
+    }
+    if (values.id && takenIds.has(values.id)) {
+      errors.push(`Contract ID ${values.id} already exists`);
+    }
+    if (errors.length > 0) return { rowNumber, errors };
+
+    const id = values.id || generateContractId(takenIds);
+    takenIds.add(id);
+
+    const exchangeRate = EXCHANGE_RATES[values.originalCurrency!];
+    const data: Partial<ContractData> = {
+      // Same defaults as a new submission form
+      liabilityCapPercent: 100,
+      subcontractingPercent: 0,
+      hasExtensionOptions: false,
+      isStandardTerms: true,
+      priceStructure: 'Fixed',
+      scopeOfWork: '',
+      backgroundNeed: '',
+      tenderProcessSummary: '',
+      specialConsiderations: '',
+      technicalEvalSummary: '',
+      commercialEvalSummary: '',
+      riskDescription: '',
+      mitigationMeasures: '',
+      ...values,
+      amount: Math.round(values.originalAmount! * exchangeRate * 100) / 100,
+      currency: 'USD',
+      exchangeRate,
+    };
+    data.isSubcontracting = (data.subcontractingPercent || 0) > 0;
+
+    // Manual checklist triggers start unticked; they can be set when the draft is edited
+    const risk = evaluateRisk(data, options.doaMatrix, options.ruleSet);
+    const approvalRoute = deriveApprovalRoute({
+      entity: data.entity!,
+      contractType: data.contractType!,
+      amount: data.amount!,
+      isHighRisk: risk.isHighRisk,
+      detectedTriggers: risk.triggers,
+    }, options.doaMatrix);
+
+    const auditTrail = appendAuditEntry([], {
+      userId: options.user.id,
+      userName: options.user.name,
+      action: 'Imported Contract',
+      details: isHistorical
+        ? `Historical approved record imported from ${options.fileName} (row ${rowNumber}); approved outside this system`
+        : `Imported as draft from ${options.fileName} (row ${rowNumber})`,
+    });
+
+    const contract = {
+      ...data,
+      id,
+      status: options.status,
+      submitterId: options.user.id,
+      submissionDate: values.submissionDate || Date.now(),
+      detectedTriggers: risk.triggers,
+      isHighRisk: risk.isHighRisk,
+      riskScore: risk.score,
+      riskBand: risk.band,
+      riskRuleSetVersion: options.ruleSet.version,
+      approvalRoute,
+      auditTrail,
+      comments: [],
+      reviews: [],
+      adHocReviewers: [],
+      documents: [],
+      corporateApprovals: {},
+    } as ContractData;
+
+    return { rowNumber, errors, contract };
+  });
+};
@@ -0,0 +1,64 @@
+import { ContractData, User } from '../types';
+import { getContractRiskBand, getContractRiskScore } from './riskScore';
+import { getPendingApproverRoles } from './approvalWorkflow';
+import { XlsxCell } from './xlsxWriter';
+
+export type RegisterExportFormat = 'csv' | 'xlsx';
+
+export interface RegisterExportColumn {
+  id: string;
+  label: string;
+  defaultSelected: boolean;
+  value: (contract: ContractData, users: User[]) => string | number | undefined;
+}
+
+const userName = (users: User[], id: string) => users.find(u => u.id === id)?.name || 'Unknown';
+
+// e.g. "CFO (Carl CFO); Contracts Lead (Larry Legal)"
+const describeCurrentApprover = (contract: ContractData, users: User[]) =>
+  getPendingApproverRoles(contract).map(role => {
+    const names = users.filter(u => u.role === role && u.isActive).map(u => u.name);
+    return names.length > 0 ? `${role} (${names.join(', ')})` : role;
+  }).join('; ');
+
+const formatDate = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toISOString().slice(0, 10) : '';
+
+// Columns offered in the register export, in output order
+export const REGISTER_EXPORT_COLUMNS: RegisterExportColumn[] = [
+  { id: 'id', label: 'Contract ID', defaultSelected: true, value: c => c.id },
+  { id: 'title', label: 'Contract Title', defaultSelected: true, value: c => c.title || c.contractorName },
+  { id: 'project', label: 'Project', defaultSelected: false, value: c => c.project },
+  { id: 'status', label: 'Status', defaultSelected: true, value: c => c.status },
+  { id: 'contractType', label: 'Type', defaultSelected: true, value: c => c.contractType },
+  { id: 'department', label: 'Department', defaultSelected: true, value: c => c.department },
+  { id: 'contractorName', label: 'Contractor', defaultSelected: true, value: c => c.contractorName },
+  { id: 'entity', label: 'Entity', defaultSelected: true, value: c => c.entity },
+  { id: 'submitter', label: 'Submitted By', defaultSelected: true, value: (c, users) => userName(users, c.submitterId) },
+  { id: 'submissionDate', label: 'Submission Date', defaultSelected: true, value: c => formatDate(c.submissionDate) },
+  { id: 'amountUsd', label: 'Amount (USD)', defaultSelected: true, value: c => c.amount },
+  { id: 'originalAmount', label: 'Original Amount', defaultSelected: true, value: c => c.originalAmount },
+  { id: 'originalCurrency', label: 'Original Currency', defaultSelected: true, value: c => c.originalCurrency },
+  { id: 'exchangeRate', label: 'Exchange Rate', defaultSelected: false, value: c => c.exchangeRate },
+  { id: 'startDate', label: 'Start Date', defaultSelected: false, value: c => c.startDate },
+  { id: 'endDate', label: 'End Date', defaultSelected: false, value: c => c.endDate },
+  { id: 'riskScore', label: 'Risk Score', defaultSelected: true, value: c => getContractRiskScore(c) },
+  { id: 'riskBand', label: 'Risk Band', defaultSelected: true, value: c => getContractRiskBand(c) },
+  { id: 'isHighRisk', label: 'High Risk', defaultSelected: false, value: c => c.isHighRisk ? 'Yes' : 'No' },
+  {
+    id: 'triggeredRisks', label: 'Triggered Risks', defaultSelected: true,
+    value: c => (c.detectedTriggers || []).filter(t => t.triggered).map(t => t.description).join('; '),
+  },
+  { id: 'currentApprover', label: 'Current Approver', defaultSelected: true, value: describeCurrentApprover },
+];
+
+export const DEFAULT_REGISTER_EXPORT_COLUMN_IDS = REGISTER_EXPORT_COLUMNS.filter(c => c.defaultSelected).map(c => c.id);
+
+// Header row followed by one row per contract, keeping the order contracts are given in
+export const buildRegisterExportRows = (contracts: ContractData[], columnIds: string[], users: User[]): XlsxCell[][] => {
+  const columns = REGISTER_EXPORT_COLUMNS.filter(c => columnIds.includes(c.id));
+  return [
+    columns.map(c => c.label),
+    ...contracts.map(contract => columns.map(c => c.value(contract, users))),
+  ];
+};
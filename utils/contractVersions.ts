@@ -0,0 +1,119 @@
+import { ContractData, ContractReview, ContractSnapshot, ContractVersion, User } from '../types';
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+  isText: boolean; // Long text, shown as a word diff
+}
+
+export interface WordDiffPart {
+  text: string;
+  change: 'same' | 'added' | 'removed';
+}
+
+// Fields compared between versions, in display order
+const TRACKED_FIELDS: { label: string; value: (s: ContractSnapshot) => string; isText?: boolean; field: string }[] = [
+  { field: 'title', label: 'Contract Title', value: s => s.title },
+  { field: 'contractorName', label: 'Contractor', value: s => s.contractorName },
+  { field: 'entity', label: 'Entity', value: s => `${s.entity} / ${s.department}` },
+  { field: 'project', label: 'Project', value: s => s.project || '' },
+  { field: 'contractType', label: 'Type', value: s => s.contractType },
+  { field: 'amount', label: 'Amount (USD)', value: s => `$${s.amount.toLocaleString()}` },
+  { field: 'originalAmount', label: 'Original Amount', value: s => `${(s.originalAmount || 0).toLocaleString()} ${s.originalCurrency || ''}`.trim() },
+  { field: 'priceStructure', label: 'Pricing Structure', value: s => s.priceStructure },
+  { field: 'startDate', label: 'Start Date', value: s => s.startDate },
+  { field: 'endDate', label: 'End Date', value: s => s.endDate },
+  { field: 'hasExtensionOptions', label: 'Extension Options', value: s => s.hasExtensionOptions ? 'Yes' : 'No' },
+  { field: 'isStandardTerms', label: 'Standard Terms', value: s => s.isStandardTerms ? 'Yes' : 'No' },
+  { field: 'liabilityCapPercent', label: 'Liability Cap', value: s => `${s.liabilityCapPercent}%` },
+  { field: 'subcontractingPercent', label: 'Subcontracting', value: s => s.isSubcontracting ? `${s.subcontractingPercent}%` : 'Not Allowed' },
+  { field: 'ddqNumber', label: 'DDQ Number', value: s => s.ddqNumber || '' },
+  { field: 'riskScore', label: 'Risk Score', value: s => s.riskBand ? `${s.riskScore ?? 0} (${s.riskBand})` : '' },
+  { field: 'detectedTriggers', label: 'Triggered Risks', value: s => (s.detectedTriggers || []).filter(t => t.triggered).map(t => t.description).join('; ') },
+  { field: 'documents', label: 'Documents', value: s => (s.documents || []).map(d => d.name).join(', ') },
+  { field: 'scopeOfWork', label: 'Scope of Work', value: s => s.scopeOfWork, isText: true },
+  { field: 'backgroundNeed', label: 'Background & Need', value: s => s.backgroundNeed, isText: true },
+  { field: 'tenderProcessSummary', label: 'Tender Process', value: s => s.tenderProcessSummary, isText: true },
+  { field: 'technicalEvalSummary', label: 'Technical Evaluation', value: s => s.technicalEvalSummary, isText: true },
+  { field: 'commercialEvalSummary', label: 'Commercial Evaluation', value: s => s.commercialEvalSummary, isText: true },
+  { field: 'specialConsiderations', label: 'Special Considerations', value: s => s.specialConsiderations, isText: true },
+  { field: 'deviationsDescription', label: 'Deviations', value: s => s.deviationsDescription || '', isText: true },
+  { field: 'riskDescription', label: 'Risk Description', value: s => s.riskDescription, isText: true },
+  { field: 'mitigationMeasures', label: 'Mitigation Measures', value: s => s.mitigationMeasures, isText: true },
+];
+
+// Copies the submitted content; document bodies are dropped to keep versions small
+export const snapshotContract = (contract: ContractData): ContractSnapshot => {
+  const {
+    status, auditTrail, comments, commentReadMarkers, reviews, adHocReviewers, aiRiskAnalysis, corporateApprovals,
+    ...content
+  } = contract;
+  return JSON.parse(JSON.stringify({
+    ...content,
+    documents: (content.documents || []).map(({ base64, ...doc }) => doc),
+  }));
+};
+
+export const createContractVersion = (contract: ContractData, version: number, submittedBy: User): ContractVersion => ({
+  id: `${contract.id}-v${version}`,
+  contractId: contract.id,
+  version,
+  submittedAt: Date.now(),
+  submittedBy: submittedBy.id,
+  submittedByName: submittedBy.name,
+  data: snapshotContract(contract),
+});
+
+export const diffSnapshots = (before: ContractSnapshot, after: ContractSnapshot): FieldChange[] =>
+  TRACKED_FIELDS
+    .map(f => ({ field: f.field, label: f.label, before: f.value(before) ?? '', after: f.value(after) ?? '', isText: !!f.isText }))
+    .filter(change => change.before !== change.after);
+
+// The version the user last saw as a reviewer: the latest one submitted before
+// their most recent review. Falls back to the previous version.
+export const getBaselineVersion = (versions: ContractVersion[], reviews: ContractReview[], userId: string): ContractVersion | undefined => {
+  if (versions.length < 2) return undefined;
+  const lastReview = Math.max(0, ...reviews.filter(r => r.reviewerId === userId).map(r => r.timestamp));
+  const reviewed = versions.filter(v => v.submittedAt <= lastReview);
+  const latest = versions[versions.length - 1];
+  const baseline = reviewed[reviewed.length - 1];
+  return baseline && baseline.id !== latest.id ? baseline : versions[versions.length - 2];
+};
+
+// Above this many word pairs the diff falls back to showing the whole text replaced
+const MAX_WORD_DIFF_CELLS = 250000;
+
+// Word-level diff (longest common subsequence) for long text fields
+export const diffWords = (before: string, after: string): WordDiffPart[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return [{ text: before, change: 'removed' }, { text: after, change: 'added' }];
+  }
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (text: string, change: WordDiffPart['change']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.change === change) last.text += text;
+    else parts.push({ text, change });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push(a[i], 'same'); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push(a[i++], 'removed');
+    else push(b[j++], 'added');
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
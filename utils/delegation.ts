@@ -0,0 +1,61 @@
+import { ApprovalDelegation, ContractReview, User } from '../types';
+
+// Approval delegation: while a delegation is active the delegate can see and
+// decide on contracts with the delegator's authority (utils/approvalWorkflow
+// getApprovalAuthority), and the review records both names.
+
+export type DelegationDraft = Pick<ApprovalDelegation, 'delegatorId' | 'delegateId' | 'startDate' | 'endDate' | 'reason'>;
+
+// Local calendar date as yyyy-mm-dd, so date ranges compare as strings
+export const toDateKey = (at: number = Date.now()) => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const isDelegationActive = (delegation: ApprovalDelegation, at: number = Date.now()) => {
+  const today = toDateKey(at);
+  return !delegation.revokedAt && delegation.startDate <= today && today <= delegation.endDate;
+};
+
+// Not revoked and not yet over (active now or starting later)
+export const isDelegationCurrent = (delegation: ApprovalDelegation, at: number = Date.now()) =>
+  !delegation.revokedAt && toDateKey(at) <= delegation.endDate;
+
+// Active users whose authority `delegate` currently holds
+export const getActiveDelegators = (delegate: User, delegations: ApprovalDelegation[], users: User[], at: number = Date.now()): User[] =>
+  delegate.isActive
+    ? users.filter(u => u.isActive && u.id !== delegate.id && delegations.some(d =>
+        d.delegatorId === u.id && d.delegateId === delegate.id && isDelegationActive(d, at)))
+    : [];
+
+// Active users currently holding `delegator`'s authority
+export const getActiveDelegates = (delegator: User, delegations: ApprovalDelegation[], users: User[], at: number = Date.now()): User[] =>
+  users.filter(u => u.isActive && u.id !== delegator.id && delegations.some(d =>
+    d.delegatorId === delegator.id && d.delegateId === u.id && isDelegationActive(d, at)));
+
+// Returns an error message, or null when the delegation can be saved
+export const validateDelegation = (draft: DelegationDraft, delegations: ApprovalDelegation[], users: User[], at: number = Date.now()): string | null => {
+  const delegator = users.find(u => u.id === draft.delegatorId);
+  const delegate = users.find(u => u.id === draft.delegateId);
+  if (!delegator) return 'Choose whose approvals are delegated.';
+  if (!delegate) return 'Choose a delegate.';
+  if (delegate.id === delegator.id) return 'Users cannot delegate to themselves.';
+  if (!delegate.isActive) return `${delegate.name} is deactivated.`;
+  if (!draft.startDate || !draft.endDate) return 'Enter a start and end date.';
+  if (draft.endDate < draft.startDate) return 'The end date must not be before the start date.';
+  if (draft.endDate < toDateKey(at)) return 'The end date is in the past.';
+
+  const overlapping = delegations.find(d =>
+    d.delegatorId === delegator.id && !d.revokedAt && d.startDate <= draft.endDate && draft.startDate <= d.endDate);
+  if (overlapping) {
+    const name = users.find(u => u.id === overlapping.delegateId)?.name || 'another user';
+    return `${delegator.name} already delegates to ${name} from ${overlapping.startDate} to ${overlapping.endDate}.`;
+  }
+  return null;
+};
+
+// The user whose authority a review was given with
+export const getReviewAuthorityId = (review: ContractReview) => review.onBehalfOfId ?? review.reviewerId;
+
+export const formatReviewerName = (review: ContractReview) =>
+  review.onBehalfOfName ? `${review.reviewerName} on behalf of ${review.onBehalfOfName}` : review.reviewerName;
@@ -0,0 +1,41 @@
+import { ContractData, DoaRule, UserRole } from '../types';
+
+type DoaSubject = Pick<ContractData, 'entity' | 'contractType' | 'amount'>;
+
+// Value bands are (min, max] in USD; a band starting at 0 also covers zero-value contracts.
+const isInBand = (rule: DoaRule, amount: number) =>
+  (amount > rule.minAmountUsd || (rule.minAmountUsd === 0 && amount >= 0)) &&
+  (rule.maxAmountUsd === undefined || amount <= rule.maxAmountUsd);
+
+// Entity-specific rows take precedence over the 'ALL' rows; a contract can sit in
+// several bands at once (e.g. MIXED contracts are checked as both OPEX and CAPEX).
+export const findMatchingDoaRules = (matrix: DoaRule[], contract: Partial<DoaSubject>): DoaRule[] => {
+  if (!contract.contractType) return [];
+  const amount = contract.amount || 0;
+
+  const candidates = matrix.filter(rule =>
+    rule.contractTypes.includes(contract.contractType!) && isInBand(rule, amount)
+  );
+  const entitySpecific = candidates.filter(rule => rule.entity === contract.entity);
+  return entitySpecific.length > 0 ? entitySpecific : candidates.filter(rule => rule.entity === 'ALL');
+};
+
+export const getDoaApproverRoles = (rules: DoaRule[]): UserRole[] =>
+  Array.from(new Set(rules.flatMap(rule => rule.approverRoles)));
+
+export const getDoaTriggerIds = (rules: DoaRule[]): string[] =>
+  rules.map(rule => rule.riskTriggerId).filter((id): id is string => !!id);
+
+const formatUsd = (amount: number) =>
+  amount >= 1000000 ? `USD ${amount / 1000000}M` : `USD ${amount.toLocaleString()}`;
+
+// Human readable band label, e.g. "OPEX/MIXED > USD 1M (Brazil)"
+export const describeDoaRule = (rule: DoaRule): string => {
+  const band = rule.maxAmountUsd === undefined
+    ? `> ${formatUsd(rule.minAmountUsd)}`
+    : rule.minAmountUsd === 0
+      ? `≤ ${formatUsd(rule.maxAmountUsd)}`
+      : `${formatUsd(rule.minAmountUsd)} – ${formatUsd(rule.maxAmountUsd)}`;
+  const scope = rule.entity === 'ALL' ? '' : ` (${rule.entity})`;
+  return `${rule.contractTypes.join('/')} ${band}${scope}`;
+};
@@ -0,0 +1,208 @@
+import { ContractData, ContractReview, NotificationEvent, User } from '../types';
+import { getContractRiskBand, getContractRiskScore } from './riskScore';
+import { formatReviewerName } from './delegation';
+import { SlaClock, formatSlaDuration } from './sla';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTemplateContext {
+  contract: ContractData;
+  actor?: User; // Who caused the event
+  review?: ContractReview; // Decision that caused the event, if any
+  commentText?: string; // For mentions
+  slaClock?: SlaClock; // For SLA reminders and escalations
+}
+
+interface EmailSection {
+  title: string;
+  rows?: [string, string][];
+  items?: string[];
+  paragraph?: string;
+}
+
+interface EmailTemplate {
+  subject: string;
+  heading: string;
+  intro: string;
+  sections: EmailSection[];
+  action: string;
+}
+
+// --- Shared sections ---
+
+const overviewSection = (c: ContractData): EmailSection => ({
+  title: 'Contract Overview',
+  rows: [
+    ['Contract', c.title || c.contractorName],
+    ['Contractor', c.contractorName],
+    ['Entity', `${c.entity} / ${c.department}`],
+    ['Type', c.contractType],
+    ['Amount', `USD ${c.amount.toLocaleString()}${c.originalCurrency && c.originalCurrency !== 'USD' ? ` (${c.originalCurrency} ${(c.originalAmount || 0).toLocaleString()})` : ''}`],
+    ['Duration', `${c.startDate} to ${c.endDate}`],
+  ],
+});
+
+const riskSection = (c: ContractData): EmailSection => {
+  const triggered = (c.detectedTriggers || []).filter(t => t.triggered).map(t => `${t.description} (${t.category})`);
+  return {
+    title: `Risk Profile: ${getContractRiskBand(c)} (score ${getContractRiskScore(c)})`,
+    items: triggered.length > 0 ? triggered : ['No risk triggers raised'],
+  };
+};
+
+const justificationSection = (review?: ContractReview): EmailSection[] =>
+  review ? [{
+    title: `${review.decision} by ${formatReviewerName(review)} (${review.role})`,
+    paragraph: review.comment || 'No justification provided.',
+  }] : [];
+
+const reviewHistorySection = (c: ContractData): EmailSection[] =>
+  (c.reviews || []).length > 0 ? [{
+    title: 'Review Decisions',
+    items: c.reviews.map(r => `${formatReviewerName(r)} (${r.role}): ${r.decision}${r.comment ? ` - "${r.comment}"` : ''}`),
+  }] : [];
+
+const slaSection = (clock?: SlaClock): EmailSection[] =>
+  clock ? [{
+    title: 'Service Level',
+    rows: [
+      ['Deadline', clock.label],
+      ['Waiting on', [...clock.responsibleRoles, ...(clock.responsibleUserIds.length > 0 ? ['Ad hoc reviewer'] : [])].join(', ') || 'Reviewers'],
+      ['Started', new Date(clock.startedAt).toLocaleString()],
+      ['Due', new Date(clock.dueAt).toLocaleString()],
+    ],
+  }] : [];
+
+const summarySection = (c: ContractData): EmailSection => ({
+  title: 'Executive Summary',
+  paragraph: c.backgroundNeed || c.scopeOfWork,
+});
+
+// --- Per-event templates ---
+
+const TEMPLATES: Record<NotificationEvent, (ctx: EmailTemplateContext) => EmailTemplate> = {
+  [NotificationEvent.SUBMITTED]: ({ contract }) => ({
+    subject: `NEW SUBMISSION: Review Required - ${contract.contractorName}`,
+    heading: 'New contract submitted for review',
+    intro: `A ${contract.contractType} contract for ${contract.entity} has been submitted and needs your corporate review.`,
+    sections: [overviewSection(contract), riskSection(contract), summarySection(contract)],
+    action: 'Open the contract in Trident Contract Guard to record your decision.',
+  }),
+  [NotificationEvent.CHANGES_REQUESTED]: ({ contract, review }) => ({
+    subject: `ACTION REQUIRED: Changes Requested - ${contract.contractorName}`,
+    heading: 'Changes requested on your submission',
+    intro: 'A reviewer has asked for changes before the contract can continue through approval.',
+    sections: [...justificationSection(review), overviewSection(contract)],
+    action: 'Update the submission and resubmit it for review.',
+  }),
+  [NotificationEvent.REJECTED]: ({ contract, review }) => ({
+    subject: `ACTION REQUIRED: Contract Rejected - ${contract.contractorName}`,
+    heading: 'Contract rejected',
+    intro: 'Your contract submission has been rejected.',
+    sections: [...justificationSection(review), overviewSection(contract), riskSection(contract)],
+    action: 'Review the justification and contact the reviewer if you need clarification.',
+  }),
+  [NotificationEvent.APPROVED]: ({ contract, review }) => ({
+    subject: `COMPLETED: Contract Approved - ${contract.contractorName}`,
+    heading: 'Contract approved',
+    intro: 'All required approvals are complete. You may proceed with contract execution.',
+    sections: [...justificationSection(review), overviewSection(contract), ...reviewHistorySection(contract)],
+    action: 'The full approval record is available in the contract\'s Audit Trail.',
+  }),
+  [NotificationEvent.ESCALATED_TO_CEO]: ({ contract }) => ({
+    subject: `APPROVAL REQUIRED: CEO Sign-off - ${contract.contractorName}`,
+    heading: 'CEO approval required',
+    intro: 'Corporate review is complete and this contract requires your final approval.',
+    sections: [
+      overviewSection(contract),
+      riskSection(contract),
+      ...(contract.approvalRoute?.reasons.length ? [{ title: 'Escalation Reasons', items: contract.approvalRoute.reasons }] : []),
+      ...reviewHistorySection(contract),
+      summarySection(contract),
+    ],
+    action: 'Open the contract in Trident Contract Guard to approve or reject it.',
+  }),
+  [NotificationEvent.REVIEWER_ADDED]: ({ contract, actor }) => ({
+    subject: `ASSIGNMENT: You have been added as a Reviewer - ${contract.contractorName}`,
+    heading: 'You have been added as a reviewer',
+    intro: `${actor ? actor.name : 'A colleague'} has asked for your ad hoc review of this contract.`,
+    sections: [overviewSection(contract), riskSection(contract), summarySection(contract)],
+    action: 'Open the contract in Trident Contract Guard to leave your comments or decision.',
+  }),
+  [NotificationEvent.COMMENT_MENTION]: ({ contract, actor, commentText }) => ({
+    subject: `MENTION: ${actor ? actor.name : 'A colleague'} mentioned you - ${contract.contractorName}`,
+    heading: 'You were mentioned in a comment',
+    intro: `${actor ? actor.name : 'A colleague'} mentioned you on ${contract.title || contract.contractorName}.`,
+    sections: [{ title: 'Comment', paragraph: commentText || '' }, overviewSection(contract)],
+    action: 'Reply in the Comments tab of the contract.',
+  }),
+  [NotificationEvent.SLA_REMINDER]: ({ contract, slaClock }) => ({
+    subject: `REMINDER: Review Due Soon - ${contract.contractorName}`,
+    heading: 'Review deadline approaching',
+    intro: slaClock
+      ? `${slaClock.label} for this contract is due in ${formatSlaDuration(slaClock.dueAt - Date.now())}.`
+      : 'A review deadline on this contract is approaching.',
+    sections: [...slaSection(slaClock), overviewSection(contract), riskSection(contract)],
+    action: 'Open the contract in Trident Contract Guard to record your decision before the deadline.',
+  }),
+  [NotificationEvent.SLA_ESCALATION]: ({ contract, slaClock }) => ({
+    subject: `ESCALATION: Review Overdue - ${contract.contractorName}`,
+    heading: 'Review deadline breached',
+    intro: slaClock
+      ? `${slaClock.label} for this contract is ${formatSlaDuration(Date.now() - slaClock.dueAt)} overdue and has been escalated.`
+      : 'A review deadline on this contract has been breached and escalated.',
+    sections: [...slaSection(slaClock), overviewSection(contract), ...reviewHistorySection(contract)],
+    action: 'Follow up with the reviewers, or arrange a delegation if they are unavailable.',
+  }),
+};
+
+// --- Rendering ---
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderText = (t: EmailTemplate): string => [
+  t.heading.toUpperCase(),
+  '',
+  t.intro,
+  ...t.sections.flatMap(s => [
+    '',
+    `--- ${s.title.toUpperCase()} ---`,
+    ...(s.rows || []).map(([label, value]) => `${label}: ${value}`),
+    ...(s.items || []).map(item => `- ${item}`),
+    ...(s.paragraph !== undefined ? [s.paragraph] : []),
+  ]),
+  '',
+  t.action,
+].join('\n');
+
+const renderHtml = (t: EmailTemplate): string => {
+  const sections = t.sections.map(s => `
+    <h3 style="margin:24px 0 8px;font-size:13px;text-transform:uppercase;letter-spacing:0.05em;color:#475569;">${escapeHtml(s.title)}</h3>
+    ${s.rows ? `<table style="border-collapse:collapse;font-size:14px;">${s.rows.map(([label, value]) =>
+      `<tr><td style="padding:2px 16px 2px 0;color:#64748b;">${escapeHtml(label)}</td><td style="padding:2px 0;color:#0f172a;">${escapeHtml(value)}</td></tr>`).join('')}</table>` : ''}
+    ${s.items ? `<ul style="margin:0;padding-left:20px;font-size:14px;color:#0f172a;">${s.items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : ''}
+    ${s.paragraph !== undefined ? `<p style="margin:0;font-size:14px;color:#0f172a;white-space:pre-wrap;">${escapeHtml(s.paragraph)}</p>` : ''}`).join('');
+
+  return `<!DOCTYPE html>
+<html><body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;border:1px solid #e2e8f0;">
+    <div style="background:#0f172a;color:#ffffff;padding:16px 24px;font-weight:bold;">Trident Contract Guard</div>
+    <div style="padding:24px;">
+      <h2 style="margin:0 0 8px;font-size:20px;color:#0f172a;">${escapeHtml(t.heading)}</h2>
+      <p style="margin:0;font-size:14px;color:#334155;">${escapeHtml(t.intro)}</p>
+      ${sections}
+      <p style="margin:24px 0 0;font-size:14px;color:#334155;">${escapeHtml(t.action)}</p>
+    </div>
+  </div>
+</body></html>`;
+};
+
+export const renderEmail = (event: NotificationEvent, context: EmailTemplateContext): EmailContent => {
+  const template = TEMPLATES[event](context);
+  return { subject: template.subject, text: renderText(template), html: renderHtml(template) };
+};
@@ -0,0 +1,30 @@
+// Helpers for downloading data generated in the browser (CSV, JSON, ...)
+
+// Text a spreadsheet would run as a formula (=, +, -, @, tab, CR) is prefixed with '
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: string | number | boolean | null | undefined): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Numbers are written as-is so negative amounts stay numeric
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV; the first row is the header
+export const toCsv = (rows: (string | number | boolean | null | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// e.g. "audit-log-2024-05-01.csv"
+export const datedFilename = (prefix: string, extension: string) =>
+  `${prefix}-${new Date().toISOString().slice(0, 10)}.${extension}`;
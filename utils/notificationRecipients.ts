@@ -0,0 +1,87 @@
+import { ApprovalDelegation, ContractData, ContractStatus, NotificationEvent, User, UserRole } from '../types';
+import { getApprovalRoute } from './approvalWorkflow';
+import { GROUP_WIDE_ROLES, canViewContract } from './accessControl';
+import { getActiveDelegates, getActiveDelegators } from './delegation';
+
+// Corporate and executive roles act for every entity; all other roles only
+// receive notifications for contracts of their own entity.
+
+const isInScope = (user: User, contract: ContractData) =>
+  GROUP_WIDE_ROLES.includes(user.role) || user.entity === contract.entity;
+
+const byRoles = (users: User[], roles: UserRole[], contract: ContractData) =>
+  users.filter(u => roles.includes(u.role) && isInScope(u, contract));
+
+const byIds = (users: User[], ids: string[]) => users.filter(u => ids.includes(u.id));
+
+// Users who can open the contract (utils/accessControl), including through a delegation
+export const filterContractViewers = (candidates: User[], contract: ContractData, users: User[], delegations: ApprovalDelegation[] = []) =>
+  candidates.filter(u => canViewContract(u, contract, getActiveDelegators(u, delegations, users)));
+
+// Approvers plus whoever currently holds their authority under a delegation
+const withDelegates = (approvers: User[], users: User[], delegations: ApprovalDelegation[]) =>
+  [...approvers, ...approvers.flatMap(u => getActiveDelegates(u, delegations, users))];
+
+// Maps a workflow event to the active users who should be told about it.
+// `userIds` names the specific users for REVIEWER_ADDED, COMMENT_MENTION and the
+// SLA events, which also go to holders of `roles`; approvers' active `delegations`
+// add their delegates to review requests and SLA notices.
+export const resolveRecipients = (
+  event: NotificationEvent,
+  contract: ContractData,
+  users: User[],
+  options: { userIds?: string[]; roles?: UserRole[]; delegations?: ApprovalDelegation[] } = {}
+): User[] => {
+  const delegations = options.delegations || [];
+  let recipients: User[];
+
+  switch (event) {
+    case NotificationEvent.SUBMITTED:
+      // Required corporate sign-offs plus anyone already added as an ad hoc reviewer
+      recipients = withDelegates([
+        ...byRoles(users, getApprovalRoute(contract).corporateRoles, contract),
+        ...byIds(users, (contract.adHocReviewers || []).map(r => r.userId)),
+      ], users, delegations);
+      break;
+    case NotificationEvent.ESCALATED_TO_CEO:
+      recipients = withDelegates(byRoles(users, [UserRole.CEO], contract), users, delegations);
+      break;
+    case NotificationEvent.CHANGES_REQUESTED:
+    case NotificationEvent.REJECTED:
+    case NotificationEvent.APPROVED:
+      recipients = byIds(users, [contract.submitterId]);
+      break;
+    case NotificationEvent.REVIEWER_ADDED:
+      recipients = withDelegates(byIds(users, options.userIds || []), users, delegations);
+      break;
+    case NotificationEvent.COMMENT_MENTION:
+      // The email carries contract details, so only people who may see the contract get it
+      recipients = filterContractViewers(byIds(users, options.userIds || []), contract, users, delegations);
+      break;
+    case NotificationEvent.SLA_REMINDER:
+    case NotificationEvent.SLA_ESCALATION:
+      recipients = withDelegates([
+        ...byRoles(users, options.roles || [], contract),
+        ...byIds(users, options.userIds || []),
+      ], users, delegations);
+      break;
+    default:
+      recipients = [];
+  }
+
+  // Deactivated accounts never receive mail; a user is only notified once per event
+  return recipients.filter((u, i) => u.isActive && recipients.findIndex(r => r.id === u.id) === i);
+};
+
+// Everyone involved in a contract's discussion: the submitter, its reviewers
+// (required and ad hoc) and anyone who has already commented
+export const resolveContractParticipants = (contract: ContractData, users: User[]): User[] => {
+  const ids = new Set([
+    contract.submitterId,
+    ...(contract.adHocReviewers || []).map(r => r.userId),
+    ...(contract.reviews || []).map(r => r.reviewerId),
+    ...(contract.comments || []).map(c => c.userId),
+  ]);
+  const reviewerRoles = contract.status === ContractStatus.DRAFT ? [] : getApprovalRoute(contract).corporateRoles;
+  return users.filter(u => u.isActive && (ids.has(u.id) || (reviewerRoles.includes(u.role) && isInScope(u, contract))));
+};
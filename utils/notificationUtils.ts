@@ -1,42 +1,94 @@
+import { ContractData, InAppNotification, NotificationEvent, User } from '../types';
+import { EmailContent, EmailTemplateContext, renderEmail } from './emailTemplates';
+import { createConsoleTransport, createHttpTransport } from '../services/notificationTransport';
+import { createNotificationOutbox, createIndexedDbOutboxStore } from '../services/notificationOutbox';
+import { createRelaySession } from '../services/relaySession';
+import { createIndexedDbInboxRepository } from '../services/inboxRepository';
 
-import { ContractData } from '../types';
+// Messages are relayed to the local server's SMTP transport when
+// VITE_NOTIFICATION_ENDPOINT is set, otherwise only logged (demo mode).
+const NOTIFICATION_ENDPOINT = import.meta.env.VITE_NOTIFICATION_ENDPOINT;
 
-export const formatEmailBody = (contract: ContractData): string => {
-  return `
-SUBJECT: Contract Update - ${contract.contractorName} (${contract.status})
+// The relay needs a session on the same server, opened at sign-in (components/AuthGate)
+export const relaySession = NOTIFICATION_ENDPOINT
+  ? createRelaySession(new URL('/api/sessions', NOTIFICATION_ENDPOINT).toString())
+  : undefined;
 
-DEAR USER,
+export const notificationOutbox = createNotificationOutbox({
+  transport: NOTIFICATION_ENDPOINT ? createHttpTransport(NOTIFICATION_ENDPOINT, () => relaySession?.getToken() ?? null) : createConsoleTransport(),
+  store: createIndexedDbOutboxStore(),
+});
 
-The following contract requires your attention or has been updated.
+// Queues the email; delivery status is reported through notificationOutbox.subscribe.
+// Returns false when there is nobody to notify (e.g. every recipient is inactive).
+export const triggerEmailNotification = (recipients: User[], content: EmailContent, contractId?: string): boolean => {
+  if (recipients.length === 0) {
+    console.warn(`[EMAIL SKIPPED] No active recipients | Subject: ${content.subject}`);
+    return false;
+  }
+  notificationOutbox.enqueue({ to: recipients.map(u => ({ name: u.name, email: u.email })), ...content }, contractId);
+  return true;
+};
+
+// --- In-app inbox ---
 
---- OVERVIEW ---
-Contractor: ${contract.contractorName}
-Entity: ${contract.entity}
-Department: ${contract.department}
-Amount: $${contract.amount.toLocaleString()} ${contract.currency}
-Duration: ${contract.startDate} to ${contract.endDate}
+export const inboxRepository = createIndexedDbInboxRepository();
 
---- EXECUTIVE SUMMARY ---
-${contract.backgroundNeed}
+type InboxEvent = InAppNotification['event'];
 
---- SCOPE OF WORK ---
-${contract.scopeOfWork}
+// ReviewDetail tab each notification links to
+const INBOX_TABS: Record<InboxEvent, string> = {
+  [NotificationEvent.SUBMITTED]: 'Approvals',
+  [NotificationEvent.CHANGES_REQUESTED]: 'Approvals',
+  [NotificationEvent.REJECTED]: 'Approvals',
+  [NotificationEvent.APPROVED]: 'Approvals',
+  [NotificationEvent.ESCALATED_TO_CEO]: 'Approvals',
+  [NotificationEvent.REVIEWER_ADDED]: 'Overview',
+  [NotificationEvent.COMMENT_MENTION]: 'Comments',
+  [NotificationEvent.SLA_REMINDER]: 'Approvals',
+  [NotificationEvent.SLA_ESCALATION]: 'Approvals',
+  'Comment Added': 'Comments',
+};
+
+const describeInboxEvent = (event: InboxEvent, actor: string, title: string): string => {
+  switch (event) {
+    case NotificationEvent.SUBMITTED: return `${actor} submitted ${title} for review`;
+    case NotificationEvent.CHANGES_REQUESTED: return `${actor} requested changes on ${title}`;
+    case NotificationEvent.REJECTED: return `${actor} rejected ${title}`;
+    case NotificationEvent.APPROVED: return `${title} has been approved`;
+    case NotificationEvent.ESCALATED_TO_CEO: return `${title} is awaiting CEO approval`;
+    case NotificationEvent.REVIEWER_ADDED: return `${actor} added you as a reviewer on ${title}`;
+    case NotificationEvent.COMMENT_MENTION: return `${actor} mentioned you on ${title}`;
+    case NotificationEvent.SLA_REMINDER: return `${title} is approaching its review deadline`;
+    case NotificationEvent.SLA_ESCALATION: return `${title} has breached its review deadline`;
+    case 'Comment Added': return `${actor} commented on ${title}`;
+  }
+};
 
---- VENDOR QUALIFICATION ---
-DDQ Number: ${contract.ddqNumber || 'N/A'}
-Validity: ${contract.ddqValidityDate || 'N/A'}
+// Adds an inbox entry for each recipient (never the actor) and lets the header refresh
+export const pushInAppNotification = (recipients: User[], event: InboxEvent, contract: ContractData, actor?: User) => {
+  const createdAt = Date.now();
+  const items: InAppNotification[] = recipients
+    .filter(u => u.id !== actor?.id)
+    .map(u => ({
+      id: `ntf-${createdAt}-${u.id}-${Math.random().toString(36).slice(2, 6)}`,
+      userId: u.id,
+      event,
+      contractId: contract.id,
+      message: describeInboxEvent(event, actor ? actor.name : 'Someone', contract.title || contract.contractorName),
+      tab: INBOX_TABS[event],
+      actorName: actor?.name,
+      createdAt,
+    }));
+  if (items.length === 0) return;
 
-Please log in to the Trident Contract Guard system to review full details.
-  `.trim();
+  inboxRepository.add(items)
+    .then(() => window.dispatchEvent(new CustomEvent('inbox-updated')))
+    .catch(error => console.error("Inbox Store Error:", error));
 };
 
-export const triggerEmailNotification = (toName: string, subject: string, _body: string) => {
-  // 1. Log to console for debugging
-  console.log(`[EMAIL SENT] To: ${toName} | Subject: ${subject}`);
-  
-  // 2. Dispatch event for UI Toast
-  const event = new CustomEvent('email-sent', { 
-    detail: { to: toName, subject } 
-  });
-  window.dispatchEvent(event);
+// Sends a workflow event both as an email and to the recipients' inboxes
+export const notifyUsers = (event: NotificationEvent, recipients: User[], context: EmailTemplateContext): boolean => {
+  pushInAppNotification(recipients, event, context.contract, context.actor);
+  return triggerEmailNotification(recipients, renderEmail(event, context), context.contract.id);
 };
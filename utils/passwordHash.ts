@@ -0,0 +1,48 @@
+// PBKDF2-SHA256 password hashing with Web Crypto (browser and Node 20+).
+// Only the derived key and its salt are stored, never the password.
+
+export const PASSWORD_HASH_ITERATIONS = 210000; // OWASP 2023 guidance for PBKDF2-SHA256
+export const MIN_PASSWORD_LENGTH = 10;
+
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+export interface PasswordHash {
+  passwordHash: string; // Base64
+  salt: string; // Base64
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+const deriveKey = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_BITS);
+  return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken does not reveal where the first mismatch is
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  return diff === 0;
+};
+
+// Returns a reason the password is not acceptable, or null if it is
+export const validatePassword = (password: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) return 'Password must contain letters and numbers';
+  return null;
+};
+
+export const hashPassword = async (password: string, iterations = PASSWORD_HASH_ITERATIONS): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const derived = await deriveKey(password, salt, iterations);
+  return { passwordHash: toBase64(derived), salt: toBase64(salt), iterations };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const derived = await deriveKey(password, fromBase64(stored.salt), stored.iterations);
+  return constantTimeEqual(derived, fromBase64(stored.passwordHash));
+};
@@ -0,0 +1,219 @@
+// Minimal flowing-text PDF builder (A4, Helvetica). Enough for generated memos:
+// headings, wrapped paragraphs, label/value rows and rules, with automatic page
+// breaks and a "Page x of y" footer. Text uses WinAnsi, so Latin accents print
+// but other scripts are replaced with "?".
+
+export type PdfColor = [number, number, number]; // 0-255 RGB
+
+export interface PdfTextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  indent?: number; // Points from the left margin
+}
+
+export interface PdfDocument {
+  heading: (text: string, level?: 1 | 2) => void;
+  paragraph: (text: string, style?: PdfTextStyle) => void;
+  fields: (rows: [string, string][]) => void; // Label/value pairs in two columns
+  rule: () => void;
+  space: (points: number) => void;
+  toArrayBuffer: () => ArrayBuffer;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LABEL_WIDTH = 160;
+const BRAND_COLOR: PdfColor = [40, 60, 80];
+const TEXT_COLOR: PdfColor = [30, 41, 59];
+const MUTED_COLOR: PdfColor = [100, 116, 139];
+
+// Standard Helvetica / Helvetica-Bold advance widths for ASCII 32-126 (per 1000 em)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Windows-1252 codes for the punctuation people paste from Word
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const toWinAnsi = (ch: string): number => {
+  const code = ch.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[ch] ?? 63; // '?'
+};
+
+const charWidth = (code: number, bold: boolean): number => {
+  if (code >= 32 && code <= 126) return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  if (code === 0x97) return 1000;
+  return 556;
+};
+
+const textWidth = (text: string, size: number, bold: boolean) =>
+  Array.from(text).reduce((sum, ch) => sum + charWidth(toWinAnsi(ch), bold), 0) * size / 1000;
+
+// Hex strings avoid escaping and keep the file pure ASCII
+const pdfString = (text: string) =>
+  `<${Array.from(text, ch => toWinAnsi(ch).toString(16).padStart(2, '0')).join('')}>`;
+
+const rgb = ([r, g, b]: PdfColor) => `${(r / 255).toFixed(3)} ${(g / 255).toFixed(3)} ${(b / 255).toFixed(3)}`;
+
+// Greedy word wrap; words longer than a line are broken by character
+const wrapText = (text: string, width: number, size: number, bold: boolean): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const ch of Array.from(word)) {
+        if (line && textWidth(line + ch, size, bold) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += ch;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+export const createPdfDocument = (options: { title: string; footer?: string }): PdfDocument => {
+  const pages: string[][] = [];
+  let y = 0;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  newPage();
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) newPage();
+  };
+
+  const drawText = (text: string, x: number, baseline: number, size: number, bold: boolean, color: PdfColor) => {
+    pages[pages.length - 1].push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${rgb(color)} rg ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+  };
+
+  const drawLine = (x1: number, x2: number, at: number, color: PdfColor, width = 0.5) => {
+    pages[pages.length - 1].push(`${rgb(color)} RG ${width} w ${x1} ${at.toFixed(2)} m ${x2} ${at.toFixed(2)} l S`);
+  };
+
+  const paragraph = (text: string, style: PdfTextStyle = {}) => {
+    const size = style.size ?? 10;
+    const bold = style.bold ?? false;
+    const indent = style.indent ?? 0;
+    const lineHeight = size * 1.35;
+    for (const line of wrapText(text, CONTENT_WIDTH - indent, size, bold)) {
+      ensureSpace(lineHeight);
+      y -= lineHeight;
+      drawText(line, MARGIN + indent, y + size * 0.3, size, bold, style.color ?? TEXT_COLOR);
+    }
+  };
+
+  const heading = (text: string, level: 1 | 2 = 2) => {
+    const size = level === 1 ? 18 : 12;
+    // Keep a heading together with at least a couple of lines of what follows
+    ensureSpace(size * 1.35 + 40);
+    y -= level === 1 ? 0 : 10;
+    paragraph(text, { size, bold: true, color: BRAND_COLOR });
+    if (level === 2) {
+      y -= 3;
+      drawLine(MARGIN, PAGE_WIDTH - MARGIN, y, BRAND_COLOR);
+    }
+    y -= 6;
+  };
+
+  const fields = (rows: [string, string][]) => {
+    const size = 9.5;
+    const lineHeight = size * 1.35;
+    for (const [label, value] of rows) {
+      const labelLines = wrapText(label, LABEL_WIDTH - 10, size, true);
+      const valueLines = wrapText(value || '-', CONTENT_WIDTH - LABEL_WIDTH, size, false);
+      const height = Math.max(labelLines.length, valueLines.length) * lineHeight;
+      // Short rows stay on one page; long values flow line by line
+      if (height < 120) ensureSpace(height);
+      for (let i = 0; i < Math.max(labelLines.length, valueLines.length); i++) {
+        ensureSpace(lineHeight);
+        y -= lineHeight;
+        if (labelLines[i]) drawText(labelLines[i], MARGIN, y + size * 0.3, size, true, MUTED_COLOR);
+        if (valueLines[i]) drawText(valueLines[i], MARGIN + LABEL_WIDTH, y + size * 0.3, size, false, TEXT_COLOR);
+      }
+      y -= 2;
+    }
+  };
+
+  const rule = () => {
+    ensureSpace(12);
+    y -= 6;
+    drawLine(MARGIN, PAGE_WIDTH - MARGIN, y, [203, 213, 225]);
+    y -= 6;
+  };
+
+  const space = (points: number) => {
+    y -= points;
+  };
+
+  const toArrayBuffer = (): ArrayBuffer => {
+    const objects: string[] = [];
+    const fontObjects = [3, 4];
+    const pageObjectIds = pages.map((_, i) => 6 + i * 2);
+
+    objects[1] = `<< /Type /Catalog /Pages 2 0 R >>`;
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] = `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>`;
+    objects[4] = `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>`;
+    objects[5] = `<< /Title ${pdfString(options.title)} /Producer (Trident Contract Guard) >>`;
+
+    pages.forEach((ops, i) => {
+      const footerText = `${options.footer ? `${options.footer}  |  ` : ''}Page ${i + 1} of ${pages.length}`;
+      const footer = `BT /F1 8 Tf ${rgb(MUTED_COLOR)} rg ${MARGIN} ${MARGIN - 10} Td ${pdfString(footerText)} Tj ET`;
+      const content = [...ops, footer].join('\n');
+      objects[pageObjectIds[i]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontObjects[0]} 0 R /F2 ${fontObjects[1]} 0 R >> >> /Contents ${pageObjectIds[i] + 1} 0 R >>`;
+      objects[pageObjectIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Every byte is ASCII, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = pdf.length;
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf).buffer;
+  };
+
+  return { heading, paragraph, fields, rule, space, toArrayBuffer };
+};
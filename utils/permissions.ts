@@ -0,0 +1,32 @@
+import { Permission, RolePermissionMatrix, User, UserRole } from '../types';
+import { DEFAULT_ROLE_PERMISSIONS } from '../constants';
+
+// Single entry point for "may this user do X". Components never compare roles
+// directly; they ask for a permission against the admin-configured matrix.
+export const hasPermission = (user: User, permission: Permission, matrix: RolePermissionMatrix): boolean =>
+  user.isActive && (matrix[user.role] || []).includes(permission);
+
+// Admins always keep access to settings, so the matrix cannot lock everyone out of it
+export const isLockedPermission = (role: UserRole, permission: Permission) =>
+  role === UserRole.ADMIN && permission === Permission.ADMIN_SETTINGS;
+
+// Fills roles missing from a saved matrix with their defaults and drops unknown permissions
+export const normalizeRolePermissions = (saved: Partial<RolePermissionMatrix>): RolePermissionMatrix => {
+  const known = Object.values(Permission);
+  return Object.values(UserRole).reduce((matrix, role) => {
+    const granted = (saved[role] ?? DEFAULT_ROLE_PERMISSIONS[role]).filter(p => known.includes(p));
+    matrix[role] = known.filter(p => granted.includes(p) || isLockedPermission(role, p));
+    return matrix;
+  }, {} as RolePermissionMatrix);
+};
+
+// Summary of what changed between two matrices, for the admin audit log
+export const describePermissionChanges = (before: RolePermissionMatrix, after: RolePermissionMatrix): string =>
+  Object.values(UserRole)
+    .map(role => {
+      const added = after[role].filter(p => !before[role].includes(p)).map(p => `+${p}`);
+      const removed = before[role].filter(p => !after[role].includes(p)).map(p => `-${p}`);
+      return added.length + removed.length > 0 ? `${role}: ${[...added, ...removed].join(', ')}` : '';
+    })
+    .filter(Boolean)
+    .join('; ');
@@ -1,53 +1,32 @@
-
-import { ContractData, RiskTrigger } from '../types';
-import { INITIAL_TRIGGERS } from '../constants';
-
-export const evaluateRisk = (data: Partial<ContractData>): { isHighRisk: boolean; triggers: RiskTrigger[] } => {
-  const triggers: RiskTrigger[] = JSON.parse(JSON.stringify(INITIAL_TRIGGERS)); // Deep copy
-  let isHighRisk = false;
-
-  // 1. Financial: OPEX > 1M (ID: t1)
-  // Check if type includes OPEX (OPEX or MIXED)
-  if (data.contractType === 'OPEX' || data.contractType === 'MIXED') {
-      if ((data.amount || 0) > 1000000) {
-         const t = triggers.find(t => t.id === 't1');
-         if (t) t.triggered = true;
-      }
-  }
-
-  // 2. Financial: CAPEX > 5M (ID: t2)
-  // Check if type includes CAPEX (CAPEX or MIXED)
-  if (data.contractType === 'CAPEX' || data.contractType === 'MIXED') {
-      if ((data.amount || 0) > 5000000) {
-          const t = triggers.find(t => t.id === 't2');
-          if (t) t.triggered = true;
-      }
-  }
-
-  // 3. Legal: Liability Cap < 100% (ID: t3)
-  if (data.liabilityCapPercent !== undefined && data.liabilityCapPercent < 100) {
-      const t = triggers.find(t => t.id === 't3');
-      if (t) t.triggered = true;
-  }
-
-  // 4. Operational: > 3 years (ID: t4)
-  const start = data.startDate ? new Date(data.startDate) : new Date();
-  const end = data.endDate ? new Date(data.endDate) : new Date();
-  const durationYears = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24 * 365);
-  
-  if (durationYears > 3) {
-      const t = triggers.find(t => t.id === 't4');
-      if (t) t.triggered = true;
-  }
-
-  // 5. Third Party: Subcontracting > 30% (ID: t5)
-  if ((data.subcontractingPercent || 0) > 30) {
-      const t = triggers.find(t => t.id === 't5');
-      if (t) t.triggered = true;
-  }
-
-  // Check if any trigger is active
-  isHighRisk = triggers.some(t => t.triggered);
-
-  return { isHighRisk, triggers };
+import { ContractData, RiskTrigger, DoaRule, RiskRuleSet, RiskBand } from '../types';
+import { DEFAULT_DOA_MATRIX, DEFAULT_RISK_RULE_SET } from '../constants';
+import { findMatchingDoaRules, getDoaTriggerIds } from './doaMatrix';
+import { evaluateRule } from './riskRulesEngine';
+import { calculateRiskScore, getRiskBand } from './riskScore';
+
+export const evaluateRisk = (
+  data: Partial<ContractData>,
+  doaMatrix: DoaRule[] = DEFAULT_DOA_MATRIX,
+  ruleSet: RiskRuleSet = DEFAULT_RISK_RULE_SET
+): { isHighRisk: boolean; triggers: RiskTrigger[]; score: number; band: RiskBand } => {
+  // Financial value thresholds come from the DoA band(s) the contract falls into
+  // (default matrix: OPEX > 1M raises t1, CAPEX > 5M raises t2; MIXED is checked as both)
+  const doaTriggerIds = getDoaTriggerIds(findMatchingDoaRules(doaMatrix, data));
+
+  // Every other automatic trigger is evaluated from its rule conditions;
+  // manual checklist items start unticked and are merged in by the caller
+  const triggers: RiskTrigger[] = ruleSet.rules.map(rule => ({
+    id: rule.id,
+    category: rule.category,
+    description: rule.description,
+    isAuto: rule.mode !== 'manual',
+    weight: rule.weight,
+    triggered: rule.mode === 'doa' ? doaTriggerIds.includes(rule.id) : evaluateRule(rule, data)
+  }));
+
+  // Any active trigger escalates the route; the weighted score grades the severity
+  const isHighRisk = triggers.some(t => t.triggered);
+  const score = calculateRiskScore(triggers);
+
+  return { isHighRisk, triggers, score, band: getRiskBand(score) };
 };
@@ -0,0 +1,91 @@
+import { ContractData, Entity, RiskRuleSet, RiskTriggerRule, RuleCondition, RuleField, RuleOperator } from '../types';
+
+type FieldValue = number | string | boolean | undefined;
+
+interface RuleFieldDefinition {
+  label: string;
+  type: 'number' | 'enum' | 'boolean';
+  options?: string[];
+  unit?: string;
+}
+
+// Fields a rule condition can reference. `durationYears` is derived from the contract dates.
+export const RULE_FIELDS: Record<RuleField, RuleFieldDefinition> = {
+  amount: { label: 'Contract Value (USD)', type: 'number' },
+  originalAmount: { label: 'Contract Value (Original Currency)', type: 'number' },
+  liabilityCapPercent: { label: 'Liability Cap', type: 'number', unit: '%' },
+  subcontractingPercent: { label: 'Subcontracting', type: 'number', unit: '%' },
+  durationYears: { label: 'Duration', type: 'number', unit: 'years' },
+  contractType: { label: 'Contract Type', type: 'enum', options: ['OPEX', 'CAPEX', 'MIXED'] },
+  priceStructure: { label: 'Price Structure', type: 'enum', options: ['Fixed', 'Time & Materials', 'Mixed'] },
+  entity: { label: 'Entity', type: 'enum', options: Object.values(Entity) },
+  isStandardTerms: { label: 'Standard T&Cs', type: 'boolean' },
+  isSubcontracting: { label: 'Subcontracting Allowed', type: 'boolean' },
+  hasExtensionOptions: { label: 'Extension Options', type: 'boolean' },
+};
+
+export const NUMERIC_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<=', '=', '!='];
+export const EQUALITY_OPERATORS: RuleOperator[] = ['=', '!='];
+
+const getDurationYears = (data: Partial<ContractData>): number => {
+  const start = data.startDate ? new Date(data.startDate) : new Date();
+  const end = data.endDate ? new Date(data.endDate) : new Date();
+  return (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24 * 365);
+};
+
+const getFieldValue = (data: Partial<ContractData>, field: RuleField): FieldValue => {
+  if (field === 'durationYears') return getDurationYears(data);
+  return data[field] as FieldValue;
+};
+
+const compare = (actual: FieldValue, operator: RuleOperator, expected: RuleCondition['value']): boolean => {
+  // Missing values never satisfy a condition
+  if (actual === undefined || actual === null || (typeof actual === 'number' && isNaN(actual))) return false;
+
+  switch (operator) {
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return false;
+  }
+};
+
+export const evaluateCondition = (condition: RuleCondition, data: Partial<ContractData>): boolean =>
+  compare(getFieldValue(data, condition.field), condition.operator, condition.value);
+
+// Only 'auto' rules are evaluated here; 'manual' and 'doa' rules are raised elsewhere
+export const evaluateRule = (rule: RiskTriggerRule, data: Partial<ContractData>): boolean =>
+  rule.mode === 'auto' &&
+  rule.conditions.length > 0 &&
+  rule.conditions.every(condition => evaluateCondition(condition, data));
+
+export const describeCondition = (condition: RuleCondition): string => {
+  const definition = RULE_FIELDS[condition.field];
+  const value = typeof condition.value === 'boolean' ? (condition.value ? 'Yes' : 'No') : condition.value;
+  const unit = definition.unit ? (definition.unit === '%' ? '%' : ` ${definition.unit}`) : '';
+  return `${definition.label} ${condition.operator} ${value}${unit}`;
+};
+
+export const describeRule = (rule: RiskTriggerRule): string =>
+  rule.mode === 'manual' ? 'Manual checklist item' :
+  rule.mode === 'doa' ? 'Raised by DoA value band' :
+  rule.conditions.map(describeCondition).join(' AND ') || 'No conditions';
+
+export const validateRule = (rule: RiskTriggerRule): string | null => {
+  if (!rule.description.trim()) return 'Description is required';
+  if (!Number.isInteger(rule.weight) || rule.weight < 1 || rule.weight > 10) return 'Weight must be a whole number from 1 to 10';
+  if (rule.mode === 'auto' && rule.conditions.length === 0) return 'Automatic rules need at least one condition';
+  const invalid = rule.conditions.find(c => RULE_FIELDS[c.field].type === 'number' && typeof c.value !== 'number');
+  if (invalid) return `${RULE_FIELDS[invalid.field].label} needs a numeric threshold`;
+  return null;
+};
+
+// Rule sets are append-only; contracts keep the version they were assessed under
+export const getLatestRuleSet = (ruleSets: RiskRuleSet[]): RiskRuleSet =>
+  ruleSets.reduce((latest, set) => set.version > latest.version ? set : latest, ruleSets[0]);
+
+export const getRuleSet = (ruleSets: RiskRuleSet[], version?: number): RiskRuleSet =>
+  ruleSets.find(set => set.version === (version ?? 1)) || getLatestRuleSet(ruleSets);
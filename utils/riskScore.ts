@@ -0,0 +1,32 @@
+import { ContractData, RiskBand, RiskTrigger } from '../types';
+
+// Minimum score for each band, most severe first
+export const RISK_BAND_THRESHOLDS: { band: RiskBand; minScore: number }[] = [
+  { band: RiskBand.CRITICAL, minScore: 16 },
+  { band: RiskBand.HIGH, minScore: 8 },
+  { band: RiskBand.MEDIUM, minScore: 3 },
+  { band: RiskBand.LOW, minScore: 0 },
+];
+
+export const RISK_BAND_ORDER: RiskBand[] = [RiskBand.LOW, RiskBand.MEDIUM, RiskBand.HIGH, RiskBand.CRITICAL];
+
+// Triggers stored before weights existed count as minor
+const DEFAULT_TRIGGER_WEIGHT = 1;
+
+export const calculateRiskScore = (triggers: RiskTrigger[]): number =>
+  triggers
+    .filter(t => t.triggered)
+    .reduce((score, t) => score + (t.weight ?? DEFAULT_TRIGGER_WEIGHT), 0);
+
+export const getRiskBand = (score: number): RiskBand =>
+  (RISK_BAND_THRESHOLDS.find(t => score >= t.minScore) || RISK_BAND_THRESHOLDS[RISK_BAND_THRESHOLDS.length - 1]).band;
+
+export const compareRiskBands = (a: RiskBand, b: RiskBand): number =>
+  RISK_BAND_ORDER.indexOf(a) - RISK_BAND_ORDER.indexOf(b);
+
+// Contracts saved before scoring was introduced are scored from their stored triggers
+export const getContractRiskScore = (contract: Pick<ContractData, 'riskScore' | 'detectedTriggers'>): number =>
+  contract.riskScore ?? calculateRiskScore(contract.detectedTriggers || []);
+
+export const getContractRiskBand = (contract: Pick<ContractData, 'riskScore' | 'riskBand' | 'detectedTriggers'>): RiskBand =>
+  contract.riskBand ?? getRiskBand(getContractRiskScore(contract));
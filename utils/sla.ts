@@ -0,0 +1,237 @@
+import { AuditLog, ContractData, ContractStatus, SlaNotice, SlaPolicy, SlaStage, UserRole } from '../types';
+import { ESCALATED_TO_CEO_NOTE, getApprovalRoute, hasCorporateApproval } from './approvalWorkflow';
+import { getReviewAuthorityId } from './delegation';
+
+// SLA tracking: the audit trail is replayed into the periods a contract spent in
+// each workflow stage. Every period of an SLA stage runs a stage clock plus one
+// clock per reviewer it waits on; targets come from the SlaPolicy (calendar days).
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SLA_STAGES: SlaStage[] = [ContractStatus.SUBMITTED, ContractStatus.PENDING_CEO];
+
+export const SLA_STAGE_LABELS: Record<SlaStage, string> = {
+  [ContractStatus.SUBMITTED]: 'Corporate review',
+  [ContractStatus.PENDING_CEO]: 'CEO approval',
+};
+
+export const isSlaStage = (status: ContractStatus): status is SlaStage =>
+  (SLA_STAGES as ContractStatus[]).includes(status);
+
+export interface StagePeriod {
+  stage: ContractStatus;
+  startedAt: number;
+  endedAt?: number; // Open while the contract is still in this stage
+}
+
+export type SlaClockStatus = 'on-track' | 'due-soon' | 'breached' | 'met' | 'missed';
+
+export interface SlaClock {
+  id: string; // Stable for the stage period, so each notice is only sent once
+  kind: 'stage' | 'reviewer';
+  label: string;
+  stage: SlaStage;
+  startedAt: number;
+  dueAt: number;
+  completedAt?: number;
+  status: SlaClockStatus;
+  // Who the clock is waiting on: role holders in the contract's scope and named users
+  responsibleRoles: UserRole[];
+  responsibleUserIds: string[];
+}
+
+export interface DueSlaNotice {
+  clock: SlaClock;
+  kind: SlaNotice['kind'];
+}
+
+// The status an audit entry moved the contract to, or null when it did not change it
+const getTransition = (entry: AuditLog, current: ContractStatus | undefined, contract: ContractData): ContractStatus | null => {
+  const { action } = entry;
+  if (action === 'Submitted Contract' || action === 'Resubmitted Contract') return ContractStatus.SUBMITTED;
+  if (action === 'Saved as Draft') return ContractStatus.DRAFT;
+  if (action === 'Corporate Review Complete') {
+    return entry.details?.includes(ESCALATED_TO_CEO_NOTE) ? ContractStatus.PENDING_CEO : ContractStatus.APPROVED;
+  }
+  // Decisions may carry an "(on behalf of ...)" suffix
+  if (action.startsWith('Rejected')) return ContractStatus.REJECTED;
+  if (action.startsWith('Changes Requested')) return ContractStatus.CHANGES_REQUESTED;
+  if (action.startsWith('Approved') && current === ContractStatus.PENDING_CEO) {
+    // Ad hoc approvals are recorded without moving the contract on
+    const review = (contract.reviews || []).find(r => r.timestamp === entry.timestamp && r.reviewerId === entry.userId);
+    return review && !review.isAdHoc ? ContractStatus.APPROVED : null;
+  }
+  return null;
+};
+
+// Oldest first; the last period is the contract's current stage
+export const getStageHistory = (contract: ContractData): StagePeriod[] => {
+  const entries = [...(contract.auditTrail || [])].sort((a, b) => a.timestamp - b.timestamp);
+  const periods: StagePeriod[] = [];
+
+  entries.forEach(entry => {
+    const current = periods[periods.length - 1];
+    const next = getTransition(entry, current?.stage, contract);
+    if (!next || next === current?.stage) return;
+    if (current) current.endedAt = entry.timestamp;
+    periods.push({ stage: next, startedAt: entry.timestamp });
+  });
+
+  // Records without a full trail (seeded or migrated) enter their current stage
+  // at the last recorded user activity, or at submission when there is none
+  const last = periods[periods.length - 1];
+  if (last?.stage !== contract.status) {
+    const userEntries = entries.filter(e => e.userId !== 'system');
+    const startedAt = userEntries.length > 0 ? userEntries[userEntries.length - 1].timestamp : contract.submissionDate;
+    if (startedAt !== undefined) {
+      const at = last ? Math.max(last.startedAt, startedAt) : startedAt;
+      if (last) last.endedAt = at;
+      periods.push({ stage: contract.status, startedAt: at });
+    }
+  }
+  return periods;
+};
+
+const getClockStatus = (dueAt: number, completedAt: number | undefined, policy: SlaPolicy, now: number): SlaClockStatus => {
+  if (completedAt !== undefined) return completedAt <= dueAt ? 'met' : 'missed';
+  if (now > dueAt) return 'breached';
+  return now >= dueAt - policy.reminderLeadDays * DAY_MS ? 'due-soon' : 'on-track';
+};
+
+export interface StageSlaClocks {
+  stage: SlaClock;
+  reviewers: SlaClock[];
+}
+
+// The clocks of every SLA stage period the contract has been through, oldest first
+export const getStageSlaClocks = (contract: ContractData, policy: SlaPolicy, now: number = Date.now()): StageSlaClocks[] => {
+  const reviews = contract.reviews || [];
+  const clock = (fields: Omit<SlaClock, 'dueAt' | 'status'>, targetDays: number): SlaClock => {
+    const dueAt = fields.startedAt + targetDays * DAY_MS;
+    return { ...fields, dueAt, status: getClockStatus(dueAt, fields.completedAt, policy, now) };
+  };
+
+  return getStageHistory(contract).flatMap(period => {
+    if (!isSlaStage(period.stage)) return [];
+    const stage = period.stage;
+    const isOpen = period.endedAt === undefined;
+    const inPeriod = (at: number) => at >= period.startedAt && (isOpen || at <= (period.endedAt as number));
+    const reviewerClocks: SlaClock[] = [];
+
+    // Each required corporate sign-off, while the contract waits on it
+    if (stage === ContractStatus.SUBMITTED) {
+      getApprovalRoute(contract).corporateRoles.forEach(role => {
+        const review = reviews.find(r => !r.isAdHoc && r.role === role && inPeriod(r.timestamp));
+        if (!review && (!isOpen || hasCorporateApproval(contract, role))) return;
+        reviewerClocks.push(clock({
+          id: `${period.startedAt}:role:${role}`,
+          kind: 'reviewer',
+          label: `${role} sign-off`,
+          stage,
+          startedAt: period.startedAt,
+          completedAt: review?.timestamp,
+          responsibleRoles: [role],
+          responsibleUserIds: [],
+        }, policy.reviewerTargetDays));
+      });
+    }
+
+    // Ad hoc reviewers added during this period, until they respond or the review ends
+    (contract.adHocReviewers || []).filter(a => inPeriod(a.addedAt)).forEach(a => {
+      const review = reviews.find(r => r.isAdHoc && getReviewAuthorityId(r) === a.userId && r.timestamp >= a.addedAt);
+      if (!review && !isSlaStage(contract.status)) return;
+      reviewerClocks.push(clock({
+        id: `${a.addedAt}:user:${a.userId}`,
+        kind: 'reviewer',
+        label: `${a.userName} (ad hoc)`,
+        stage,
+        startedAt: a.addedAt,
+        completedAt: review?.timestamp,
+        responsibleRoles: [],
+        responsibleUserIds: [a.userId],
+      }, policy.reviewerTargetDays));
+    });
+
+    const stageClock = clock({
+      id: `${period.startedAt}:stage:${stage}`,
+      kind: 'stage',
+      label: SLA_STAGE_LABELS[stage],
+      stage,
+      startedAt: period.startedAt,
+      completedAt: period.endedAt,
+      // Corporate review waits on the sign-offs still open; the CEO stage on the CEO
+      responsibleRoles: stage === ContractStatus.PENDING_CEO
+        ? [UserRole.CEO]
+        : reviewerClocks.filter(c => c.completedAt === undefined).flatMap(c => c.responsibleRoles),
+      responsibleUserIds: [],
+    }, policy.stageTargetDays[stage]);
+
+    return [{ stage: stageClock, reviewers: reviewerClocks }];
+  });
+};
+
+export const getSlaClocks = (contract: ContractData, policy: SlaPolicy, now: number = Date.now()): SlaClock[] =>
+  getStageSlaClocks(contract, policy, now).flatMap(group => [group.stage, ...group.reviewers]);
+
+// The clock of the stage the contract is in now, if it is an SLA stage
+export const getCurrentStageClock = (contract: ContractData, policy: SlaPolicy, now: number = Date.now()): SlaClock | undefined =>
+  isSlaStage(contract.status)
+    ? getSlaClocks(contract, policy, now).find(c => c.kind === 'stage' && c.completedAt === undefined)
+    : undefined;
+
+// Reminders as a deadline approaches and escalations once it is breached, minus
+// those in `sent` (services/slaNoticeRepository). Without auto-escalation a
+// breached clock still gets its reminder.
+export const getDueSlaNotices = (contract: ContractData, policy: SlaPolicy, sent: SlaNotice[], now: number = Date.now()): DueSlaNotice[] => {
+  const alreadySent = (clockId: string, kind: SlaNotice['kind']) =>
+    sent.some(n => n.contractId === contract.id && n.clockId === clockId && n.kind === kind);
+
+  return getSlaClocks(contract, policy, now).flatMap((clock): DueSlaNotice[] => {
+    if (clock.status === 'breached' && policy.autoEscalate) {
+      return alreadySent(clock.id, 'escalation') ? [] : [{ clock, kind: 'escalation' }];
+    }
+    if (clock.status === 'due-soon' || clock.status === 'breached') {
+      return alreadySent(clock.id, 'reminder') ? [] : [{ clock, kind: 'reminder' }];
+    }
+    return [];
+  });
+};
+
+// Days from first submission to the final decision; null while undecided
+export const getCycleDays = (contract: ContractData): number | null => {
+  const history = getStageHistory(contract);
+  const submitted = history.find(p => p.stage === ContractStatus.SUBMITTED);
+  const last = history[history.length - 1];
+  if (!submitted || !last || (last.stage !== ContractStatus.APPROVED && last.stage !== ContractStatus.REJECTED)) return null;
+  return (last.startedAt - submitted.startedAt) / DAY_MS;
+};
+
+export const getAverageCycleDays = (contracts: ContractData[]): number | null => {
+  const cycles = contracts.map(getCycleDays).filter((days): days is number => days !== null);
+  return cycles.length > 0 ? cycles.reduce((sum, days) => sum + days, 0) / cycles.length : null;
+};
+
+// e.g. "2.5 days", "6 hours"
+export const formatSlaDuration = (ms: number): string => {
+  const hours = Math.abs(ms) / (60 * 60 * 1000);
+  if (hours < 24) return `${Math.round(hours)} hour${Math.round(hours) === 1 ? '' : 's'}`;
+  const days = Math.round((hours / 24) * 10) / 10;
+  return `${days} day${days === 1 ? '' : 's'}`;
+};
+
+// One-line summary for the admin audit log
+export const describeSlaPolicy = (policy: SlaPolicy): string => [
+  ...SLA_STAGES.map(s => `${SLA_STAGE_LABELS[s]} ${policy.stageTargetDays[s]}d`),
+  `each reviewer ${policy.reviewerTargetDays}d`,
+  `reminder ${policy.reminderLeadDays}d before`,
+  policy.autoEscalate ? `escalate to ${policy.escalationRoles.join(', ')}` : 'no auto-escalation',
+].join(', ');
+
+// Returns an error message, or null when the policy can be saved
+export const validateSlaPolicy = (policy: SlaPolicy): string | null => {
+  const targets = [...SLA_STAGES.map(s => policy.stageTargetDays[s]), policy.reviewerTargetDays];
+  if (targets.some(days => !Number.isFinite(days) || days <= 0)) return 'Every target must be more than 0 days.';
+  if (!Number.isFinite(policy.reminderLeadDays) || policy.reminderLeadDays < 0) return 'The reminder lead time cannot be negative.';
+  if (policy.autoEscalate && policy.escalationRoles.length === 0) return 'Choose at least one role to escalate breaches to.';
+  return null;
+};
@@ -0,0 +1,46 @@
+import { ApprovalDelegation, ContractData, NotificationEvent, SlaNotice, SlaPolicy, User } from '../types';
+import { AuditEntryInput } from './auditChain';
+import { notifyUsers } from './notificationUtils';
+import { resolveRecipients } from './notificationRecipients';
+import { DueSlaNotice } from './sla';
+
+// Sending an SLA notice takes three steps, so nothing is sent before it is
+// recorded: claim the SlaNotice, append the audit entry to the stored contract,
+// then notify the recipients.
+
+const getNoticeEvent = ({ kind }: DueSlaNotice) =>
+  kind === 'reminder' ? NotificationEvent.SLA_REMINDER : NotificationEvent.SLA_ESCALATION;
+
+export const createSlaNotice = (contract: ContractData, { clock, kind }: DueSlaNotice, now: number = Date.now()): SlaNotice => ({
+  id: `${contract.id}|${clock.id}|${kind}`,
+  contractId: contract.id,
+  clockId: clock.id,
+  kind,
+  sentAt: now,
+});
+
+// Escalations also tell whoever the clock is waiting on
+export const resolveSlaRecipients = (
+  due: DueSlaNotice,
+  contract: ContractData,
+  policy: SlaPolicy,
+  users: User[],
+  delegations: ApprovalDelegation[]
+): User[] => {
+  const { clock, kind } = due;
+  const roles = kind === 'reminder' ? clock.responsibleRoles : [...clock.responsibleRoles, ...policy.escalationRoles];
+  return resolveRecipients(getNoticeEvent(due), contract, users, { roles, userIds: clock.responsibleUserIds, delegations });
+};
+
+export const slaNoticeAuditEntry = ({ clock, kind }: DueSlaNotice, recipients: User[], now: number = Date.now()): AuditEntryInput => ({
+  timestamp: now,
+  userId: 'system',
+  userName: 'System',
+  action: kind === 'reminder' ? 'SLA Reminder Sent' : 'SLA Breach Escalated',
+  details: `${clock.label} due ${new Date(clock.dueAt).toLocaleString()}. ` +
+    (recipients.length > 0 ? `Notified ${recipients.map(u => u.name).join(', ')}.` : 'No active recipients.')
+});
+
+// Queues the emails and inbox items; call once the notice is recorded
+export const sendSlaNotice = (due: DueSlaNotice, contract: ContractData, recipients: User[]) =>
+  notifyUsers(getNoticeEvent(due), recipients, { contract, slaClock: due.clock });
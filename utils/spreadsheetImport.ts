@@ -0,0 +1,69 @@
+import { readXlsxRows } from './xlsxReader';
+
+// Parses RFC 4180 CSV. Spreadsheets saved with a comma decimal separator (e.g. in
+// Brazil) use ';' between fields, so the delimiter is picked from the header line.
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\ufeff/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (inQuotes) {
+      if (ch === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export interface SpreadsheetRow {
+  rowNumber: number; // 1-based, as shown in the spreadsheet
+  cells: string[]; // Padded to the header width
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: SpreadsheetRow[]; // Data rows only
+}
+
+// Reads a .csv or .xlsx file. The first non-empty row is the header; blank rows are dropped.
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetData> => {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  if (!isXlsx && !/\.csv$/i.test(file.name)) throw new Error('Only .csv and .xlsx files can be imported');
+
+  const allRows = isXlsx ? await readXlsxRows(await file.arrayBuffer()) : parseCsv(await file.text());
+  const nonEmpty = allRows
+    .map((cells, i) => ({ rowNumber: i + 1, cells }))
+    .filter(r => r.cells.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) throw new Error('The file is empty');
+
+  const headers = nonEmpty[0].cells.map(h => h.trim());
+  return {
+    headers,
+    rows: nonEmpty.slice(1).map(r => ({ rowNumber: r.rowNumber, cells: headers.map((_, i) => (r.cells[i] ?? '').trim()) })),
+  };
+};
@@ -0,0 +1,113 @@
+import { ContractData, ContractStatus, Permission, RolePermissionMatrix, User, UserRole } from '../types';
+import { getPendingApproverRoles } from './approvalWorkflow';
+import { getReviewAuthorityId } from './delegation';
+import { canCreateContract, canViewContract } from './accessControl';
+import { hasPermission } from './permissions';
+
+// Guardrails for Admin Settings > User Management. Re-checked by App against the
+// full (unscoped) contract list before any change is stored.
+
+export type UserDraft = Pick<User, 'name' | 'email' | 'role' | 'entity' | 'isActive'>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Returns an error message, or null when the draft can be saved
+export const validateUserDraft = (draft: UserDraft, users: User[], editingId?: string): string | null => {
+  if (!draft.name.trim()) return 'Name is required.';
+  if (!EMAIL_PATTERN.test(draft.email.trim())) return 'Enter a valid email address.';
+  const email = draft.email.trim().toLowerCase();
+  if (users.some(u => u.id !== editingId && u.email.toLowerCase() === email)) return `A user with the email ${draft.email.trim()} already exists.`;
+  return null;
+};
+
+const isActiveReview = (contract: ContractData) =>
+  contract.status === ContractStatus.SUBMITTED || contract.status === ContractStatus.PENDING_CEO;
+
+const approvalPermissionFor = (role: UserRole) =>
+  role === UserRole.CEO ? Permission.CONTRACT_APPROVE_FINAL : Permission.CONTRACT_APPROVE_CORPORATE;
+
+const canSignOff = (user: User, role: UserRole, contract: ContractData, rolePermissions: RolePermissionMatrix) =>
+  user.role === role && hasPermission(user, approvalPermissionFor(role), rolePermissions) && canViewContract(user, contract);
+
+// Contracts the user submitted that are still open (anything not yet approved or rejected)
+export const getOpenContracts = (user: User, contracts: ContractData[]) =>
+  contracts.filter(c => c.submitterId === user.id && c.status !== ContractStatus.APPROVED && c.status !== ContractStatus.REJECTED);
+
+// Contracts in review that are waiting on this user: an ad hoc review they have not
+// given yet, or a sign-off that no other active user holding the role could give
+export const getPendingReviews = (user: User, contracts: ContractData[], users: User[], rolePermissions: RolePermissionMatrix) =>
+  contracts.filter(contract => {
+    if (!isActiveReview(contract)) return false;
+
+    const isOpenAdHoc = (contract.adHocReviewers || []).some(r => r.userId === user.id)
+      && !contract.reviews.some(r => getReviewAuthorityId(r) === user.id);
+    if (isOpenAdHoc) return true;
+
+    return getPendingApproverRoles(contract).some(role =>
+      canSignOff(user, role, contract, rolePermissions)
+      && !users.some(other => other.id !== user.id && canSignOff(other, role, contract, rolePermissions))
+    );
+  });
+
+// Reasons the user cannot be deleted yet (empty when deletion is allowed)
+export const getDeletionBlockers = (
+  user: User,
+  currentUser: User,
+  contracts: ContractData[],
+  users: User[],
+  rolePermissions: RolePermissionMatrix
+): string[] => {
+  const blockers: string[] = [];
+  if (user.id === currentUser.id) blockers.push('You cannot delete your own account.');
+
+  const pending = getPendingReviews(user, contracts, users, rolePermissions);
+  if (pending.length > 0) {
+    blockers.push(`${user.name} has ${pending.length} pending review(s): ${pending.map(c => c.title).join(', ')}.`);
+  }
+
+  const open = getOpenContracts(user, contracts);
+  if (open.length > 0) {
+    blockers.push(`${user.name} submitted ${open.length} open contract(s) that must be reassigned first.`);
+  }
+  return blockers;
+};
+
+// Reason an edit cannot be saved (null when allowed). Deactivating a user, or moving
+// them to another role or entity, must not leave their pending reviews without anyone
+// to give them. Their open contracts stay with them until they are deleted.
+export const getUserUpdateBlocker = (
+  before: User,
+  after: User,
+  currentUser: User,
+  contracts: ContractData[],
+  users: User[],
+  rolePermissions: RolePermissionMatrix
+): string | null => {
+  if (before.id === currentUser.id && (!after.isActive || after.role !== before.role)) {
+    return 'You cannot deactivate your own account or change your own role.';
+  }
+  const losesAccess = before.isActive && (!after.isActive || after.role !== before.role || after.entity !== before.entity);
+  if (!losesAccess) return null;
+  const pending = getPendingReviews(before, contracts, users, rolePermissions);
+  if (pending.length > 0) return `${before.name} has ${pending.length} pending review(s): ${pending.map(c => c.title).join(', ')}.`;
+  return null;
+};
+
+// Active users who can take over a contract (its entity must be in their scope)
+export const getReassignmentCandidates = (contract: ContractData, users: User[], rolePermissions: RolePermissionMatrix) =>
+  users.filter(u =>
+    u.id !== contract.submitterId
+    && hasPermission(u, Permission.CONTRACT_CREATE, rolePermissions)
+    && canCreateContract(u, contract)
+  );
+
+// Human-readable summary of an edit for the admin audit log
+export const describeUserChanges = (before: User, after: User): string => {
+  const fields: (keyof UserDraft)[] = ['name', 'email', 'role', 'entity', 'isActive'];
+  return fields
+    .filter(field => before[field] !== after[field])
+    .map(field => field === 'isActive'
+      ? (after.isActive ? 'Activated' : 'Deactivated')
+      : `${field}: ${before[field]} -> ${after[field]}`)
+    .join('; ');
+};
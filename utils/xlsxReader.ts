@@ -0,0 +1,119 @@
+// Reads the first worksheet of an .xlsx file into rows of cell text. Only what
+// an import needs: cell values, shared and inline strings. Formatting is ignored,
+// so dates arrive as Excel serial numbers.
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipDirectory = (view: DataView): Map<string, ZipEntry> => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { end = i; break; }
+  }
+  if (end < 0) throw new Error('The file is not a valid .xlsx workbook');
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('The .xlsx workbook is corrupt');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<ArrayBuffer> => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+const readZipText = async (view: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | undefined> => {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method === 8) return new TextDecoder().decode(await inflateRaw(data));
+  throw new Error(`Unsupported compression in ${name}`);
+};
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, code: string) => {
+    if (code[0] === '#') return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[code.toLowerCase()];
+  });
+
+// Concatenates every <t> run, which covers plain and rich-text strings
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), m => decodeXml(m[1])).join('');
+
+const attribute = (attrs: string, name: string) =>
+  attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+// "C12" -> [11, 2]
+const parseCellRef = (ref: string): [number, number] => {
+  const [, letters, digits] = ref.match(/^([A-Z]+)(\d+)$/) || [];
+  const column = letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+  return [Number(digits) - 1, column];
+};
+
+const resolveFirstSheetPath = (workbook: string, rels: string): string => {
+  const sheetRelId = attribute(workbook.match(/<sheet\b[^>]*>/)?.[0] || '', 'r:id');
+  const rel = Array.from(rels.matchAll(/<Relationship\b[^>]*>/g), m => m[0]).find(r => attribute(r, 'Id') === sheetRelId);
+  const target = rel && attribute(rel, 'Target');
+  if (!target) throw new Error('The workbook has no worksheets');
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(buffer);
+  const entries = readZipDirectory(view);
+
+  const workbook = await readZipText(view, entries, 'xl/workbook.xml');
+  const rels = await readZipText(view, entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) throw new Error('The file is not a valid .xlsx workbook');
+
+  const sheet = await readZipText(view, entries, resolveFirstSheetPath(workbook, rels));
+  if (!sheet) throw new Error('The first worksheet is missing');
+
+  const sharedXml = await readZipText(view, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedXml ? Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), m => textRuns(m[1])) : [];
+
+  const rows: string[][] = [];
+  for (const [, attrs, body = ''] of sheet.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+    const ref = attribute(attrs, 'r');
+    if (!ref) continue;
+    const [row, column] = parseCellRef(ref);
+    const type = attribute(attrs, 't');
+    const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+    let value = '';
+    if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+    else if (type === 'inlineStr') value = textRuns(body);
+    else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+    else if (raw !== undefined) value = decodeXml(raw);
+
+    while (rows.length <= row) rows.push([]);
+    const cells = rows[row];
+    while (cells.length < column) cells.push('');
+    cells[column] = value;
+  }
+  return rows;
+};
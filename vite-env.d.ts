@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SEED_MOCK_DATA?: string;
+  readonly VITE_NOTIFICATION_ENDPOINT?: string;
+  readonly VITE_DEV_MODE?: string;
+  readonly VITE_DEMO_PASSWORD?: string;
+  readonly VITE_BOOTSTRAP_ADMIN_EMAIL?: string;
+  readonly VITE_BOOTSTRAP_ADMIN_NAME?: string;
+  readonly VITE_OIDC_ISSUER?: string;
+  readonly VITE_OIDC_CLIENT_ID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}